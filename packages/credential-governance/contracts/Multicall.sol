@@ -0,0 +1,65 @@
+pragma solidity 0.8.6;
+
+/**
+ * Multicall aggregates results from multiple read-only function calls
+ * so that they can be queried in a single eth_call.
+ * Based on Multicall2 (https://github.com/makerdao/multicall)
+ */
+contract Multicall {
+    struct Call {
+        address target;
+        bytes callData;
+    }
+
+    struct Result {
+        bool success;
+        bytes returnData;
+    }
+
+    /**
+     * Executes all calls and reverts if any of them fails
+     * @param calls The calls to execute
+     * @return blockNumber The block at which the calls were executed
+     * @return returnData The data returned by each call
+     */
+    function aggregate(Call[] memory calls)
+        public
+        returns (uint256 blockNumber, bytes[] memory returnData)
+    {
+        blockNumber = block.number;
+        returnData = new bytes[](calls.length);
+        for (uint256 i = 0; i < calls.length; i++) {
+            (bool success, bytes memory ret) = calls[i].target.call(
+                calls[i].callData
+            );
+            require(success, "Multicall: call failed");
+            returnData[i] = ret;
+        }
+    }
+
+    /**
+     * Executes all calls, reporting the success of each individually
+     * @param requireSuccess Whether to revert if any of the calls fails
+     * @param calls The calls to execute
+     * @return returnData The success flag and data returned by each call
+     */
+    function tryAggregate(bool requireSuccess, Call[] memory calls)
+        public
+        returns (Result[] memory returnData)
+    {
+        returnData = new Result[](calls.length);
+        for (uint256 i = 0; i < calls.length; i++) {
+            (bool success, bytes memory ret) = calls[i].target.call(
+                calls[i].callData
+            );
+            if (requireSuccess) {
+                require(success, "Multicall: call failed");
+            }
+            returnData[i] = Result(success, ret);
+        }
+    }
+
+    function getBlockNumber() public view returns (uint256 blockNumber) {
+        blockNumber = block.number;
+    }
+}
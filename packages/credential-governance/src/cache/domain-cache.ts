@@ -0,0 +1,29 @@
+/**
+ * An interface for a store in which `DomainReader` caches domain definitions and names
+ */
+export interface DomainCache {
+  /**
+   * Reads the cached value
+   * @param key key of the value
+   * @returns The cached value or `undefined` if it is not cached
+   */
+  get<T>(key: string): Promise<T | undefined>;
+
+  /**
+   * Caches the value
+   * @param key key of the value
+   * @param value value to cache
+   */
+  set<T>(key: string, value: T): Promise<void>;
+
+  /**
+   * Removes the value from the cache
+   * @param key key of the value
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Removes all values from the cache
+   */
+  clear(): Promise<void>;
+}
@@ -0,0 +1,2 @@
+export { DomainCache } from './domain-cache';
+export { LruDomainCache } from './lru-domain-cache';
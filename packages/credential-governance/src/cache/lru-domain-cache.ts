@@ -0,0 +1,47 @@
+import { DomainCache } from './domain-cache';
+
+/**
+ * In-memory cache which evicts the least recently used values when full
+ */
+export class LruDomainCache implements DomainCache {
+  private readonly _values = new Map<string, unknown>();
+  private readonly _maxSize: number;
+
+  /**
+   * @param maxSize maximum number of cached values
+   */
+  constructor({ maxSize = 1000 }: { maxSize?: number } = {}) {
+    if (maxSize < 1) {
+      throw new Error('Cache size should be positive');
+    }
+    this._maxSize = maxSize;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    if (!this._values.has(key)) {
+      return undefined;
+    }
+    const value = this._values.get(key) as T;
+    // Map preserves insertion order, so reinserting marks value as most recently used
+    this._values.delete(key);
+    this._values.set(key, value);
+    return value;
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    this._values.delete(key);
+    this._values.set(key, value);
+    if (this._values.size > this._maxSize) {
+      const [leastRecentlyUsed] = this._values.keys();
+      this._values.delete(leastRecentlyUsed);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this._values.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this._values.clear();
+  }
+}
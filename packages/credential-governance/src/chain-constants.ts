@@ -1,4 +1,6 @@
 import { Chain } from '@ew-did-registry/did';
+import { NetworkRegistry } from './network-registry';
+import { NetworkConfig } from './types/network-config';
 
 // Volta chain
 export const VOLTA_CHAIN_ID = 73799;
@@ -41,15 +43,57 @@ export const EWC_ADDRESS_1056 = '0xE29672f34e92b56C9169f9D485fFc8b9A136BCE4';
 export const EWC_CLAIMS_REVOCATION_REG_ADDR =
   '0xd72B4c8D5B1a1A4C7085259548bDF1A175CFc48D';
 
-export const chainIdToChainName = (chainId: number) => {
-  switch (chainId) {
-    case VOLTA_CHAIN_ID:
-      return Chain.VOLTA;
-    case EWC_CHAIN_ID:
-      return Chain.EWC;
-    case 1337: // test chain
-      return Chain.VOLTA;
-    default:
-      throw new Error(`Unsupported chain ${chainId}`);
-  }
+export const VOLTA_NETWORK: NetworkConfig = {
+  chainId: VOLTA_CHAIN_ID,
+  chainName: Chain.VOLTA,
+  ensRegistryAddress: VOLTA_ENS_REGISTRY_ADDRESS,
+  publicResolverAddress: VOLTA_PUBLIC_RESOLVER_ADDRESS,
+  resolverV1Address: VOLTA_RESOLVER_V1_ADDRESS,
+  resolverV2Address: VOLTA_RESOLVER_V2_ADDRESS,
+  domainNotifierAddress: VOLTA_DOMAIN_NOTIFER_ADDRESS,
+  claimManagerAddress: VOLTA_CLAIM_MANAGER_ADDRESS,
+  claimsRevocationRegistryAddress: VOLTA_CLAIMS_REVOCATION_REG_ADDR,
+  didRegistryAddress: VOLTA_ERC_1056_ADDRESS,
+  identityManagerAddress: VOLTA_IDENTITY_MANAGER_ADDRESS,
 };
+
+export const EWC_NETWORK: NetworkConfig = {
+  chainId: EWC_CHAIN_ID,
+  chainName: Chain.EWC,
+  ensRegistryAddress: EWC_ENS_REGISTRY_ADDRESS,
+  publicResolverAddress: EWC_PUBLIC_RESOLVER_ADDRESS,
+  resolverV2Address: EWC_RESOLVER_V2_ADDRESS,
+  domainNotifierAddress: EWC_DOMAIN_NOTIFER_ADDRESS,
+  claimManagerAddress: EWC_CLAIM_MANAGER_ADDRESS,
+  claimsRevocationRegistryAddress: EWC_CLAIMS_REVOCATION_REG_ADDR,
+  didRegistryAddress: EWC_ADDRESS_1056,
+  identityManagerAddress: EWC_IDENTITY_MANAGER_ADDRESS,
+};
+
+// Local test chain, whose DIDs are named as Volta DIDs
+export const TEST_CHAIN_ID = 1337;
+export const TEST_NETWORK: NetworkConfig = {
+  chainId: TEST_CHAIN_ID,
+  chainName: Chain.VOLTA,
+};
+
+/**
+ * Networks supported by default. Other networks can be registered with `networkRegistry.register`
+ */
+export const networkRegistry = new NetworkRegistry([
+  VOLTA_NETWORK,
+  EWC_NETWORK,
+  TEST_NETWORK,
+]);
+
+/**
+ * Maps chain id to the name of the network used in ethr DIDs
+ * @param chainId id of the chain
+ * @param registry registry of the networks
+ * @returns Name of the network
+ * @throws {ChainIsNotSupported} if network is not registered
+ */
+export const chainIdToChainName = (
+  chainId: number,
+  registry: NetworkRegistry = networkRegistry
+): string => registry.get(chainId).chainName;
@@ -5,3 +5,6 @@ const { parseEther } = utils;
 export const emptyAddress = '0x0000000000000000000000000000000000000000';
 export const PRINCIPAL_THRESHOLD = parseEther('100');
 export const WITHDRAW_DELAY = 5;
+
+/** Default number of blocks whose logs are requested at once */
+export const DEFAULT_LOGS_BLOCK_RANGE = 5000;
@@ -6,35 +6,65 @@ import { ENSRegistry__factory } from '../ethers/factories/ENSRegistry__factory';
 import { abi as ensRegistryContract } from '../build/contracts/ENS.json';
 import { abi as ensResolverContract } from '../build/contracts/PublicResolver.json';
 import { abi as domainNotifierContract } from '../build/contracts/DomainNotifier.json';
-import { emptyAddress } from './constants';
+import { DEFAULT_LOGS_BLOCK_RANGE, emptyAddress } from './constants';
 import { DomainReader } from './domain-reader';
 import { PublicResolver__factory } from '../ethers/factories/PublicResolver__factory';
 import { DomainNotifier__factory } from '../ethers/factories/DomainNotifier__factory';
 import { PublicResolver } from '../ethers/PublicResolver';
 import { DomainNotifier } from '../ethers/DomainNotifier';
+import { DomainIndexStore, InMemoryDomainIndexStore } from './domain-index';
+import { DomainTreeNode } from './types/domain-tree';
+import { networkRegistry as defaultNetworkRegistry } from './chain-constants';
+import { NetworkRegistry } from './network-registry';
 
 const { namehash } = utils;
 
+export const METADOMAINS = ['roles', 'apps', 'orgs'] as const;
+
 export class DomainHierarchy {
   protected readonly _domainReader: DomainReader;
   protected readonly _ensRegistry: ENSRegistry;
   protected readonly _provider: providers.Provider;
   protected readonly _domainNotifier: DomainNotifier;
   protected readonly _publicResolver?: PublicResolver;
+  protected readonly _indexStore: DomainIndexStore;
+  protected readonly _logsBlockRange: number;
+  private _indexing?: Promise<void>;
 
+  /**
+   * @param indexStore store of the indexed domain names. By default names are indexed in memory
+   * @param logsBlockRange maximal number of blocks whose logs are requested at once
+   * @param chainId chain of the provider. Addresses which are not passed default to the addresses of its network in `networkRegistry`
+   * @param networkRegistry registry of the networks
+   */
   constructor({
     domainReader,
     ensRegistryAddress,
     provider,
     domainNotifierAddress,
     publicResolverAddress,
+    indexStore = new InMemoryDomainIndexStore(),
+    logsBlockRange = DEFAULT_LOGS_BLOCK_RANGE,
+    chainId,
+    networkRegistry = defaultNetworkRegistry,
   }: {
     domainReader: DomainReader;
-    ensRegistryAddress: string;
+    ensRegistryAddress?: string;
     provider: providers.Provider;
-    domainNotifierAddress: string;
+    domainNotifierAddress?: string;
     publicResolverAddress?: string;
+    indexStore?: DomainIndexStore;
+    logsBlockRange?: number;
+    chainId?: number;
+    networkRegistry?: NetworkRegistry;
   }) {
+    const network =
+      chainId === undefined ? undefined : networkRegistry.get(chainId);
+    ensRegistryAddress = ensRegistryAddress ?? network?.ensRegistryAddress;
+    domainNotifierAddress =
+      domainNotifierAddress ?? network?.domainNotifierAddress;
+    publicResolverAddress =
+      publicResolverAddress ?? network?.publicResolverAddress;
     if (!domainReader) throw new Error('You need to pass a DomainReader');
     this._domainReader = domainReader;
     if (!ensRegistryAddress)
@@ -62,86 +92,169 @@ export class DomainHierarchy {
         provider
       );
     }
+
+    this._indexStore = indexStore;
+    if (logsBlockRange < 1)
+      throw new Error('Logs block range should be positive');
+    this._logsBlockRange = logsBlockRange;
   }
 
   /**
    * Retrieves list of subdomains from on-chain for a given parent domain
-   * based on the logs from the ENS resolver contracts.
-   * By default, queries from the DomainNotifier contract.
-   * If publicResolver available, also queries from PublicResolver contract.
+   * based on the index of domain names.
+   * Before querying, the index is updated with the logs of the blocks mined since the last indexed block.
+   * Names are indexed from DomainNotifier, ENS Registry and, if available, PublicResolver contract logs.
+   * @param includeMetadomains whether `roles`, `apps` and `orgs` metadomains are returned. By default they are filtered out
    */
   public getSubdomainsUsingResolver = async ({
     domain,
     mode,
+    includeMetadomains = false,
   }: {
     domain: string;
     mode: 'ALL' | 'FIRSTLEVEL';
+    includeMetadomains?: boolean;
   }): Promise<string[]> => {
-    if (mode === 'ALL') {
-      const getParser = (nameReader: (node: string) => Promise<string>) => {
-        return async ({ node }: Result) => {
-          try {
-            const name = await nameReader(node);
-            if (this.isMetadomain(name)) {
-              return '';
-            }
-
-            if (name.endsWith(domain) && name !== domain) {
-              const owner = await this._ensRegistry.owner(node);
-              if (owner === emptyAddress) return '';
-              return name;
-            }
-          } catch {
-            // A possible source of exceptions is if domain has been deleted (https://energyweb.atlassian.net/browse/SWTCH-997)
-            return '';
-          }
-          return '';
-        };
-      };
-      let subDomains = await this.getDomainsFromLogs({
-        parser: getParser(this._domainReader.readName.bind(this._domainReader)),
-        provider: this._domainNotifier.provider,
-        event: this._domainNotifier.filters.DomainUpdated(null), // some updates may be missed because they require explicit notification
-        contractInterface: new utils.Interface(domainNotifierContract),
-      });
-      if (this._publicResolver) {
-        const publicResolverDomains = await this.getDomainsFromLogs({
-          parser: getParser((node) => this._domainReader.readName(node)),
-          provider: this._publicResolver.provider,
-          event: this._publicResolver.filters.TextChanged(
-            null,
-            'metadata',
-            null
-          ),
-          contractInterface: new utils.Interface(ensResolverContract),
-        });
-        subDomains = new Set([...publicResolverDomains, ...subDomains]);
-      }
-      return [...subDomains].filter(Boolean); // Boolean filter to remove empty string
-    }
-    const singleLevel = await this.getDomainsFromLogs({
-      contractInterface: new utils.Interface(ensRegistryContract),
-      event: this._ensRegistry.filters.NewOwner(namehash(domain), null, null),
-      parser: async ({ node, label, owner }) => {
-        if (owner === emptyAddress) return '';
-        const namehash = utils.keccak256(node + label.slice(2));
+    await this.indexDomains();
+    const names = await this._indexStore.getNames();
+    const level = domain.split('.').length + 1;
+    const subDomains = names.filter(
+      (name) =>
+        name.endsWith(`.${domain}`) &&
+        (mode === 'ALL' || name.split('.').length === level) &&
+        (includeMetadomains || !this.isMetadomain(name))
+    );
+    const registeredDomains = await Promise.all(
+      subDomains.map(async (name) => {
+        const node = namehash(name);
         try {
-          const [name, ownerAddress] = await Promise.all([
-            this._domainReader.readName(namehash),
-            this._ensRegistry.owner(namehash),
+          const [, owner] = await Promise.all([
+            this._domainReader.readName(node),
+            this._ensRegistry.owner(node),
           ]);
-          if (ownerAddress === emptyAddress) return '';
-          if (this.isMetadomain(name)) {
-            return '';
-          }
-          return name;
+          return owner === emptyAddress ? '' : name;
         } catch {
+          // A possible source of exceptions is if domain has been deleted (https://energyweb.atlassian.net/browse/SWTCH-997)
           return '';
         }
-      },
-      provider: this._ensRegistry.provider,
+      })
+    );
+    return registeredDomains.filter(Boolean); // Boolean filter to remove empty string
+  };
+
+  /**
+   * Retrieves the tree of subdomains of a given domain based on the index of domain names.
+   * Every node of the tree carries owner, resolver type and definition of its domain.
+   * Subdomains of the metadomains are grouped under `roles`, `apps` and `orgs` of the metadomain parent.
+   * Subdomain whose parent is not indexed is placed under the nearest indexed ancestor
+   * @param domain name of the root domain
+   * @param depth number of subdomain levels to retrieve, metadomains are not counted as a level. By default all levels are retrieved
+   * @returns The root node of the tree
+   */
+  public getDomainTree = async ({
+    domain,
+    depth = Infinity,
+  }: {
+    domain: string;
+    depth?: number;
+  }): Promise<DomainTreeNode> => {
+    await this.indexDomains();
+    const names = (await this._indexStore.getNames())
+      .filter((name) => name.endsWith(`.${domain}`) && !this.isMetadomain(name))
+      .sort((a, b) => a.split('.').length - b.split('.').length);
+
+    const indexedNames = new Set(names);
+
+    // Place every domain in the tree, so that only domains within `depth` are read
+    const placements = new Map<
+      string,
+      {
+        parent: string;
+        group: 'subdomains' | typeof METADOMAINS[number];
+        level: number;
+      }
+    >();
+    for (const name of names) {
+      const [, ...parentLabels] = name.split('.');
+      let parent = parentLabels.join('.');
+      let group: 'subdomains' | typeof METADOMAINS[number] = 'subdomains';
+      const metadomain = METADOMAINS.find((meta) => meta === parentLabels[0]);
+      // Metadomain which is the root itself is not skipped
+      if (metadomain && parent !== domain) {
+        group = metadomain;
+        parent = parentLabels.slice(1).join('.');
+      }
+      // Domain whose parent is not indexed is attached to its nearest indexed ancestor
+      while (parent !== domain && !indexedNames.has(parent)) {
+        const [, ...ancestorLabels] = parent.split('.');
+        const ancestor = ancestorLabels.join('.');
+        parent =
+          ancestor !== domain &&
+          METADOMAINS.some((meta) => meta === ancestorLabels[0])
+            ? ancestorLabels.slice(1).join('.')
+            : ancestor;
+        if (!parent.endsWith(`.${domain}`)) {
+          parent = domain;
+        }
+      }
+      const parentLevel =
+        parent === domain ? 0 : placements.get(parent)?.level ?? Infinity;
+      if (parentLevel < depth) {
+        placements.set(name, { parent, group, level: parentLevel + 1 });
+      }
+    }
+
+    const treeNames = [domain, ...placements.keys()];
+    const nodes = treeNames.map((name) => namehash(name));
+    const [owners, readResults] = await Promise.all([
+      Promise.all(nodes.map((node) => this._ensRegistry.owner(node))),
+      this._domainReader.readMany({ nodes }),
+    ]);
+    // Resolver is looked up only for the definitions which were not read from resolver
+    const resolverTypes = await Promise.all(
+      readResults.map(({ node, definition, resolverType }) =>
+        definition && resolverType === undefined
+          ? this._domainReader.readResolverType(node).catch(() => undefined)
+          : resolverType
+      )
+    );
+    const treeNodes = new Map<string, DomainTreeNode>();
+    treeNames.forEach((name, i) => {
+      treeNodes.set(name, {
+        name,
+        namehash: nodes[i],
+        owner: owners[i],
+        resolverType: resolverTypes[i],
+        definition: readResults[i].definition,
+        subdomains: [],
+        roles: [],
+        apps: [],
+        orgs: [],
+      });
     });
-    return [...singleLevel].filter(Boolean); // Boolean filter to remove empty string
+    for (const [name, { parent, group }] of placements) {
+      const treeNode = treeNodes.get(name) as DomainTreeNode;
+      // Deleted domain is excluded together with its subdomains
+      if (treeNode.owner !== emptyAddress) {
+        treeNodes.get(parent)?.[group].push(treeNode);
+      }
+    }
+    return treeNodes.get(domain) as DomainTreeNode;
+  };
+
+  /**
+   * Updates the index of domain names with the logs of the blocks mined since the last indexed block.
+   * Logs are read in chunks of `logsBlockRange` blocks and the last indexed block is saved after every chunk,
+   * so that interrupted indexing is resumed from the last indexed chunk.
+   * Indexing is interrupted when a name can not be read because of a provider error
+   */
+  public indexDomains = async (): Promise<void> => {
+    if (!this._indexing) {
+      this._indexing = this.indexNewLogs().finally(() => {
+        this._indexing = undefined;
+      });
+    }
+    return this._indexing;
   };
 
   /**
@@ -182,7 +295,6 @@ export class DomainHierarchy {
       event.topics[1] = parents.map(namehash);
       parents = [
         ...(await this.getDomainsFromLogs({
-          provider: this._ensRegistry.provider,
           parser,
           event,
           contractInterface: new utils.Interface(ensRegistryContract),
@@ -197,24 +309,122 @@ export class DomainHierarchy {
   };
 
   private getDomainsFromLogs = async ({
-    provider,
     parser,
     event,
     contractInterface,
   }: {
-    provider: providers.Provider;
     parser: (log: Result) => Promise<string>;
     event: EventFilter;
     contractInterface: utils.Interface;
   }) => {
+    const domains = new Set<string>();
+    const currentBlock = await this._provider.getBlockNumber();
+    for (
+      let fromBlock = 0;
+      fromBlock <= currentBlock;
+      fromBlock += this._logsBlockRange
+    ) {
+      const logs = await this.getLogs({
+        event,
+        contractInterface,
+        fromBlock,
+        toBlock: Math.min(fromBlock + this._logsBlockRange - 1, currentBlock),
+      });
+      const chunkDomains = await Promise.all(logs.map(parser));
+      chunkDomains
+        .filter((domain) => domain != '')
+        .forEach((domain) => domains.add(domain));
+    }
+    return domains;
+  };
+
+  private async indexNewLogs(): Promise<void> {
+    const lastIndexedBlock = await this._indexStore.getLastIndexedBlock();
+    const currentBlock = await this._provider.getBlockNumber();
+    for (
+      let fromBlock = lastIndexedBlock === undefined ? 0 : lastIndexedBlock + 1;
+      fromBlock <= currentBlock;
+      fromBlock += this._logsBlockRange
+    ) {
+      const toBlock = Math.min(
+        fromBlock + this._logsBlockRange - 1,
+        currentBlock
+      );
+      const nodes = await this.getUpdatedNodes(fromBlock, toBlock);
+      const names = await Promise.all(
+        [...nodes].map(async (node) => {
+          try {
+            return await this._domainReader.readName(node);
+          } catch (err) {
+            // Name can not be read if domain has been deleted or its resolver is not set
+            if (DomainReader.isDomainReadError(err)) {
+              return '';
+            }
+            // Chunk is indexed again on the next call, because last indexed block is not advanced
+            throw err;
+          }
+        })
+      );
+      await this._indexStore.addNames(names.filter(Boolean));
+      await this._indexStore.setLastIndexedBlock(toBlock);
+    }
+  }
+
+  /**
+   * Collects nodes of the domains which were created or updated within the block range
+   */
+  private async getUpdatedNodes(
+    fromBlock: number,
+    toBlock: number
+  ): Promise<Set<string>> {
+    const nodes = new Set<string>();
+    const domainUpdates = await this.getLogs({
+      event: this._domainNotifier.filters.DomainUpdated(null), // some updates may be missed because they require explicit notification
+      contractInterface: new utils.Interface(domainNotifierContract),
+      fromBlock,
+      toBlock,
+    });
+    domainUpdates.forEach(({ node }) => nodes.add(node));
+    if (this._publicResolver) {
+      const textChanges = await this.getLogs({
+        event: this._publicResolver.filters.TextChanged(null, 'metadata', null),
+        contractInterface: new utils.Interface(ensResolverContract),
+        fromBlock,
+        toBlock,
+      });
+      textChanges.forEach(({ node }) => nodes.add(node));
+    }
+    const newOwners = await this.getLogs({
+      event: this._ensRegistry.filters.NewOwner(null, null, null),
+      contractInterface: new utils.Interface(ensRegistryContract),
+      fromBlock,
+      toBlock,
+    });
+    newOwners.forEach(({ node, label }) =>
+      nodes.add(utils.keccak256(node + label.slice(2)))
+    );
+    return nodes;
+  }
+
+  private getLogs = async ({
+    event,
+    contractInterface,
+    fromBlock,
+    toBlock,
+  }: {
+    event: EventFilter;
+    contractInterface: utils.Interface;
+    fromBlock: number;
+    toBlock: number;
+  }): Promise<Result[]> => {
     const filter = {
-      fromBlock: 0,
-      toBlock: 'latest',
+      fromBlock,
+      toBlock,
       address: event.address,
       topics: event.topics || [],
     };
-    const logs = await provider.getLogs(filter);
-    const rawLogs = logs.map((log) => {
+    const logs = await this._provider.getLogs(filter);
+    return logs.map((log) => {
       const parsedLog = contractInterface.parseLog(log);
       /** ethers_v5 Interface.parseLog incorrectly parses log, so have to use lowlevel alternative */
       return contractInterface.decodeEventLog(
@@ -223,14 +433,9 @@ export class DomainHierarchy {
         log.topics
       );
     });
-    const domains = await Promise.all(rawLogs.map(parser));
-    const nonEmptyDomains = domains.filter((domain) => domain != '');
-    return new Set(nonEmptyDomains);
   };
 
   private isMetadomain(name: string): boolean {
-    return ['roles', 'apps', 'orgs'].some((meta) =>
-      name.startsWith(`${meta}.`)
-    );
+    return METADOMAINS.some((meta) => name.startsWith(`${meta}.`));
   }
 }
@@ -0,0 +1,28 @@
+/**
+ * An interface for a store in which `DomainHierarchy` persists the index of domain names
+ */
+export interface DomainIndexStore {
+  /**
+   * Reads the last block which logs have been indexed
+   * @returns The block number or `undefined` if no block has been indexed yet
+   */
+  getLastIndexedBlock(): Promise<number | undefined>;
+
+  /**
+   * Saves the last block which logs have been indexed
+   * @param block block number
+   */
+  setLastIndexedBlock(block: number): Promise<void>;
+
+  /**
+   * Reads all indexed domain names
+   * @returns The indexed names
+   */
+  getNames(): Promise<string[]>;
+
+  /**
+   * Adds domain names to the index
+   * @param names names to add
+   */
+  addNames(names: string[]): Promise<void>;
+}
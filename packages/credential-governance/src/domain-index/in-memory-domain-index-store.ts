@@ -0,0 +1,25 @@
+import { DomainIndexStore } from './domain-index-store';
+
+/**
+ * Keeps the index of domain names in memory, so that it is lost on restart
+ */
+export class InMemoryDomainIndexStore implements DomainIndexStore {
+  private _lastIndexedBlock?: number;
+  private readonly _names = new Set<string>();
+
+  async getLastIndexedBlock(): Promise<number | undefined> {
+    return this._lastIndexedBlock;
+  }
+
+  async setLastIndexedBlock(block: number): Promise<void> {
+    this._lastIndexedBlock = block;
+  }
+
+  async getNames(): Promise<string[]> {
+    return [...this._names];
+  }
+
+  async addNames(names: string[]): Promise<void> {
+    names.forEach((name) => this._names.add(name));
+  }
+}
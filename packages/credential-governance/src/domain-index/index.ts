@@ -0,0 +1,2 @@
+export { DomainIndexStore } from './domain-index-store';
+export { InMemoryDomainIndexStore } from './in-memory-domain-index-store';
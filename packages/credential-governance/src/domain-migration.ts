@@ -0,0 +1,138 @@
+import { utils } from 'ethers';
+import { DomainHierarchy, METADOMAINS } from './domain-hierarchy';
+import { DomainReader } from './domain-reader';
+import { DomainTransactionFactoryV2 } from './domain-transaction-factory-v2';
+import { IRevokerDefinition } from './types/domain-definitions';
+import { DomainMigration, RevokerPolicy } from './types/domain-migration';
+import { ResolverContractType } from './types/resolver-contract-type';
+import { EncodedCall } from './types/transaction';
+
+const { namehash } = utils;
+
+/**
+ * Revoker policy which authorises issuers of role to revoke it
+ * @param roleDefinition role definition which is migrated
+ * @returns Revokers with the same authority as issuers
+ */
+export const revokerSameAsIssuer: RevokerPolicy = ({
+  issuer,
+}): IRevokerDefinition => ({
+  revokerType: issuer.issuerType,
+  ...(issuer.did ? { did: issuer.did } : {}),
+  ...(issuer.roleName ? { roleName: issuer.roleName } : {}),
+  ...(issuer.roleNames ? { roleNames: issuer.roleNames } : {}),
+});
+
+/**
+ * Creates transactions migrating domain and its subdomains from RoleDefinitionResolver v1 and PublicResolver
+ * to RoleDefinitionResolverV2. Every definition is read with `domainReader`, role definitions are given revokers
+ * chosen by `revokerPolicy`, then the resolver of domain is switched in ENS registry and definition is registered
+ * on the resolver of `transactionFactory`. The resolver is switched first, because the registration notifies
+ * DomainNotifier, which only accepts notifications from the resolver of domain.
+ * `roles`, `apps` and `orgs` metadomains are migrated with their name only. Parent domains are migrated before their subdomains
+ *
+ * ```typescript
+ * const { calls, notMigrated } = await migrateToResolverV2({
+ *   domain: 'myorg.iam.ewc',
+ *   domainReader,
+ *   domainHierarchy,
+ *   transactionFactory: new DomainTransactionFactoryV2({
+ *     domainResolverAddress: VOLTA_RESOLVER_V2_ADDRESS,
+ *     ensRegistryAddress: VOLTA_ENS_REGISTRY_ADDRESS,
+ *   }),
+ * });
+ * for (const call of calls) {
+ *   await (await owner.sendTransaction(call)).wait();
+ * }
+ * ```
+ *
+ * @param domain root of the migrated subtree
+ * @param domainReader reader of the migrated definitions
+ * @param domainHierarchy hierarchy used to find subdomains of `domain`
+ * @param transactionFactory factory of RoleDefinitionResolverV2 to which domains are migrated
+ * @param revokerPolicy chooses revokers of migrated role. By default issuers of role are its revokers
+ * @returns The transactions and the domains which can not be migrated with the reasons,
+ * such as unreadable or invalid definition
+ */
+export async function migrateToResolverV2({
+  domain,
+  domainReader,
+  domainHierarchy,
+  transactionFactory,
+  revokerPolicy = revokerSameAsIssuer,
+}: {
+  domain: string;
+  domainReader: DomainReader;
+  domainHierarchy: DomainHierarchy;
+  transactionFactory: DomainTransactionFactoryV2;
+  revokerPolicy?: RevokerPolicy;
+}): Promise<DomainMigration> {
+  const subdomains = await domainHierarchy.getSubdomainsUsingResolver({
+    domain,
+    mode: 'ALL',
+    includeMetadomains: true,
+  });
+  const depth = (name: string) => name.split('.').length;
+  const domains = [domain, ...subdomains].sort((a, b) => depth(a) - depth(b));
+
+  const migration: DomainMigration = {
+    calls: [],
+    migrated: [],
+    notMigrated: [],
+  };
+  for (const name of domains) {
+    try {
+      const calls = await migrateDomain({
+        domain: name,
+        domainReader,
+        transactionFactory,
+        revokerPolicy,
+      });
+      migration.calls.push(...calls);
+      migration.migrated.push(name);
+    } catch (e) {
+      migration.notMigrated.push({
+        domain: name,
+        reason: (e as Error).message,
+      });
+    }
+  }
+  return migration;
+}
+
+async function migrateDomain({
+  domain,
+  domainReader,
+  transactionFactory,
+  revokerPolicy,
+}: {
+  domain: string;
+  domainReader: DomainReader;
+  transactionFactory: DomainTransactionFactoryV2;
+  revokerPolicy: RevokerPolicy;
+}): Promise<EncodedCall[]> {
+  const node = namehash(domain);
+  const resolverType = await domainReader.readResolverType(node);
+  if (resolverType === ResolverContractType.RoleDefinitionResolver_v2) {
+    throw new Error('Domain is already resolved by RoleDefinitionResolverV2');
+  }
+  const setResolverTx = transactionFactory.setResolver({ domain });
+  if (METADOMAINS.some((meta) => domain.startsWith(`${meta}.`))) {
+    return [setResolverTx, transactionFactory.setDomainNameTx({ domain })];
+  }
+  const definition = await domainReader.read({ node });
+
+  let registerDefinitionTx: EncodedCall;
+  if (DomainReader.isRoleDefinition(definition)) {
+    registerDefinitionTx = transactionFactory.newRole({
+      domain,
+      roleDefinition: { ...definition, revoker: revokerPolicy(definition) },
+    });
+  } else {
+    registerDefinitionTx = transactionFactory.newDomain({
+      domain,
+      domainDefinition: definition,
+    });
+  }
+  return [setResolverTx, registerDefinitionTx];
+}
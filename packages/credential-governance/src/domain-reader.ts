@@ -9,13 +9,9 @@ import {
   IRoleDefinitionText,
   PreconditionType,
 } from './types/domain-definitions';
-import {
-  VOLTA_CHAIN_ID,
-  VOLTA_PUBLIC_RESOLVER_ADDRESS,
-  VOLTA_RESOLVER_V1_ADDRESS,
-  VOLTA_RESOLVER_V2_ADDRESS,
-  EWC_CHAIN_ID,
-} from './chain-constants';
+import { networkRegistry as defaultNetworkRegistry } from './chain-constants';
+import { DEFAULT_LOGS_BLOCK_RANGE } from './constants';
+import { NetworkRegistry } from './network-registry';
 import { ENSRegistry__factory } from '../ethers/factories/ENSRegistry__factory';
 import { PublicResolver } from '../ethers/PublicResolver';
 import { PublicResolver__factory } from '../ethers/factories/PublicResolver__factory';
@@ -24,7 +20,22 @@ import { RoleDefinitionResolver__factory } from '../ethers/factories/RoleDefinit
 import { RoleDefinitionResolverV2 } from '../ethers/RoleDefinitionResolverV2';
 import { RoleDefinitionResolverV2__factory } from '../ethers/factories/RoleDefinitionResolverV2__factory';
 import { ResolverContractType } from './types/resolver-contract-type';
+import { DomainReadError, DomainReadResult } from './types/domain-read-result';
+import { RoleDefinitionVersion } from './types/role-definition-version';
+import {
+  ExternalAuthorities,
+  withExternalAuthorities,
+} from './external-authorities';
+import { DomainCache, LruDomainCache } from './cache';
 import { ENSRegistry } from '../ethers/ENSRegistry';
+import { Multicall } from '../ethers/Multicall';
+import { DomainNotifier } from '../ethers/DomainNotifier';
+import { DomainNotifier__factory } from '../ethers/factories/DomainNotifier__factory';
+import { Multicall__factory } from '../ethers/factories/Multicall__factory';
+import { abi as ensRegistryAbi } from '../build/contracts/ENS.json';
+import { abi as publicResolverAbi } from '../build/contracts/PublicResolver.json';
+import { abi as roleDefResolverAbi } from '../build/contracts/RoleDefinitionResolver.json';
+import { abi as roleDefResolverV2Abi } from '../build/contracts/RoleDefinitionResolverV2.json';
 import {
   ChainIsNotSupported,
   DomainResolverNotSet,
@@ -35,6 +46,46 @@ import {
 
 const { HashZero } = constants;
 
+const SYNCED_BLOCK_KEY = 'syncedBlock';
+const definitionKey = (node: string) => `definition:${node}`;
+const nameKey = (node: string) => `name:${node}`;
+
+/**
+ * ERC-165 interface ids of the resolver profiles used to detect the type of the resolver
+ */
+const RESOLVER_INTERFACE_IDS = {
+  erc165: '0x01ffc9a7',
+  text: '0x59d1d43c',
+  issuers: '0xc53a4413',
+  prerequisiteRoles: '0xc986c404',
+  versionNumber: '0x338bc8fa',
+  revokers: '0x74d3013a',
+};
+
+/**
+ * A read-only contract call to be aggregated through the Multicall contract
+ */
+type AggregatedCall = {
+  target: string;
+  contractInterface: utils.Interface;
+  method: string;
+  args: unknown[];
+};
+
+/**
+ * Role definition data read with aggregated calls, before the referenced roles are resolved
+ */
+type AggregatedRoleData = {
+  node: string;
+  textProps: IRoleDefinitionText;
+  issuersData: utils.Result;
+  prerequisiteRolesData: utils.Result;
+  versionData: utils.Result;
+  issuerTypeData?: utils.Result;
+  revokersData?: utils.Result;
+  revokerTypeData?: utils.Result;
+};
+
 export class DomainReader {
   public static isOrgDefinition = (
     domainDefinition:
@@ -69,42 +120,107 @@ export class DomainReader {
     (domainDefinition as IRoleDefinitionV2).roleName !== undefined &&
     (domainDefinition as IRoleDefinitionV2).revoker !== undefined;
 
+  public static isDomainReadError = (
+    error: unknown
+  ): error is DomainReadError =>
+    error instanceof DomainResolverNotSet ||
+    error instanceof ResolverNotSupported ||
+    error instanceof InvalidDomain ||
+    error instanceof NodeNameMismatch;
+
   private readonly _provider: providers.Provider;
   private readonly _ensRegistry: ENSRegistry;
+  private readonly _multicall?: Multicall;
+  private readonly _cache?: DomainCache;
+  private readonly _domainNotifier?: DomainNotifier;
+  private _cacheSync?: Promise<number>;
+  private readonly _ensRegistryInterface = new utils.Interface(ensRegistryAbi);
+  private readonly _publicResolverInterface = new utils.Interface(
+    publicResolverAbi
+  );
+  private readonly _roleDefResolverInterface = new utils.Interface(
+    roleDefResolverAbi
+  );
+  private readonly _roleDefResolverV2Interface = new utils.Interface(
+    roleDefResolverV2Abi
+  );
+  // Resolvers added in addition to the resolvers of the registered networks
   private readonly _knownEnsResolvers: Record<
     number,
     Record<string, ResolverContractType>
-  > = {
-    [VOLTA_CHAIN_ID]: {
-      [VOLTA_PUBLIC_RESOLVER_ADDRESS]: ResolverContractType.PublicResolver,
-      [VOLTA_RESOLVER_V1_ADDRESS]:
-        ResolverContractType.RoleDefinitionResolver_v1,
-      [VOLTA_RESOLVER_V2_ADDRESS]:
-        ResolverContractType.RoleDefinitionResolver_v2,
-    },
-  };
+  > = {};
+  private readonly _networkRegistry: NetworkRegistry;
+  private readonly _allowlistOnly: boolean;
+  private readonly _logsBlockRange: number;
 
   /**
-   * Allows to map between chainId to network name that is used in ethr DID
-   *
+   * @param ensRegistryAddress address of the ENS registry. Defaults to the registry of `chainId` network
+   * @param provider provider of the chain on which domains are defined
+   * @param multicallAddress address of the Multicall contract. If provided,
+   * role definitions are read with aggregated queries instead of sequential ones. Defaults to the Multicall of `chainId` network
+   * @param cache if provided, read definitions and names are cached in `cache.store` (in-memory LRU cache by default)
+   * until `DomainUpdated` event of `cache.domainNotifierAddress`, `VersionNumberChanged` or `NewResolver` event is emitted for the domain
+   * @param chainId chain of the provider, used to find addresses which are not passed in `networkRegistry`
+   * @param networkRegistry registry of the networks whose resolvers and DID names are known to the reader
+   * @param allowlistOnly if true, only the resolvers of `networkRegistry` and the resolvers added with `addKnownResolver` are read.
+   * Otherwise the type of an unknown resolver is detected with ERC-165 `supportsInterface`
+   * @param logsBlockRange maximal number of blocks whose logs are requested at once when reading history
    */
-  private readonly _knownDidEthrNetworkNames: Record<number, string> = {
-    [VOLTA_CHAIN_ID]: 'volta',
-    [EWC_CHAIN_ID]: 'ewc',
-  };
-
   constructor({
     ensRegistryAddress,
     provider,
+    multicallAddress,
+    cache,
+    chainId,
+    networkRegistry = defaultNetworkRegistry,
+    allowlistOnly = false,
+    logsBlockRange = DEFAULT_LOGS_BLOCK_RANGE,
   }: {
-    ensRegistryAddress: string;
+    ensRegistryAddress?: string;
     provider: providers.Provider;
+    multicallAddress?: string;
+    cache?: { store?: DomainCache; domainNotifierAddress: string };
+    chainId?: number;
+    networkRegistry?: NetworkRegistry;
+    allowlistOnly?: boolean;
+    logsBlockRange?: number;
   }) {
+    this._networkRegistry = networkRegistry;
+    this._allowlistOnly = allowlistOnly;
+    if (logsBlockRange < 1) {
+      throw new Error('Logs block range should be positive');
+    }
+    this._logsBlockRange = logsBlockRange;
+    const network =
+      chainId === undefined ? undefined : networkRegistry.get(chainId);
+    ensRegistryAddress = ensRegistryAddress ?? network?.ensRegistryAddress;
+    multicallAddress = multicallAddress ?? network?.multicallAddress;
+    if (!ensRegistryAddress) {
+      throw new Error('You need to pass the address of ENS registry');
+    }
     this._provider = provider;
     this._ensRegistry = ENSRegistry__factory.connect(
       ensRegistryAddress,
       this._provider
     );
+    if (multicallAddress) {
+      this._multicall = Multicall__factory.connect(
+        multicallAddress,
+        this._provider
+      );
+    }
+    if (cache) {
+      if (!cache.domainNotifierAddress) {
+        throw new Error(
+          'You need to pass the address of a domain notifier contract to invalidate cache'
+        );
+      }
+      this._cache = cache.store ?? new LruDomainCache();
+      this._domainNotifier = DomainNotifier__factory.connect(
+        cache.domainNotifierAddress,
+        this._provider
+      );
+    }
   }
 
   public addKnownResolver({
@@ -125,9 +241,25 @@ export class DomainReader {
   /**
    * Reads the reverse name for a node from its registered ENS resolver contract
    * @param node the ENS node hash of a domain name
+   * @param blockTag block at which the name is read. By default the latest name is read from cache
    * @returns The name associated with the node.
    */
-  public async readName(node: string): Promise<string> {
+  public async readName(
+    node: string,
+    blockTag?: providers.BlockTag
+  ): Promise<string> {
+    if (blockTag !== undefined) {
+      return await this.readNameFromResolver(node, blockTag);
+    }
+    return await this.cached(nameKey(node), () =>
+      this.readNameFromResolver(node)
+    );
+  }
+
+  protected async readNameFromResolver(
+    node: string,
+    blockTag?: providers.BlockTag
+  ): Promise<string> {
     const checkName = (name: string) => {
       if (node !== utils.namehash(name)) {
         throw new NodeNameMismatch(node, name);
@@ -135,13 +267,16 @@ export class DomainReader {
       return name;
     };
 
-    const { resolverAddress, resolverType } = await this.getResolverInfo(node);
+    const { resolverAddress, resolverType } = await this.getResolverInfo(
+      node,
+      blockTag
+    );
     if (resolverType === ResolverContractType.PublicResolver) {
       const ensResolver = PublicResolver__factory.connect(
         resolverAddress,
         this._provider
       );
-      const name = await ensResolver.name(node);
+      const name = await ensResolver.name(node, { blockTag });
       return checkName(name);
     }
     if (resolverType === ResolverContractType.RoleDefinitionResolver_v1) {
@@ -149,7 +284,7 @@ export class DomainReader {
         resolverAddress,
         this._provider
       );
-      const name = await ensResolver.name(node);
+      const name = await ensResolver.name(node, { blockTag });
       return checkName(name);
     }
     if (resolverType === ResolverContractType.RoleDefinitionResolver_v2) {
@@ -157,7 +292,7 @@ export class DomainReader {
         resolverAddress,
         this._provider
       );
-      const name = await ensResolver.name(node);
+      const name = await ensResolver.name(node, { blockTag });
       return checkName(name);
     }
     throw new ResolverNotSupported(node, resolverAddress);
@@ -165,27 +300,444 @@ export class DomainReader {
 
   /**
    * Reads the App, Org or Role Definition from the registered ENS resolver contract
+   *
+   * ```typescript
+   * const blockTag = await domainReader.findBlockByTimestamp(issuanceTimestamp);
+   * const definitionAtIssuance = await domainReader.read({ node, blockTag });
+   * ```
+   *
    * @param node the ENS node hash of a domain name
+   * @param blockTag block at which the definition is read. By default the latest definition is read.
+   * Reading at a past block requires a provider with access to historical state and is not cached
    * @returns
    */
   public async read({
     node,
+    blockTag,
   }: {
     node: string;
+    blockTag?: providers.BlockTag;
   }): Promise<
     | IRoleDefinition
     | IRoleDefinitionV2
     | IAppDefinition
     | IOrganizationDefinition
   > {
-    const { resolverAddress, resolverType } = await this.getResolverInfo(node);
+    if (blockTag !== undefined) {
+      return await this.readDefinition(node, blockTag);
+    }
+    return await this.cached(definitionKey(node), () =>
+      this.readDefinition(node)
+    );
+  }
 
+  /**
+   * Finds the latest block mined at or before the given time, using binary search over block timestamps
+   * @param timestamp unix time in seconds
+   * @returns The number of the block
+   */
+  public async findBlockByTimestamp(timestamp: number): Promise<number> {
+    const latest = await this._provider.getBlock('latest');
+    if (latest.timestamp <= timestamp) {
+      return latest.number;
+    }
+    const genesis = await this._provider.getBlock(0);
+    if (genesis.timestamp > timestamp) {
+      throw new Error(`No block was mined at or before ${timestamp}`);
+    }
+    // Block `low` is mined at or before `timestamp` and block `high` after it
+    let low = genesis.number;
+    let high = latest.number;
+    while (high - low > 1) {
+      const middle = Math.floor((low + high) / 2);
+      const block = await this._provider.getBlock(middle);
+      if (block.timestamp <= timestamp) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * Reconstructs every version of the role definition which has been set in the resolver contracts registered for the node.
+   * The blocks in which the definition changed are found from `NewResolver` logs of the ENS registry and from `VersionNumberChanged`,
+   * `TextChanged`, `IssuersChanged`, `IssuerTypeChanged`, `RevokersChanged`, `RevokerTypeChanged` and `PrerequisiteRolesChanged` logs
+   * of each resolver while it was registered for the node, then the definition is read as it was at each of these blocks.
+   * Logs are requested in chunks of `logsBlockRange` blocks from the block since which the resolver of the node is set.
+   * This requires a provider with access to historical state
+   *
+   * ```typescript
+   * const history = await domainReader.readHistory(namehash('role.roles.app.apps.org.iam.ewc'));
+   * const { definition } = history
+   *   .filter(({ blockNumber }) => blockNumber <= issuanceBlock)
+   *   .pop();
+   * ```
+   *
+   * @param node the ENS node hash of a role name
+   * @returns Versions of the role definition ordered from the oldest
+   */
+  public async readHistory(node: string): Promise<RoleDefinitionVersion[]> {
+    const currentBlock = await this._provider.getBlockNumber();
+    const firstBlock = await this.findFirstResolverBlock(node, currentBlock);
+    if (firstBlock === undefined) {
+      return [];
+    }
+    const resolverLogs = await this.getLogsInChunks(
+      {
+        address: this._ensRegistry.address,
+        topics: this._ensRegistry.filters.NewResolver(node, null).topics,
+      },
+      firstBlock,
+      currentBlock
+    );
+    const changeTopics = [
+      this._publicResolverInterface.getEventTopic('TextChanged'),
+      ...[
+        'VersionNumberChanged',
+        'IssuersChanged',
+        'IssuerTypeChanged',
+        'RevokersChanged',
+        'RevokerTypeChanged',
+        'PrerequisiteRolesChanged',
+      ].map((event) => this._roleDefResolverV2Interface.getEventTopic(event)),
+    ];
+    const logs = [...resolverLogs];
+    for (const [i, log] of resolverLogs.entries()) {
+      /** ethers_v5 Interface.parseLog incorrectly parses log, so have to use lowlevel alternative */
+      const { resolver } = this._ensRegistryInterface.decodeEventLog(
+        'NewResolver',
+        log.data,
+        log.topics
+      );
+      if (resolver === constants.AddressZero) {
+        continue;
+      }
+      // Changes are read only from the resolver which is registered for the node
+      logs.push(
+        ...(await this.getLogsInChunks(
+          { address: resolver, topics: [changeTopics, node] },
+          log.blockNumber,
+          resolverLogs[i + 1]?.blockNumber ?? currentBlock
+        ))
+      );
+    }
+    // Definition is changed by several logs of the same block
+    const lastChanges = new Map<number, string>();
+    logs
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+      .forEach(({ blockNumber, transactionHash }) =>
+        lastChanges.set(blockNumber, transactionHash)
+      );
+
+    const history: RoleDefinitionVersion[] = [];
+    for (const [blockNumber, transactionHash] of [
+      ...lastChanges.entries(),
+    ].sort(([a], [b]) => a - b)) {
+      let definition;
+      try {
+        definition = await this.readDefinition(node, blockNumber);
+      } catch (err) {
+        // Definition might be incomplete until all its properties are set
+        if (DomainReader.isDomainReadError(err)) {
+          continue;
+        }
+        throw err;
+      }
+      if (!DomainReader.isRoleDefinition(definition)) {
+        continue;
+      }
+      const previous = history[history.length - 1];
+      if (
+        previous &&
+        JSON.stringify(previous.definition) === JSON.stringify(definition)
+      ) {
+        continue;
+      }
+      history.push({ definition, blockNumber, transactionHash });
+    }
+    return history;
+  }
+
+  /**
+   * Finds the first block since which the resolver of the node is set, using binary search over the past states of ENS registry
+   * @param node the ENS node hash of a domain name
+   * @param toBlock block at which the resolver is set
+   * @returns The number of the block or undefined if the resolver is not set at `toBlock`
+   */
+  protected async findFirstResolverBlock(
+    node: string,
+    toBlock: number
+  ): Promise<number | undefined> {
+    const hasResolver = async (blockTag: number) =>
+      (await this._ensRegistry.resolver(node, { blockTag })) !==
+      constants.AddressZero;
+    if (!(await hasResolver(toBlock))) {
+      return undefined;
+    }
+    // Resolver is not set before block `low` and is set at block `high`
+    let low = 0;
+    let high = toBlock;
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      if (await hasResolver(middle)) {
+        high = middle;
+      } else {
+        low = middle + 1;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * Requests the logs of the block range in chunks of `logsBlockRange` blocks
+   * @param filter address and topics of the logs
+   * @param fromBlock first block of the range
+   * @param toBlock last block of the range
+   * @returns The logs ordered by block
+   */
+  protected async getLogsInChunks(
+    filter: Pick<providers.Filter, 'address' | 'topics'>,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<providers.Log[]> {
+    const logs: providers.Log[] = [];
+    for (
+      let chunkStart = fromBlock;
+      chunkStart <= toBlock;
+      chunkStart += this._logsBlockRange
+    ) {
+      logs.push(
+        ...(await this._provider.getLogs({
+          ...filter,
+          fromBlock: chunkStart,
+          toBlock: Math.min(chunkStart + this._logsBlockRange - 1, toBlock),
+        }))
+      );
+    }
+    return logs;
+  }
+
+  protected async readDefinition(
+    node: string,
+    blockTag?: providers.BlockTag
+  ): Promise<
+    | IRoleDefinition
+    | IRoleDefinitionV2
+    | IAppDefinition
+    | IOrganizationDefinition
+  > {
+    const { resolverAddress, resolverType } = await this.getResolverInfo(
+      node,
+      blockTag
+    );
+
+    if (
+      this._multicall &&
+      blockTag === undefined &&
+      (resolverType === ResolverContractType.RoleDefinitionResolver_v1 ||
+        resolverType === ResolverContractType.RoleDefinitionResolver_v2)
+    ) {
+      const [result] = await this.readAggregated(
+        [{ node, resolverAddress }],
+        resolverType
+      );
+      if (result.error) {
+        throw result.error;
+      }
+      return result.definition;
+    }
+    return await this.readFromResolver(
+      node,
+      resolverAddress,
+      resolverType,
+      blockTag
+    );
+  }
+
+  /**
+   * Reads the App, Org or Role Definitions of many domains at once.
+   * Domains are grouped by the type of their resolver so that each resolver contract
+   * is queried with aggregated calls when a Multicall contract is configured.
+   * A domain which can not be read does not prevent the others from being read
+   * @param nodes the ENS node hashes of the domain names
+   * @returns The definition or the error of each node, in the order of `nodes`
+   */
+  public async readMany({
+    nodes,
+  }: {
+    nodes: string[];
+  }): Promise<DomainReadResult[]> {
+    if (!this._cache) {
+      return await this.readManyDefinitions(nodes);
+    }
+    const cache = this._cache;
+    const syncedBlock = await this.syncCache();
+    const cachedDefinitions = await Promise.all(
+      nodes.map((node) =>
+        cache.get<DomainReadResult['definition']>(definitionKey(node))
+      )
+    );
+    const notCachedNodes = nodes.filter(
+      (node, i) => cachedDefinitions[i] === undefined
+    );
+    const readResults = await this.readManyDefinitions(notCachedNodes);
+    if ((await cache.get<number>(SYNCED_BLOCK_KEY)) === syncedBlock) {
+      await Promise.all(
+        readResults.map(({ node, definition }) =>
+          definition ? cache.set(definitionKey(node), definition) : undefined
+        )
+      );
+    }
+    return nodes.map((node, i) => {
+      const definition = cachedDefinitions[i];
+      return definition
+        ? { node, definition }
+        : readResults[notCachedNodes.indexOf(node)];
+    });
+  }
+
+  protected async readManyDefinitions(
+    nodes: string[]
+  ): Promise<DomainReadResult[]> {
+    const { chainId } = await this._provider.getNetwork();
+    const resolverAddresses = await this.readResolverAddresses(nodes);
+    const resolversForChain = await this.resolverTypes(
+      chainId,
+      resolverAddresses
+    );
+    const results: DomainReadResult[] = new Array(nodes.length);
+    const groups: Partial<
+      Record<
+        ResolverContractType,
+        { node: string; resolverAddress: string; index: number }[]
+      >
+    > = {};
+    nodes.forEach((node, index) => {
+      const resolverAddress = resolverAddresses[index];
+      if (resolverAddress === constants.AddressZero) {
+        results[index] = { node, error: new DomainResolverNotSet(node) };
+        return;
+      }
+      const resolverType = resolversForChain[resolverAddress];
+      if (resolverType === undefined) {
+        results[index] = {
+          node,
+          error: new ResolverNotSupported(node, resolverAddress),
+        };
+        return;
+      }
+      groups[resolverType] = [
+        ...(groups[resolverType] ?? []),
+        { node, resolverAddress, index },
+      ];
+    });
+
+    await Promise.all(
+      (
+        Object.entries(groups) as [
+          ResolverContractType,
+          { node: string; resolverAddress: string; index: number }[]
+        ][]
+      ).map(async ([resolverType, domains]) => {
+        const groupResults = await this.readGroup(domains, resolverType);
+        domains.forEach(({ index }, i) => {
+          results[index] = { ...groupResults[i], resolverType };
+        });
+      })
+    );
+    return results;
+  }
+
+  /**
+   * Reads the definitions of domains which are defined on resolvers of the same type
+   * @param domains nodes and addresses of their resolvers
+   * @param resolverType type of the resolvers
+   * @returns The definition or the error of each domain
+   */
+  protected async readGroup(
+    domains: { node: string; resolverAddress: string }[],
+    resolverType: ResolverContractType
+  ): Promise<DomainReadResult[]> {
+    if (
+      this._multicall &&
+      (resolverType === ResolverContractType.RoleDefinitionResolver_v1 ||
+        resolverType === ResolverContractType.RoleDefinitionResolver_v2)
+    ) {
+      return await this.readAggregated(domains, resolverType);
+    }
+    if (
+      this._multicall &&
+      resolverType === ResolverContractType.PublicResolver
+    ) {
+      const textsData = await this.aggregate(
+        domains.map(({ node, resolverAddress }) => ({
+          target: resolverAddress,
+          contractInterface: this._publicResolverInterface,
+          method: 'text',
+          args: [node, 'metadata'],
+        }))
+      );
+      return domains.map(({ node }, i) => {
+        const textData: string = textsData[i]?.[0] ?? '';
+        try {
+          return {
+            node,
+            definition: JSON.parse(textData, this.reviveDates) as
+              | IRoleDefinition
+              | IAppDefinition
+              | IOrganizationDefinition,
+          };
+        } catch (err) {
+          return { node, error: new InvalidDomain(node, textData) };
+        }
+      });
+    }
+    return await Promise.all(
+      domains.map(async ({ node, resolverAddress }) => {
+        try {
+          const definition = await this.readFromResolver(
+            node,
+            resolverAddress,
+            resolverType
+          );
+          return { node, definition };
+        } catch (err) {
+          if (DomainReader.isDomainReadError(err)) {
+            return { node, error: err };
+          }
+          throw err;
+        }
+      })
+    );
+  }
+
+  /**
+   * Reads the App, Org or Role Definition from the given ENS resolver contract
+   * @param node the ENS node hash of a domain name
+   * @param resolverAddress address of the resolver of the node
+   * @param resolverType type of the resolver of the node
+   * @param blockTag block at which the definition is read. By default the latest definition is read
+   * @returns
+   */
+  protected async readFromResolver(
+    node: string,
+    resolverAddress: string,
+    resolverType: ResolverContractType,
+    blockTag?: providers.BlockTag
+  ): Promise<
+    | IRoleDefinition
+    | IRoleDefinitionV2
+    | IAppDefinition
+    | IOrganizationDefinition
+  > {
     if (resolverType === ResolverContractType.PublicResolver) {
       const ensResolver: PublicResolver = PublicResolver__factory.connect(
         resolverAddress,
         this._provider
       );
-      const textData = await ensResolver.text(node, 'metadata');
+      const textData = await ensResolver.text(node, 'metadata', { blockTag });
       let definition;
       try {
         definition = JSON.parse(textData, this.reviveDates) as
@@ -193,11 +745,7 @@ export class DomainReader {
           | IAppDefinition
           | IOrganizationDefinition;
       } catch (err) {
-        throw Error(
-          `unable to parse resolved textData for node: ${node}. textData: ${textData}. error: ${JSON.stringify(
-            err
-          )}`
-        );
+        throw new InvalidDomain(node, textData);
       }
       return definition;
     } else if (
@@ -208,7 +756,7 @@ export class DomainReader {
           resolverAddress,
           this._provider
         );
-      const textData = await ensResolver.text(node, 'metadata');
+      const textData = await ensResolver.text(node, 'metadata', { blockTag });
       let textProps;
       try {
         textProps = JSON.parse(textData, this.reviveDates) as
@@ -226,7 +774,12 @@ export class DomainReader {
         return textProps;
       }
       if (DomainReader.isRoleDefinition(textProps)) {
-        return await this.readRoleDefResolver_v1(node, textProps, ensResolver);
+        return await this.readRoleDefResolver_v1(
+          node,
+          textProps,
+          ensResolver,
+          blockTag
+        );
       }
       throw new InvalidDomain(node, textProps);
     } else if (
@@ -237,7 +790,7 @@ export class DomainReader {
           resolverAddress,
           this._provider
         );
-      const textData = await ensResolver.text(node, 'metadata');
+      const textData = await ensResolver.text(node, 'metadata', { blockTag });
       let textProps;
       try {
         textProps = JSON.parse(textData, this.reviveDates) as
@@ -255,28 +808,150 @@ export class DomainReader {
         return textProps;
       }
       if (DomainReader.isRoleDefinition(textProps)) {
-        return await this.readRoleDefResolver_v2(node, textProps, ensResolver);
+        return await this.readRoleDefResolver_v2(
+          node,
+          textProps,
+          ensResolver,
+          blockTag
+        );
       }
       throw new InvalidDomain(node, textProps);
     }
     throw new ResolverNotSupported(node, resolverAddress);
   }
 
+  /**
+   * Reads the addresses of the resolvers of the nodes from the ENS registry
+   * @param nodes the ENS node hashes of the domain names
+   * @returns The resolver address of each node
+   */
+  protected async readResolverAddresses(nodes: string[]): Promise<string[]> {
+    if (!this._multicall) {
+      return await Promise.all(
+        nodes.map((node) => this._ensRegistry.resolver(node))
+      );
+    }
+    const resolversData = await this.aggregate(
+      nodes.map((node) => ({
+        target: this._ensRegistry.address,
+        contractInterface: this._ensRegistryInterface,
+        method: 'resolver',
+        args: [node],
+      }))
+    );
+    return resolversData.map((data) => data?.[0] ?? constants.AddressZero);
+  }
+
+  /**
+   * Returns the cached value or reads and caches it if it is not cached
+   * @param key key of the value in cache
+   * @param read reads the value from chain
+   * @returns The value
+   */
+  protected async cached<T>(key: string, read: () => Promise<T>): Promise<T> {
+    if (!this._cache) {
+      return await read();
+    }
+    const syncedBlock = await this.syncCache();
+    const cachedValue = await this._cache.get<T>(key);
+    if (cachedValue !== undefined) {
+      return cachedValue;
+    }
+    const value = await read();
+    // Value is not cached if the domain could have been updated while it was read
+    if ((await this._cache.get<number>(SYNCED_BLOCK_KEY)) === syncedBlock) {
+      await this._cache.set(key, value);
+    }
+    return value;
+  }
+
+  /**
+   * Invalidates cached definitions and names of the domains which have been updated
+   * since the cache was synchronized last time. Concurrent reads share the same synchronization
+   * @returns The block up to which the cache is synchronized
+   */
+  protected async syncCache(): Promise<number> {
+    if (!this._cacheSync) {
+      this._cacheSync = this.invalidateUpdatedDomains().finally(() => {
+        this._cacheSync = undefined;
+      });
+    }
+    return await this._cacheSync;
+  }
+
+  private async invalidateUpdatedDomains(): Promise<number> {
+    if (!this._cache || !this._domainNotifier) {
+      throw new Error('Cache is not configured');
+    }
+    const cache = this._cache;
+    const blockNumber = await this._provider.getBlockNumber();
+    const syncedBlock = await cache.get<number>(SYNCED_BLOCK_KEY);
+    if (syncedBlock === undefined) {
+      // It is unknown which updates have been missed by the values cached in the store
+      await cache.clear();
+    } else if (syncedBlock < blockNumber) {
+      const range = { fromBlock: syncedBlock + 1, toBlock: blockNumber };
+      const logs = await Promise.all([
+        this._provider.getLogs({
+          ...range,
+          address: this._domainNotifier.address,
+          topics: this._domainNotifier.filters.DomainUpdated(null).topics,
+        }),
+        this._provider.getLogs({
+          ...range,
+          topics: [
+            this._roleDefResolverV2Interface.getEventTopic(
+              'VersionNumberChanged'
+            ),
+          ],
+        }),
+        this._provider.getLogs({
+          ...range,
+          address: this._ensRegistry.address,
+          topics: this._ensRegistry.filters.NewResolver(null, null).topics,
+        }),
+      ]);
+      const updatedNodes = new Set(logs.flat().map(({ topics }) => topics[1]));
+      await Promise.all(
+        [...updatedNodes].flatMap((node) => [
+          cache.delete(definitionKey(node)),
+          cache.delete(nameKey(node)),
+        ])
+      );
+    } else {
+      return syncedBlock;
+    }
+    await cache.set(SYNCED_BLOCK_KEY, blockNumber);
+    return blockNumber;
+  }
+
+  /**
+   * Reads the type of the ENS resolver contract registered for the node
+   * @param node the ENS node hash of a domain name
+   * @returns The type of the resolver contract
+   */
+  public async readResolverType(node: string): Promise<ResolverContractType> {
+    const { resolverType } = await this.getResolverInfo(node);
+    return resolverType;
+  }
+
   protected async getResolverInfo(
-    node: string
+    node: string,
+    blockTag?: providers.BlockTag
   ): Promise<{ resolverAddress: string; resolverType: ResolverContractType }> {
     const network = await this._provider.getNetwork();
     const chainId = network.chainId;
     // Get resolver from registry
-    const resolverAddress = await this._ensRegistry.resolver(node);
+    const resolverAddress = await this._ensRegistry.resolver(node, {
+      blockTag,
+    });
     if (resolverAddress === '0x0000000000000000000000000000000000000000') {
       throw new DomainResolverNotSet(node);
     }
 
-    const resolversForChain = this._knownEnsResolvers[chainId];
-    if (resolversForChain === undefined) {
-      throw new ChainIsNotSupported(chainId);
-    }
+    const resolversForChain = await this.resolverTypes(chainId, [
+      resolverAddress,
+    ]);
     const resolverType = resolversForChain[resolverAddress];
     if (resolverType === undefined) {
       throw new ResolverNotSupported(node, resolverAddress);
@@ -285,6 +960,103 @@ export class DomainReader {
     return { resolverAddress, resolverType };
   }
 
+  /**
+   * Resolvers of the registered network of the chain and the resolvers added with `addKnownResolver`
+   * @param chainId id of the chain
+   * @returns The types of the known resolvers by their addresses
+   */
+  protected knownResolvers(
+    chainId: number
+  ): Record<string, ResolverContractType> {
+    const network = this._networkRegistry.find(chainId);
+    const addedResolvers = this._knownEnsResolvers[chainId];
+    if (!network && !addedResolvers) {
+      throw new ChainIsNotSupported(chainId);
+    }
+    const networkResolvers: Record<string, ResolverContractType> = {};
+    if (network?.publicResolverAddress) {
+      networkResolvers[network.publicResolverAddress] =
+        ResolverContractType.PublicResolver;
+    }
+    if (network?.resolverV1Address) {
+      networkResolvers[network.resolverV1Address] =
+        ResolverContractType.RoleDefinitionResolver_v1;
+    }
+    if (network?.resolverV2Address) {
+      networkResolvers[network.resolverV2Address] =
+        ResolverContractType.RoleDefinitionResolver_v2;
+    }
+    return { ...networkResolvers, ...addedResolvers };
+  }
+
+  /**
+   * Known resolvers of the chain together with the detected types of the unknown `resolverAddresses`.
+   * Detected resolvers are added to the known resolvers, so that they are detected only once
+   * @param chainId id of the chain
+   * @param resolverAddresses addresses of the resolvers to be read
+   * @returns The types of the resolvers by their addresses
+   */
+  protected async resolverTypes(
+    chainId: number,
+    resolverAddresses: string[]
+  ): Promise<Record<string, ResolverContractType>> {
+    const resolvers = this.knownResolvers(chainId);
+    if (this._allowlistOnly) {
+      return resolvers;
+    }
+    const unknownResolvers = [...new Set(resolverAddresses)].filter(
+      (address) =>
+        address !== constants.AddressZero && resolvers[address] === undefined
+    );
+    for (const address of unknownResolvers) {
+      const type = await this.detectResolverType(address);
+      if (type !== undefined) {
+        this.addKnownResolver({ chainId, address, type });
+        resolvers[address] = type;
+      }
+    }
+    return resolvers;
+  }
+
+  /**
+   * Detects the type of the resolver by the ERC-165 interfaces it supports
+   * @param resolverAddress address of the resolver
+   * @returns The type of the resolver or `undefined` if the resolver does not support ERC-165 or text records
+   */
+  protected async detectResolverType(
+    resolverAddress: string
+  ): Promise<ResolverContractType | undefined> {
+    const resolver = PublicResolver__factory.connect(
+      resolverAddress,
+      this._provider
+    );
+    const supports = (interfaceId: string) =>
+      resolver.supportsInterface(interfaceId).catch(() => false);
+    const {
+      erc165,
+      text,
+      issuers,
+      prerequisiteRoles,
+      versionNumber,
+      revokers,
+    } = RESOLVER_INTERFACE_IDS;
+    if (!(await supports(erc165)) || !(await supports(text))) {
+      return undefined;
+    }
+    const [hasIssuers, hasPrerequisiteRoles, hasVersionNumber] =
+      await Promise.all([
+        supports(issuers),
+        supports(prerequisiteRoles),
+        supports(versionNumber),
+      ]);
+    if (!hasIssuers || !hasPrerequisiteRoles || !hasVersionNumber) {
+      return ResolverContractType.PublicResolver;
+    }
+    return (await supports(revokers))
+      ? ResolverContractType.RoleDefinitionResolver_v2
+      : ResolverContractType.RoleDefinitionResolver_v1;
+  }
+
   /**
    * Because a given resolver represents the contract from which the role definition data is read,
    * and because ethr DIDs are currently stored as addresses in the resolver contracts (so that they can be read by other smart contracts),
@@ -300,20 +1072,31 @@ export class DomainReader {
     if (!chainId) {
       throw new Error('Unable to read chainId from ensResolver provider');
     }
-    const networkName = this._knownDidEthrNetworkNames[chainId];
+    return this.getDidEthrNetworkName(chainId);
+  }
+
+  /**
+   * Name of the network used in ethr DIDs of the chain, as registered in the network registry of the reader
+   * @param chainId id of the chain
+   * @returns The network name of the ethr DIDs
+   */
+  public getDidEthrNetworkName(chainId: number): string {
+    const networkName = this._networkRegistry.find(chainId)?.chainName;
     if (!networkName) {
       throw new Error(`No did:ethr networkName known for ${chainId}`);
     }
     return networkName;
   }
 
-  // TODO: Muliticalify (make all the queries in one)
   protected async readRoleDefResolver_v1(
     node: string,
     roleDefinitionText: IRoleDefinitionText,
-    ensResolver: RoleDefinitionResolver
+    ensResolver: RoleDefinitionResolver,
+    blockTag?: providers.BlockTag
   ): Promise<IRoleDefinition> {
-    const issuersData = await ensResolver.issuers(node);
+    const issuersData = await ensResolver.issuers(node, { blockTag });
+    // Role representing multi-role policy on chain is not read, because names of the roles are stored in the text record
+    const { issuerRoles } = roleDefinitionText as ExternalAuthorities;
     let issuer: IIssuerDefinition;
 
     if (issuersData.dids.length > 0) {
@@ -324,43 +1107,54 @@ export class DomainReader {
           (address) => `did:ethr:${networkName}:${address}`
         ),
       };
-    } else if (issuersData.role != '') {
+    } else if (issuersData.role !== HashZero && !issuerRoles) {
       issuer = {
         issuerType: 'ROLE',
-        roleName: await this.readName(issuersData.role),
+        roleName: await this.readName(issuersData.role, blockTag),
       };
     } else {
       issuer = {};
     }
 
-    const prerequisiteRolesNodes = await ensResolver.prerequisiteRoles(node);
+    const prerequisiteRolesNodes = await ensResolver.prerequisiteRoles(node, {
+      blockTag,
+    });
     const prerequisiteRoles = await Promise.all(
-      prerequisiteRolesNodes[0].map((node) => this.readName(node))
+      prerequisiteRolesNodes.roles.map((node) => this.readName(node, blockTag))
     );
 
-    const enrolmentPreconditions =
-      prerequisiteRoles.length >= 1
-        ? [{ type: PreconditionType.Role, conditions: prerequisiteRoles }]
-        : [];
+    const enrolmentPreconditions = this.toEnrolmentPreconditions(
+      prerequisiteRoles,
+      prerequisiteRolesNodes.mustHaveAll
+    );
 
-    const version = (await ensResolver.versionNumber(node)).toNumber();
+    const version = (
+      await ensResolver.versionNumber(node, { blockTag })
+    ).toNumber();
+    const issuerType = await ensResolver.issuerType(node, { blockTag });
 
-    return {
-      ...roleDefinitionText,
-      issuer,
-      version,
-      enrolmentPreconditions,
-    };
+    return withExternalAuthorities(
+      {
+        ...roleDefinitionText,
+        issuer,
+        version,
+        enrolmentPreconditions,
+      },
+      { issuerType }
+    );
   }
 
-  // TODO: Muliticalify (make all the queries in one)
   protected async readRoleDefResolver_v2(
     node: string,
     roleDefinitionText: IRoleDefinitionText,
-    ensResolver: RoleDefinitionResolverV2
+    ensResolver: RoleDefinitionResolverV2,
+    blockTag?: providers.BlockTag
   ): Promise<IRoleDefinitionV2> {
-    const issuersData = await ensResolver.issuers(node);
-    const revokersData = await ensResolver.revokers(node);
+    const issuersData = await ensResolver.issuers(node, { blockTag });
+    const revokersData = await ensResolver.revokers(node, { blockTag });
+    // Role representing multi-role policy on chain is not read, because names of the roles are stored in the text record
+    const { issuerRoles, revokerRoles } =
+      roleDefinitionText as ExternalAuthorities;
     let issuer: IIssuerDefinition;
     let revoker: IRevokerDefinition;
 
@@ -373,10 +1167,10 @@ export class DomainReader {
           (address) => `did:ethr:${networkName}:${address}`
         ),
       };
-    } else if (issuersData.role !== HashZero) {
+    } else if (issuersData.role !== HashZero && !issuerRoles) {
       issuer = {
         issuerType: 'ROLE',
-        roleName: await this.readName(issuersData.role),
+        roleName: await this.readName(issuersData.role, blockTag),
       };
     } else {
       issuer = {};
@@ -388,33 +1182,364 @@ export class DomainReader {
           (address) => `did:ethr:${networkName}:${address}`
         ),
       };
-    } else if (revokersData.role !== HashZero) {
+    } else if (revokersData.role !== HashZero && !revokerRoles) {
       revoker = {
         revokerType: 'ROLE',
-        roleName: await this.readName(revokersData.role),
+        roleName: await this.readName(revokersData.role, blockTag),
       };
     } else {
       revoker = {};
     }
 
-    const prerequisiteRolesNodes = await ensResolver.prerequisiteRoles(node);
+    const prerequisiteRolesNodes = await ensResolver.prerequisiteRoles(node, {
+      blockTag,
+    });
     const prerequisiteRoles = await Promise.all(
-      prerequisiteRolesNodes[0].map((node) => ensResolver.name(node))
+      prerequisiteRolesNodes.roles.map((node) =>
+        ensResolver.name(node, { blockTag })
+      )
+    );
+    const enrolmentPreconditions = this.toEnrolmentPreconditions(
+      prerequisiteRoles,
+      prerequisiteRolesNodes.mustHaveAll
     );
-    const enrolmentPreconditions =
-      prerequisiteRoles.length >= 1
-        ? [{ type: PreconditionType.Role, conditions: prerequisiteRoles }]
-        : [];
-
-    const version = (await ensResolver.versionNumber(node)).toNumber();
-
-    return {
-      ...roleDefinitionText,
-      issuer,
-      revoker,
-      version,
-      enrolmentPreconditions,
+
+    const version = (
+      await ensResolver.versionNumber(node, { blockTag })
+    ).toNumber();
+    const issuerType = await ensResolver.issuerType(node, { blockTag });
+    const revokerType = await ensResolver.revokerType(node, { blockTag });
+
+    return withExternalAuthorities(
+      {
+        ...roleDefinitionText,
+        issuer,
+        revoker,
+        version,
+        enrolmentPreconditions,
+      },
+      { issuerType, revokerType }
+    );
+  }
+
+  /**
+   * Reads the App, Org or Role Definitions from RoleDefinitionResolvers,
+   * aggregating the resolver queries through the Multicall contract.
+   * The definitions are read in three aggregated calls: the definitions themselves,
+   * then the resolvers and the names of the referenced roles
+   * @param domains nodes and addresses of their resolvers
+   * @param resolverType type of the resolvers
+   * @returns The definition or the error of each domain
+   */
+  protected async readAggregated(
+    domains: { node: string; resolverAddress: string }[],
+    resolverType:
+      | ResolverContractType.RoleDefinitionResolver_v1
+      | ResolverContractType.RoleDefinitionResolver_v2
+  ): Promise<DomainReadResult[]> {
+    const isV2 =
+      resolverType === ResolverContractType.RoleDefinitionResolver_v2;
+    const contractInterface = isV2
+      ? this._roleDefResolverV2Interface
+      : this._roleDefResolverInterface;
+    const methods = [
+      'text',
+      'issuers',
+      'prerequisiteRoles',
+      'versionNumber',
+      'issuerType',
+      ...(isV2 ? ['revokers', 'revokerType'] : []),
+    ];
+    const data = await this.aggregate(
+      domains.flatMap(({ node, resolverAddress }) =>
+        methods.map((method) => ({
+          target: resolverAddress,
+          contractInterface,
+          method,
+          args: method === 'text' ? [node, 'metadata'] : [node],
+        }))
+      )
+    );
+
+    const parsed = domains.map(
+      ({ node }, i): DomainReadResult | AggregatedRoleData => {
+        const [
+          textResult,
+          issuersData,
+          prerequisiteRolesData,
+          versionData,
+          issuerTypeData,
+          revokersData,
+          revokerTypeData,
+        ] = data.slice(i * methods.length, (i + 1) * methods.length);
+        const textData: string = textResult?.[0] ?? '';
+        let textProps;
+        try {
+          textProps = JSON.parse(textData, this.reviveDates) as
+            | IRoleDefinitionText
+            | IAppDefinition
+            | IOrganizationDefinition;
+        } catch (err) {
+          return { node, error: new InvalidDomain(node, textData) };
+        }
+        if (
+          DomainReader.isOrgDefinition(textProps) ||
+          DomainReader.isAppDefinition(textProps)
+        ) {
+          return { node, definition: textProps };
+        }
+        if (
+          !DomainReader.isRoleDefinition(textProps) ||
+          !issuersData ||
+          !prerequisiteRolesData ||
+          !versionData
+        ) {
+          return { node, error: new InvalidDomain(node, textData) };
+        }
+        return {
+          node,
+          textProps,
+          issuersData,
+          prerequisiteRolesData,
+          versionData,
+          issuerTypeData,
+          revokersData,
+          revokerTypeData,
+        };
+      }
+    );
+
+    const referencedNodes = parsed.flatMap((parsedDomain) => {
+      if (!('textProps' in parsedDomain)) {
+        return [];
+      }
+      const { textProps, issuersData, prerequisiteRolesData, revokersData } =
+        parsedDomain;
+      const { issuerRoles, revokerRoles } = textProps as ExternalAuthorities;
+      const nodes: string[] = [...prerequisiteRolesData.roles];
+      // Role representing multi-role policy on chain is not read, because names of the roles are stored in the text record
+      if (
+        issuersData.dids.length === 0 &&
+        issuersData.role !== HashZero &&
+        !issuerRoles
+      ) {
+        nodes.push(issuersData.role);
+      }
+      if (
+        revokersData &&
+        revokersData.dids.length === 0 &&
+        revokersData.role !== HashZero &&
+        !revokerRoles
+      ) {
+        nodes.push(revokersData.role);
+      }
+      return nodes;
+    });
+    const names = await this.readNamesAggregated(referencedNodes);
+    const nameOf = (referencedNode: string): string => {
+      const name = names.get(referencedNode);
+      if (name === undefined || name instanceof Error) {
+        throw name ?? new DomainResolverNotSet(referencedNode);
+      }
+      return name;
     };
+
+    const networkName = this.getDidEthrNetworkName(
+      (await this._provider.getNetwork()).chainId
+    );
+    const toDids = (addresses: string[]) =>
+      addresses.map((address) => `did:ethr:${networkName}:${address}`);
+
+    return parsed.map((parsedDomain) => {
+      if (!('textProps' in parsedDomain)) {
+        return parsedDomain;
+      }
+      const {
+        node,
+        textProps,
+        issuersData,
+        prerequisiteRolesData,
+        versionData,
+        issuerTypeData,
+        revokersData,
+        revokerTypeData,
+      } = parsedDomain;
+      const { issuerRoles, revokerRoles } = textProps as ExternalAuthorities;
+      try {
+        let issuer: IIssuerDefinition;
+        if (issuersData.dids.length > 0) {
+          issuer = { issuerType: 'DID', did: toDids(issuersData.dids) };
+        } else if (issuersData.role !== HashZero && !issuerRoles) {
+          issuer = { issuerType: 'ROLE', roleName: nameOf(issuersData.role) };
+        } else {
+          issuer = {};
+        }
+
+        const prerequisiteRoles = (prerequisiteRolesData.roles as string[]).map(
+          nameOf
+        );
+        const enrolmentPreconditions = this.toEnrolmentPreconditions(
+          prerequisiteRoles,
+          prerequisiteRolesData.mustHaveAll
+        );
+
+        const version = versionData[0].toNumber();
+        const issuerType = issuerTypeData?.[0];
+
+        if (!revokersData) {
+          return {
+            node,
+            definition: withExternalAuthorities(
+              {
+                ...textProps,
+                issuer,
+                version,
+                enrolmentPreconditions,
+              },
+              { issuerType }
+            ),
+          };
+        }
+
+        let revoker: IRevokerDefinition;
+        if (revokersData.dids.length > 0) {
+          revoker = { revokerType: 'DID', did: toDids(revokersData.dids) };
+        } else if (revokersData.role !== HashZero && !revokerRoles) {
+          revoker = {
+            revokerType: 'ROLE',
+            roleName: nameOf(revokersData.role),
+          };
+        } else {
+          revoker = {};
+        }
+
+        return {
+          node,
+          definition: withExternalAuthorities(
+            {
+              ...textProps,
+              issuer,
+              revoker,
+              version,
+              enrolmentPreconditions,
+            },
+            { issuerType, revokerType: revokerTypeData?.[0] }
+          ),
+        };
+      } catch (err) {
+        if (DomainReader.isDomainReadError(err)) {
+          return { node, error: err };
+        }
+        throw err;
+      }
+    });
+  }
+
+  /**
+   * Reads the reverse names of the nodes in two aggregated calls:
+   * the resolvers of the nodes and then the names stored on them
+   * @param nodes the ENS node hashes of the domain names
+   * @returns The name or the error of reading the name of each node
+   */
+  protected async readNamesAggregated(
+    nodes: string[]
+  ): Promise<Map<string, string | DomainReadError>> {
+    const names = new Map<string, string | DomainReadError>();
+    const uniqueNodes = [...new Set(nodes)];
+    if (uniqueNodes.length === 0) {
+      return names;
+    }
+    const { chainId } = await this._provider.getNetwork();
+    const resolverAddresses = await this.readResolverAddresses(uniqueNodes);
+    const resolversForChain = await this.resolverTypes(
+      chainId,
+      resolverAddresses
+    );
+    const resolvedNodes = uniqueNodes.filter((node, i) => {
+      const resolverAddress = resolverAddresses[i];
+      if (resolverAddress === constants.AddressZero) {
+        names.set(node, new DomainResolverNotSet(node));
+        return false;
+      }
+      if (resolversForChain[resolverAddress] === undefined) {
+        names.set(node, new ResolverNotSupported(node, resolverAddress));
+        return false;
+      }
+      return true;
+    });
+
+    const namesData = await this.aggregate(
+      resolvedNodes.map((node) => ({
+        target: resolverAddresses[uniqueNodes.indexOf(node)],
+        contractInterface: this._publicResolverInterface,
+        method: 'name',
+        args: [node],
+      }))
+    );
+    resolvedNodes.forEach((node, i) => {
+      const name: string = namesData[i]?.[0] ?? '';
+      names.set(
+        node,
+        node === utils.namehash(name) ? name : new NodeNameMismatch(node, name)
+      );
+    });
+    return names;
+  }
+
+  /**
+   * Executes the calls in a single eth_call through the Multicall contract
+   * @param calls read-only calls to aggregate
+   * @returns Decoded result of each call or `undefined` if the call failed
+   */
+  protected async aggregate(
+    calls: AggregatedCall[]
+  ): Promise<(utils.Result | undefined)[]> {
+    if (!this._multicall) {
+      throw new Error('Multicall address is not configured');
+    }
+    if (calls.length === 0) {
+      return [];
+    }
+    const results = await this._multicall.callStatic.tryAggregate(
+      false,
+      calls.map(({ target, contractInterface, method, args }) => ({
+        target,
+        callData: contractInterface.encodeFunctionData(method, args),
+      }))
+    );
+    return results.map(({ success, returnData }, i) => {
+      if (!success || returnData === '0x') {
+        return undefined;
+      }
+      const { contractInterface, method } = calls[i];
+      try {
+        return contractInterface.decodeFunctionResult(method, returnData);
+      } catch {
+        return undefined;
+      }
+    });
+  }
+
+  /**
+   * Maps prerequisite roles read from resolver to enrolment preconditions
+   * @param prerequisiteRoles names of the prerequisite roles
+   * @param mustHaveAll whether all prerequisite roles are required or only one of them
+   * @returns Enrolment preconditions of the role definition
+   */
+  protected toEnrolmentPreconditions(
+    prerequisiteRoles: string[],
+    mustHaveAll: boolean
+  ): IRoleDefinitionV2['enrolmentPreconditions'] {
+    if (prerequisiteRoles.length < 1) {
+      return [];
+    }
+    return [
+      {
+        type: PreconditionType.Role,
+        conditions: prerequisiteRoles,
+        ...(mustHaveAll ? { mustHaveAll } : {}),
+      },
+    ];
   }
 
   protected reviveDates(
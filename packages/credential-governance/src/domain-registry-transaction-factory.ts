@@ -0,0 +1,179 @@
+import { utils } from 'ethers';
+import { EncodedCall } from './types/transaction';
+import { emptyAddress } from './constants';
+import { abi } from '../build/contracts/ENS.json';
+
+const { namehash } = utils;
+
+/**
+ * Creates transactions to manage domains in the ENS registry
+ */
+export class DomainRegistryTransactionFactory {
+  protected readonly _ensRegistryInterface: utils.Interface;
+  protected readonly _ensRegistryAddress: string;
+
+  /**
+   * @param ensRegistryAddress address of the ENS registry in which the domains are registered
+   */
+  constructor({ ensRegistryAddress }: { ensRegistryAddress: string }) {
+    if (!ensRegistryAddress) {
+      throw new Error('You need to pass the address of ENS registry');
+    }
+    this._ensRegistryAddress = ensRegistryAddress;
+    this._ensRegistryInterface = new utils.Interface(abi);
+  }
+
+  /**
+   * Creates transaction to register subdomain with owner and resolver in ENS registry.
+   * Transaction should be sent by the owner of the parent domain
+   *
+   * ```typescript
+   * const call = registryTransactionFactory.newSubdomain({
+   *   parentDomain: 'roles.myapp.apps.myorg.iam.ewc',
+   *   label: 'myrole',
+   *   owner,
+   *   resolverAddress: VOLTA_RESOLVER_V2_ADDRESS,
+   * });
+   * ```
+   *
+   * @param parentDomain name of the parent domain
+   * @param label label of the subdomain
+   * @param owner owner of the subdomain
+   * @param resolverAddress resolver of the subdomain
+   * @param ttl caching time-to-live of the subdomain records
+   * @returns The transaction to register subdomain
+   */
+  public newSubdomain({
+    parentDomain,
+    label,
+    owner,
+    resolverAddress,
+    ttl = 0,
+  }: {
+    parentDomain: string;
+    label: string;
+    owner: string;
+    resolverAddress: string;
+    ttl?: number;
+  }): EncodedCall {
+    return {
+      to: this._ensRegistryAddress,
+      data: this._ensRegistryInterface.encodeFunctionData('setSubnodeRecord', [
+        namehash(parentDomain),
+        utils.id(label),
+        owner,
+        resolverAddress,
+        ttl,
+      ]),
+    };
+  }
+
+  /**
+   * Creates transaction to transfer ownership of domain. Transaction should be sent by the owner of the domain
+   * @param domain name of the domain
+   * @param newOwner address of the new owner
+   * @returns The transaction to transfer ownership
+   */
+  public transferOwnership({
+    domain,
+    newOwner,
+  }: {
+    domain: string;
+    newOwner: string;
+  }): EncodedCall {
+    return {
+      to: this._ensRegistryAddress,
+      data: this._ensRegistryInterface.encodeFunctionData('setOwner', [
+        namehash(domain),
+        newOwner,
+      ]),
+    };
+  }
+
+  /**
+   * Creates transactions to transfer ownership of domain and its subdomains.
+   * Subdomains are transferred by the owner of their parent domains, starting from the deepest ones,
+   * so the transactions should be sent in the returned order by the owner of `domain`.
+   * Intermediate domains between `domain` and the subdomains, such as `roles` and `apps` metadomains, are transferred as well
+   *
+   * ```typescript
+   * const subdomains = await domainHierarchy.getSubdomainsUsingResolver({ domain, mode: 'ALL', includeMetadomains: true });
+   * const calls = registryTransactionFactory.transferSubtreeOwnership({ domain, subdomains, newOwner });
+   * for (const call of calls) {
+   *   await (await owner.sendTransaction(call)).wait();
+   * }
+   * ```
+   *
+   * @param domain name of the root domain of the subtree
+   * @param subdomains names of the subdomains of `domain`
+   * @param newOwner address of the new owner
+   * @returns The transactions to transfer ownership of the subtree
+   */
+  public transferSubtreeOwnership({
+    domain,
+    subdomains,
+    newOwner,
+  }: {
+    domain: string;
+    subdomains: string[];
+    newOwner: string;
+  }): EncodedCall[] {
+    const depth = (name: string) => name.split('.').length;
+    const subtree = new Set<string>();
+    subdomains
+      .filter((subdomain) => subdomain.endsWith(`.${domain}`))
+      .forEach((subdomain) => {
+        for (
+          let name = subdomain;
+          name !== domain;
+          name = name.slice(name.indexOf('.') + 1)
+        ) {
+          subtree.add(name);
+        }
+      });
+    const subdomainCalls = [...subtree]
+      .sort((a, b) => depth(b) - depth(a))
+      .map((subdomain) => {
+        const [label, ...parentLabels] = subdomain.split('.');
+        return {
+          to: this._ensRegistryAddress,
+          data: this._ensRegistryInterface.encodeFunctionData(
+            'setSubnodeOwner',
+            [namehash(parentLabels.join('.')), utils.id(label), newOwner]
+          ),
+        };
+      });
+    return [...subdomainCalls, this.transferOwnership({ domain, newOwner })];
+  }
+
+  /**
+   * Creates transaction to set resolver of domain. Transaction should be sent by the owner of the domain
+   * @param domain name of the domain
+   * @param resolverAddress address of the resolver
+   * @returns The transaction to set resolver
+   */
+  public setResolver({
+    domain,
+    resolverAddress,
+  }: {
+    domain: string;
+    resolverAddress: string;
+  }): EncodedCall {
+    return {
+      to: this._ensRegistryAddress,
+      data: this._ensRegistryInterface.encodeFunctionData('setResolver', [
+        namehash(domain),
+        resolverAddress,
+      ]),
+    };
+  }
+
+  /**
+   * Creates transaction to release domain by setting its owner to empty address
+   * @param domain name of the domain
+   * @returns The transaction to release domain
+   */
+  public releaseDomain({ domain }: { domain: string }): EncodedCall {
+    return this.transferOwnership({ domain, newOwner: emptyAddress });
+  }
+}
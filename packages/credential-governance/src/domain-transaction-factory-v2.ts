@@ -9,9 +9,30 @@ import {
   IRoleDefinitionText,
   PreconditionType,
 } from './types/domain-definitions';
-import { DID } from './types/did';
+import { AuthorityType } from './types/authority-type';
+import {
+  authorityType,
+  ExternalAuthorities,
+  externalAuthorities,
+  ethrDidAddresses,
+  onChainIssuer,
+  onChainRevoker,
+} from './external-authorities';
 import { EncodedCall } from './types/transaction';
-import { VOLTA_RESOLVER_V2_ADDRESS } from './chain-constants';
+import { validateRoleDefinitionV2 } from './role-definition-validation';
+import { InvalidRoleDefinition } from './errors';
+import {
+  diffRoleDefinitions,
+  RoleDefinitionChange,
+  ROLE_DEFINITION_SEMANTIC_PROPS,
+  ROLE_DEFINITION_TEXT_PROPS,
+} from './role-definition-diff';
+import {
+  networkRegistry as defaultNetworkRegistry,
+  VOLTA_RESOLVER_V2_ADDRESS,
+} from './chain-constants';
+import { NetworkRegistry } from './network-registry';
+import { DomainRegistryTransactionFactory } from './domain-registry-transaction-factory';
 import { abi } from '../build/contracts/RoleDefinitionResolverV2.json';
 
 const { namehash } = utils;
@@ -19,18 +40,43 @@ const { namehash } = utils;
 export class DomainTransactionFactoryV2 {
   protected readonly _roleDefResolverInterface: utils.Interface;
   protected readonly _resolverAddress: string;
+  protected readonly _registryTransactionFactory?: DomainRegistryTransactionFactory;
 
+  /**
+   * @param domainResolverAddress address of the resolver of the domains
+   * @param ensRegistryAddress address of the ENS registry in which the domains are registered.
+   * Defaults to the registry of `chainId` network. Transactions of the registry can not be created without it
+   * @param chainId chain on which the domains are registered
+   * @param networkRegistry registry of the networks
+   */
   constructor({
     domainResolverAddress = VOLTA_RESOLVER_V2_ADDRESS,
+    ensRegistryAddress,
+    chainId,
+    networkRegistry = defaultNetworkRegistry,
   }: {
     domainResolverAddress: string;
+    ensRegistryAddress?: string;
+    chainId?: number;
+    networkRegistry?: NetworkRegistry;
   }) {
     this._resolverAddress = domainResolverAddress;
     this._roleDefResolverInterface = new utils.Interface(abi);
+    ensRegistryAddress =
+      ensRegistryAddress ??
+      (chainId === undefined
+        ? undefined
+        : networkRegistry.get(chainId).ensRegistryAddress);
+    if (ensRegistryAddress) {
+      this._registryTransactionFactory = new DomainRegistryTransactionFactory({
+        ensRegistryAddress,
+      });
+    }
   }
 
   /**
    * Creates transaction to set role definition and reverse name in resolver contract
+   * @throws {InvalidRoleDefinition} if role definition is invalid
    */
   public newRole({
     domain,
@@ -51,6 +97,7 @@ export class DomainTransactionFactoryV2 {
 
   /**
    * Creates transaction to update domain definition in resolver contract
+   * @throws {InvalidRoleDefinition} if role definition is invalid
    */
   public editDomain({
     domain,
@@ -101,6 +148,224 @@ export class DomainTransactionFactoryV2 {
     });
   }
 
+  /**
+   * Creates transaction to update only the changed properties of role definition in resolver contract
+   *
+   * ```typescript
+   * const current = await domainReader.read({ node: namehash(domain) });
+   * const { call, changes } = domainTransactionFactory.updateRole({
+   *   domain,
+   *   current,
+   *   next: { ...current, roleType: 'device' },
+   * });
+   * ```
+   *
+   * When issuer, revoker, fields or enrolment preconditions change and version of `next` is not greater than
+   * version of `current`, version is incremented automatically
+   *
+   * @param domain role namespace
+   * @param current role definition which is currently stored
+   * @param next role definition which replaces `current`
+   * @param bumpVersion whether to increment version automatically. Defaults to `true`
+   * @returns The transaction which is undefined if nothing changed, and the changed properties
+   * @throws {InvalidRoleDefinition} if `next` role definition is invalid
+   */
+  public updateRole({
+    domain,
+    current,
+    next,
+    bumpVersion = true,
+  }: {
+    domain: string;
+    current: IRoleDefinitionV2;
+    next: IRoleDefinitionV2;
+    bumpVersion?: boolean;
+  }): { call?: EncodedCall; changes: RoleDefinitionChange[] } {
+    const errors = validateRoleDefinitionV2(next);
+    if (errors.length > 0) {
+      throw new InvalidRoleDefinition(domain, errors);
+    }
+    let changes = diffRoleDefinitions(current, next);
+    if (
+      bumpVersion &&
+      next.version <= current.version &&
+      changes.some(({ property }) =>
+        (ROLE_DEFINITION_SEMANTIC_PROPS as readonly string[]).includes(property)
+      )
+    ) {
+      next = { ...next, version: current.version + 1 };
+      changes = diffRoleDefinitions(current, next);
+    }
+    if (changes.length === 0) {
+      return { changes };
+    }
+    const changed = new Set(changes.map(({ property }) => property));
+    const transactionsToCombine: EncodedCall[] = [];
+    if (changed.has('version')) {
+      transactionsToCombine.push(
+        this.setVersionNumberTx({ domain, versionNumber: next.version })
+      );
+    }
+    if (changed.has('issuer')) {
+      transactionsToCombine.push(
+        this.setIssuersTx({ domain, issuers: next.issuer })
+      );
+      const issuerType = authorityType(next.issuer.issuerType);
+      if (issuerType !== authorityType(current.issuer?.issuerType)) {
+        transactionsToCombine.push(
+          this.setIssuerTypeTx({ domain, issuerType })
+        );
+      }
+    }
+    if (changed.has('revoker')) {
+      transactionsToCombine.push(
+        this.setRevokersTx({ domain, revokers: next.revoker })
+      );
+      const revokerType = authorityType(next.revoker.revokerType);
+      if (revokerType !== authorityType(current.revoker?.revokerType)) {
+        transactionsToCombine.push(
+          this.setRevokerTypeTx({ domain, revokerType })
+        );
+      }
+    }
+    if (changed.has('enrolmentPreconditions')) {
+      transactionsToCombine.push(
+        this.enrolmentPreconditionsTx({
+          domain,
+          enrolmentPreconditions: next.enrolmentPreconditions,
+        })
+      );
+    }
+    const textProps = this.roleTextProps(next);
+    // Text record also stores issuers and revokers which are not stored in resolver contract
+    if (
+      ROLE_DEFINITION_TEXT_PROPS.some((property) => changed.has(property)) ||
+      JSON.stringify(externalAuthorities(current)) !==
+        JSON.stringify(externalAuthorities(next))
+    ) {
+      transactionsToCombine.push(this.setTextTx({ domain, data: textProps }));
+    }
+    transactionsToCombine.push(this.domainUpdated({ domain }));
+    return {
+      call: this.createMultiCallTx({ transactionsToCombine }),
+      changes,
+    };
+  }
+
+  /**
+   * Creates transaction to register subdomain in ENS registry. Transaction should be sent by the owner of the parent domain
+   * @param parentDomain name of the parent domain
+   * @param label label of the subdomain
+   * @param owner owner of the subdomain
+   * @param resolverAddress resolver of the subdomain. Defaults to the resolver of the factory
+   */
+  public newSubdomain({
+    parentDomain,
+    label,
+    owner,
+    resolverAddress = this._resolverAddress,
+  }: {
+    parentDomain: string;
+    label: string;
+    owner: string;
+    resolverAddress?: string;
+  }): EncodedCall {
+    return this.registryTransactionFactory().newSubdomain({
+      parentDomain,
+      label,
+      owner,
+      resolverAddress,
+    });
+  }
+
+  /**
+   * Creates transaction to transfer ownership of domain in ENS registry
+   */
+  public transferOwnership({
+    domain,
+    newOwner,
+  }: {
+    domain: string;
+    newOwner: string;
+  }): EncodedCall {
+    return this.registryTransactionFactory().transferOwnership({
+      domain,
+      newOwner,
+    });
+  }
+
+  /**
+   * Creates transactions to transfer ownership of domain and its subdomains in ENS registry.
+   * Transactions should be sent in the returned order
+   */
+  public transferSubtreeOwnership({
+    domain,
+    subdomains,
+    newOwner,
+  }: {
+    domain: string;
+    subdomains: string[];
+    newOwner: string;
+  }): EncodedCall[] {
+    return this.registryTransactionFactory().transferSubtreeOwnership({
+      domain,
+      subdomains,
+      newOwner,
+    });
+  }
+
+  /**
+   * Creates transaction to set resolver of domain in ENS registry
+   * @param resolverAddress resolver of the domain. Defaults to the resolver of the factory
+   */
+  public setResolver({
+    domain,
+    resolverAddress = this._resolverAddress,
+  }: {
+    domain: string;
+    resolverAddress?: string;
+  }): EncodedCall {
+    return this.registryTransactionFactory().setResolver({
+      domain,
+      resolverAddress,
+    });
+  }
+
+  /**
+   * Creates transactions to delete domain. The first transaction clears definition and name of the domain
+   * in resolver contract and notifies about the update, the second one releases the domain in ENS registry.
+   * Transactions should be sent in the returned order by the owner of the domain
+   *
+   * ```typescript
+   * const [clearDefinition, releaseDomain] = domainTransactionFactory.deleteDomain({ domain });
+   * await (await owner.sendTransaction(clearDefinition)).wait();
+   * await (await owner.sendTransaction(releaseDomain)).wait();
+   * ```
+   *
+   * @param domain name of the domain
+   * @returns The transactions to delete domain
+   */
+  public deleteDomain({ domain }: { domain: string }): EncodedCall[] {
+    const node = namehash(domain);
+    const clearDefinitionTx = this.createMultiCallTx({
+      transactionsToCombine: [
+        this.encodeResolverCall('setText', [node, 'metadata', '']),
+        this.encodeResolverCall('setIssuerDids', [node, []]),
+        this.encodeResolverCall('setRevokerDids', [node, []]),
+        this.setIssuerTypeTx({ domain, issuerType: AuthorityType.Identity }),
+        this.setRevokerTypeTx({ domain, revokerType: AuthorityType.Identity }),
+        this.setVersionNumberTx({ domain, versionNumber: 0 }),
+        this.encodeResolverCall('setPrerequisiteRoles', [node, [], false]),
+        this.encodeResolverCall('setName', [node, '']),
+        this.domainUpdated({ domain }),
+      ],
+    });
+    return [
+      clearDefinitionTx,
+      this.registryTransactionFactory().releaseDomain({ domain }),
+    ];
+  }
+
   public setDomainNameTx({ domain }: { domain: string }): EncodedCall {
     const namespaceHash = utils.namehash(domain) as string;
     return {
@@ -137,36 +402,91 @@ export class DomainTransactionFactoryV2 {
     domain: string;
     data: IRoleDefinitionV2;
   }): EncodedCall {
+    const errors = validateRoleDefinitionV2(data);
+    if (errors.length > 0) {
+      throw new InvalidRoleDefinition(domain, errors);
+    }
+
     const setVersionTx = this.setVersionNumberTx({
       domain,
       versionNumber: data.version,
     });
 
     const setIssuersTx = this.setIssuersTx({ domain, issuers: data.issuer });
-    // IssuerType hardcoded to zero for now which means approval by some identity (i.e. an identity from a list of DIDs, or an identity with a given role
-    const setIssuerTypeTx = this.setIssuerTypeTx({ domain, issuerType: 0 });
+    const setIssuerTypeTx = this.setIssuerTypeTx({
+      domain,
+      issuerType: authorityType(data.issuer.issuerType),
+    });
 
     const setRevokersTx = this.setRevokersTx({
       domain,
       revokers: data.revoker,
     });
-    // RevokerType hardcoded to zero for now which means approval by some identity (i.e. an identity from a list of DIDs, or an identity with a given role
-    const setRevokerTypeTx = this.setRevokerTypeTx({ domain, revokerType: 0 });
+    const setRevokerTypeTx = this.setRevokerTypeTx({
+      domain,
+      revokerType: authorityType(data.revoker.revokerType),
+    });
+
+    const prerequisiteRolesTx = this.enrolmentPreconditionsTx({
+      domain,
+      enrolmentPreconditions: data.enrolmentPreconditions,
+    });
+
+    const textProps = this.roleTextProps(data);
+    const setTextTx = this.setTextTx({ domain, data: textProps });
+
+    const domainUpdatedTx = this.domainUpdated({ domain });
+
+    return this.createMultiCallTx({
+      transactionsToCombine: [
+        setVersionTx,
+        setIssuersTx,
+        setIssuerTypeTx,
+        setRevokersTx,
+        setRevokerTypeTx,
+        setTextTx,
+        prerequisiteRolesTx,
+        domainUpdatedTx,
+      ],
+    });
+  }
 
-    let prerequisiteRolesTx;
-    const roleConditiions = data?.enrolmentPreconditions?.filter(
+  protected roleTextProps(
+    roleDef: IRoleDefinitionV2
+  ): IRoleDefinitionText & ExternalAuthorities {
+    return {
+      roleName: roleDef.roleName,
+      roleType: roleDef.roleType,
+      requestorFields: roleDef.requestorFields,
+      issuerFields: roleDef.issuerFields,
+      metadata: roleDef.metadata,
+      defaultValidityPeriod: roleDef.defaultValidityPeriod,
+      ...externalAuthorities(roleDef),
+    } as IRoleDefinitionText & ExternalAuthorities;
+  }
+
+  protected enrolmentPreconditionsTx({
+    domain,
+    enrolmentPreconditions,
+  }: {
+    domain: string;
+    enrolmentPreconditions: IRoleDefinitionV2['enrolmentPreconditions'];
+  }): EncodedCall {
+    const roleConditiions = enrolmentPreconditions?.filter(
       (condition) => condition.type === PreconditionType.Role
     );
     if (!roleConditiions || roleConditiions.length < 1) {
-      prerequisiteRolesTx = this.setPrerequisiteRolesTx({
+      return this.setPrerequisiteRolesTx({
         domain,
         prerequisiteRoles: [],
+        mustHaveAll: false,
       });
     } else if (roleConditiions.length == 1) {
       // TODO: check that each condition has a reverse name set
-      prerequisiteRolesTx = this.setPrerequisiteRolesTx({
+      return this.setPrerequisiteRolesTx({
         domain,
         prerequisiteRoles: roleConditiions[0].conditions,
+        mustHaveAll: roleConditiions[0].mustHaveAll ?? false,
       });
     } else if (roleConditiions.length > 1) {
       throw Error(
@@ -175,33 +495,6 @@ export class DomainTransactionFactoryV2 {
     } else {
       throw Error('error setting role preconditions');
     }
-
-    const textProps = ((roleDef: IRoleDefinitionV2) => {
-      return {
-        roleName: roleDef.roleName,
-        roleType: roleDef.roleType,
-        requestorFields: roleDef.requestorFields,
-        issuerFields: roleDef.issuerFields,
-        metadata: roleDef.metadata,
-        defaultValidityPeriod: roleDef.defaultValidityPeriod,
-      };
-    })(data);
-    const setTextTx = this.setTextTx({ domain, data: textProps });
-
-    const domainUpdatedTx = this.domainUpdated({ domain });
-
-    return this.createMultiCallTx({
-      transactionsToCombine: [
-        setVersionTx,
-        setIssuersTx,
-        setIssuerTypeTx,
-        setRevokersTx,
-        setRevokerTypeTx,
-        setTextTx,
-        prerequisiteRolesTx,
-        domainUpdatedTx,
-      ],
-    });
   }
 
   protected setTextTx({
@@ -221,6 +514,13 @@ export class DomainTransactionFactoryV2 {
     };
   }
 
+  protected encodeResolverCall(method: string, args: unknown[]): EncodedCall {
+    return {
+      to: this._resolverAddress,
+      data: this._roleDefResolverInterface.encodeFunctionData(method, args),
+    };
+  }
+
   protected domainUpdated({ domain }: { domain: string }): EncodedCall {
     return {
       to: this._resolverAddress,
@@ -259,7 +559,12 @@ export class DomainTransactionFactoryV2 {
       if (!issuers.did) {
         throw Error('IssuerType set to DID but no DIDs provided');
       }
-      const addresses = issuers.did.map((didString) => new DID(didString).id);
+      // DIDs of other methods are stored in the text record
+      const addresses = ethrDidAddresses({
+        domain,
+        path: 'issuer.did',
+        dids: issuers.did,
+      });
       return {
         to: this._resolverAddress,
         data: this._roleDefResolverInterface.encodeFunctionData(
@@ -278,6 +583,34 @@ export class DomainTransactionFactoryV2 {
           [utils.namehash(domain), namehash(issuers.roleName)]
         ),
       };
+    } else if (
+      issuers.issuerType === undefined ||
+      authorityType(issuers.issuerType) !== AuthorityType.Identity
+    ) {
+      // Roles of multi-role policies are stored in the text record, so resolver contract stores the issuers which ClaimManager can verify.
+      // Role without issuers, as it is read by `DomainReader`, has no DIDs
+      const { did = [], roleName } = onChainIssuer(issuers);
+      if (roleName) {
+        return {
+          to: this._resolverAddress,
+          data: this._roleDefResolverInterface.encodeFunctionData(
+            'setIssuerRole',
+            [utils.namehash(domain), namehash(roleName)]
+          ),
+        };
+      }
+      const addresses = ethrDidAddresses({
+        domain,
+        path: 'issuer.did',
+        dids: did,
+      });
+      return {
+        to: this._resolverAddress,
+        data: this._roleDefResolverInterface.encodeFunctionData(
+          'setIssuerDids',
+          [utils.namehash(domain), addresses]
+        ),
+      };
     }
     throw new Error(`IssuerType of ${issuers.issuerType} is not supported`);
   }
@@ -293,7 +626,11 @@ export class DomainTransactionFactoryV2 {
       if (!revokers.did) {
         throw Error('RevokerType set to DID but no DIDs provided');
       }
-      const addresses = revokers.did.map((didString) => new DID(didString).id);
+      const addresses = ethrDidAddresses({
+        domain,
+        path: 'revoker.did',
+        dids: revokers.did,
+      });
       return {
         to: this._resolverAddress,
         data: this._roleDefResolverInterface.encodeFunctionData(
@@ -312,6 +649,34 @@ export class DomainTransactionFactoryV2 {
           [utils.namehash(domain), namehash(revokers.roleName)]
         ),
       };
+    } else if (
+      revokers.revokerType === undefined ||
+      authorityType(revokers.revokerType) !== AuthorityType.Identity
+    ) {
+      // Roles of multi-role policies are stored in the text record, so resolver contract stores the revokers which ClaimManager can verify.
+      // Role without revokers, as it is read by `DomainReader`, has no DIDs
+      const { did = [], roleName } = onChainRevoker(revokers);
+      if (roleName) {
+        return {
+          to: this._resolverAddress,
+          data: this._roleDefResolverInterface.encodeFunctionData(
+            'setRevokerRole',
+            [utils.namehash(domain), namehash(roleName)]
+          ),
+        };
+      }
+      const addresses = ethrDidAddresses({
+        domain,
+        path: 'revoker.did',
+        dids: did,
+      });
+      return {
+        to: this._resolverAddress,
+        data: this._roleDefResolverInterface.encodeFunctionData(
+          'setRevokerDids',
+          [utils.namehash(domain), addresses]
+        ),
+      };
     }
     throw new Error(`RevokerType of ${revokers.revokerType} is not supported`);
   }
@@ -351,9 +716,11 @@ export class DomainTransactionFactoryV2 {
   protected setPrerequisiteRolesTx({
     domain,
     prerequisiteRoles,
+    mustHaveAll,
   }: {
     domain: string;
     prerequisiteRoles: string[];
+    mustHaveAll: boolean;
   }): EncodedCall {
     const prequisiteRoleDomains = prerequisiteRoles.map((role) =>
       utils.namehash(role)
@@ -362,12 +729,18 @@ export class DomainTransactionFactoryV2 {
       to: this._resolverAddress,
       data: this._roleDefResolverInterface.encodeFunctionData(
         'setPrerequisiteRoles',
-        [
-          utils.namehash(domain),
-          prequisiteRoleDomains,
-          false, // mustHaveAll = false so only need to have one of the set
-        ]
+        [utils.namehash(domain), prequisiteRoleDomains, mustHaveAll]
       ),
     };
   }
+
+  /**
+   * @throws if address of ENS registry is not passed
+   */
+  protected registryTransactionFactory(): DomainRegistryTransactionFactory {
+    if (!this._registryTransactionFactory) {
+      throw new Error('You need to pass the address of ENS registry');
+    }
+    return this._registryTransactionFactory;
+  }
 }
@@ -8,9 +8,22 @@ import {
   IRoleDefinitionText,
   PreconditionType,
 } from './types/domain-definitions';
-import { DID } from './types/did';
+import { AuthorityType } from './types/authority-type';
+import {
+  authorityType,
+  externalAuthorities,
+  ethrDidAddresses,
+  onChainIssuer,
+} from './external-authorities';
 import { EncodedCall } from './types/transaction';
-import { VOLTA_RESOLVER_V1_ADDRESS } from './chain-constants';
+import { validateRoleDefinition } from './role-definition-validation';
+import { InvalidRoleDefinition } from './errors';
+import {
+  networkRegistry as defaultNetworkRegistry,
+  VOLTA_RESOLVER_V1_ADDRESS,
+} from './chain-constants';
+import { NetworkRegistry } from './network-registry';
+import { DomainRegistryTransactionFactory } from './domain-registry-transaction-factory';
 import { abi } from '../build/contracts/RoleDefinitionResolver.json';
 
 const { namehash } = utils;
@@ -18,18 +31,43 @@ const { namehash } = utils;
 export class DomainTransactionFactory {
   protected readonly _roleDefResolverInterface: utils.Interface;
   protected readonly _resolverAddress: string;
+  protected readonly _registryTransactionFactory?: DomainRegistryTransactionFactory;
 
+  /**
+   * @param domainResolverAddress address of the resolver of the domains
+   * @param ensRegistryAddress address of the ENS registry in which the domains are registered.
+   * Defaults to the registry of `chainId` network. Transactions of the registry can not be created without it
+   * @param chainId chain on which the domains are registered
+   * @param networkRegistry registry of the networks
+   */
   constructor({
     domainResolverAddress = VOLTA_RESOLVER_V1_ADDRESS,
+    ensRegistryAddress,
+    chainId,
+    networkRegistry = defaultNetworkRegistry,
   }: {
     domainResolverAddress: string;
+    ensRegistryAddress?: string;
+    chainId?: number;
+    networkRegistry?: NetworkRegistry;
   }) {
     this._resolverAddress = domainResolverAddress;
     this._roleDefResolverInterface = new utils.Interface(abi);
+    ensRegistryAddress =
+      ensRegistryAddress ??
+      (chainId === undefined
+        ? undefined
+        : networkRegistry.get(chainId).ensRegistryAddress);
+    if (ensRegistryAddress) {
+      this._registryTransactionFactory = new DomainRegistryTransactionFactory({
+        ensRegistryAddress,
+      });
+    }
   }
 
   /**
    * Creates transaction to set role definition and reverse name in resolver contract
+   * @throws {InvalidRoleDefinition} if role definition is invalid
    */
   public newRole({
     domain,
@@ -50,6 +88,7 @@ export class DomainTransactionFactory {
 
   /**
    * Creates transaction to update domain definition in resolver contract
+   * @throws {InvalidRoleDefinition} if role definition is invalid
    */
   public editDomain({
     domain,
@@ -100,6 +139,118 @@ export class DomainTransactionFactory {
     });
   }
 
+  /**
+   * Creates transaction to register subdomain in ENS registry. Transaction should be sent by the owner of the parent domain
+   * @param parentDomain name of the parent domain
+   * @param label label of the subdomain
+   * @param owner owner of the subdomain
+   * @param resolverAddress resolver of the subdomain. Defaults to the resolver of the factory
+   */
+  public newSubdomain({
+    parentDomain,
+    label,
+    owner,
+    resolverAddress = this._resolverAddress,
+  }: {
+    parentDomain: string;
+    label: string;
+    owner: string;
+    resolverAddress?: string;
+  }): EncodedCall {
+    return this.registryTransactionFactory().newSubdomain({
+      parentDomain,
+      label,
+      owner,
+      resolverAddress,
+    });
+  }
+
+  /**
+   * Creates transaction to transfer ownership of domain in ENS registry
+   */
+  public transferOwnership({
+    domain,
+    newOwner,
+  }: {
+    domain: string;
+    newOwner: string;
+  }): EncodedCall {
+    return this.registryTransactionFactory().transferOwnership({
+      domain,
+      newOwner,
+    });
+  }
+
+  /**
+   * Creates transactions to transfer ownership of domain and its subdomains in ENS registry.
+   * Transactions should be sent in the returned order
+   */
+  public transferSubtreeOwnership({
+    domain,
+    subdomains,
+    newOwner,
+  }: {
+    domain: string;
+    subdomains: string[];
+    newOwner: string;
+  }): EncodedCall[] {
+    return this.registryTransactionFactory().transferSubtreeOwnership({
+      domain,
+      subdomains,
+      newOwner,
+    });
+  }
+
+  /**
+   * Creates transaction to set resolver of domain in ENS registry
+   * @param resolverAddress resolver of the domain. Defaults to the resolver of the factory
+   */
+  public setResolver({
+    domain,
+    resolverAddress = this._resolverAddress,
+  }: {
+    domain: string;
+    resolverAddress?: string;
+  }): EncodedCall {
+    return this.registryTransactionFactory().setResolver({
+      domain,
+      resolverAddress,
+    });
+  }
+
+  /**
+   * Creates transactions to delete domain. The first transaction clears definition and name of the domain
+   * in resolver contract and notifies about the update, the second one releases the domain in ENS registry.
+   * Transactions should be sent in the returned order by the owner of the domain
+   *
+   * ```typescript
+   * const [clearDefinition, releaseDomain] = domainTransactionFactory.deleteDomain({ domain });
+   * await (await owner.sendTransaction(clearDefinition)).wait();
+   * await (await owner.sendTransaction(releaseDomain)).wait();
+   * ```
+   *
+   * @param domain name of the domain
+   * @returns The transactions to delete domain
+   */
+  public deleteDomain({ domain }: { domain: string }): EncodedCall[] {
+    const node = namehash(domain);
+    const clearDefinitionTx = this.createMultiCallTx({
+      transactionsToCombine: [
+        this.encodeResolverCall('setText', [node, 'metadata', '']),
+        this.encodeResolverCall('setIssuerDids', [node, []]),
+        this.setIssuerTypeTx({ domain, issuerType: AuthorityType.Identity }),
+        this.setVersionNumberTx({ domain, versionNumber: 0 }),
+        this.encodeResolverCall('setPrerequisiteRoles', [node, [], false]),
+        this.encodeResolverCall('setName', [node, '']),
+        this.domainUpdated({ domain }),
+      ],
+    });
+    return [
+      clearDefinitionTx,
+      this.registryTransactionFactory().releaseDomain({ domain }),
+    ];
+  }
+
   public setDomainNameTx({ domain }: { domain: string }): EncodedCall {
     const namespaceHash = utils.namehash(domain) as string;
     return {
@@ -136,14 +287,21 @@ export class DomainTransactionFactory {
     domain: string;
     data: IRoleDefinition;
   }): EncodedCall {
+    const errors = validateRoleDefinition(data);
+    if (errors.length > 0) {
+      throw new InvalidRoleDefinition(domain, errors);
+    }
+
     const setVersionTx = this.setVersionNumberTx({
       domain,
       versionNumber: data.version,
     });
 
     const setIssuersTx = this.setIssuersTx({ domain, issuers: data.issuer });
-    // IssuerType hardcoded to zero for now which means approval by some identity (i.e. an identity from a list of DIDs, or an identity with a given role
-    const setIssuerTypeTx = this.setIssuerTypeTx({ domain, issuerType: 0 });
+    const setIssuerTypeTx = this.setIssuerTypeTx({
+      domain,
+      issuerType: authorityType(data.issuer.issuerType),
+    });
 
     let prerequisiteRolesTx;
     const roleConditiions = data?.enrolmentPreconditions?.filter(
@@ -153,12 +311,14 @@ export class DomainTransactionFactory {
       prerequisiteRolesTx = this.setPrerequisiteRolesTx({
         domain,
         prerequisiteRoles: [],
+        mustHaveAll: false,
       });
     } else if (roleConditiions.length == 1) {
       // TODO: check that each condition has a reverse name set
       prerequisiteRolesTx = this.setPrerequisiteRolesTx({
         domain,
         prerequisiteRoles: roleConditiions[0].conditions,
+        mustHaveAll: roleConditiions[0].mustHaveAll ?? false,
       });
     } else if (roleConditiions.length > 1) {
       throw Error(
@@ -175,6 +335,7 @@ export class DomainTransactionFactory {
         requestorFields: roleDef.requestorFields,
         issuerFields: roleDef.issuerFields,
         metadata: roleDef.metadata,
+        ...externalAuthorities(roleDef),
       };
     })(data);
     const setTextTx = this.setTextTx({ domain, data: textProps });
@@ -210,6 +371,13 @@ export class DomainTransactionFactory {
     };
   }
 
+  protected encodeResolverCall(method: string, args: unknown[]): EncodedCall {
+    return {
+      to: this._resolverAddress,
+      data: this._roleDefResolverInterface.encodeFunctionData(method, args),
+    };
+  }
+
   protected domainUpdated({ domain }: { domain: string }): EncodedCall {
     return {
       to: this._resolverAddress,
@@ -248,7 +416,12 @@ export class DomainTransactionFactory {
       if (!issuers.did) {
         throw Error('IssuerType set to DID but no DIDs provided');
       }
-      const addresses = issuers.did.map((didString) => new DID(didString).id);
+      // DIDs of other methods are stored in the text record
+      const addresses = ethrDidAddresses({
+        domain,
+        path: 'issuer.did',
+        dids: issuers.did,
+      });
       return {
         to: this._resolverAddress,
         data: this._roleDefResolverInterface.encodeFunctionData(
@@ -267,6 +440,34 @@ export class DomainTransactionFactory {
           [utils.namehash(domain), namehash(issuers.roleName)]
         ),
       };
+    } else if (
+      issuers.issuerType === undefined ||
+      authorityType(issuers.issuerType) !== AuthorityType.Identity
+    ) {
+      // Roles of multi-role policies are stored in the text record, so resolver contract stores the issuers which ClaimManager can verify.
+      // Role without issuers, as it is read by `DomainReader`, has no DIDs
+      const { did = [], roleName } = onChainIssuer(issuers);
+      if (roleName) {
+        return {
+          to: this._resolverAddress,
+          data: this._roleDefResolverInterface.encodeFunctionData(
+            'setIssuerRole',
+            [utils.namehash(domain), namehash(roleName)]
+          ),
+        };
+      }
+      const addresses = ethrDidAddresses({
+        domain,
+        path: 'issuer.did',
+        dids: did,
+      });
+      return {
+        to: this._resolverAddress,
+        data: this._roleDefResolverInterface.encodeFunctionData(
+          'setIssuerDids',
+          [utils.namehash(domain), addresses]
+        ),
+      };
     }
     throw new Error(`IssuerType of ${issuers.issuerType} is not supported`);
   }
@@ -290,9 +491,11 @@ export class DomainTransactionFactory {
   protected setPrerequisiteRolesTx({
     domain,
     prerequisiteRoles,
+    mustHaveAll,
   }: {
     domain: string;
     prerequisiteRoles: string[];
+    mustHaveAll: boolean;
   }): EncodedCall {
     const prequisiteRoleDomains = prerequisiteRoles.map((role) =>
       utils.namehash(role)
@@ -301,12 +504,18 @@ export class DomainTransactionFactory {
       to: this._resolverAddress,
       data: this._roleDefResolverInterface.encodeFunctionData(
         'setPrerequisiteRoles',
-        [
-          utils.namehash(domain),
-          prequisiteRoleDomains,
-          false, // mustHaveAll = false so only need to have one of the set
-        ]
+        [utils.namehash(domain), prequisiteRoleDomains, mustHaveAll]
       ),
     };
   }
+
+  /**
+   * @throws if address of ENS registry is not passed
+   */
+  protected registryTransactionFactory(): DomainRegistryTransactionFactory {
+    if (!this._registryTransactionFactory) {
+      throw new Error('You need to pass the address of ENS registry');
+    }
+    return this._registryTransactionFactory;
+  }
 }
@@ -0,0 +1,366 @@
+import { BigNumber, providers, utils } from 'ethers';
+import { abi } from '../build/contracts/RoleDefinitionResolverV2.json';
+import { DomainReader } from './domain-reader';
+import {
+  IRoleDefinitionV2,
+  PreconditionType,
+} from './types/domain-definitions';
+import { DomainReadResult } from './types/domain-read-result';
+import {
+  DefinitionDiff,
+  SimulatedCall,
+  SimulationResult,
+} from './types/simulation-result';
+import { EncodedCall } from './types/transaction';
+import {
+  authorityType,
+  ExternalAuthorities,
+  withExternalAuthorities,
+  withoutExternalAuthorities,
+} from './external-authorities';
+
+const ERROR_SELECTOR = utils.id('Error(string)').slice(0, 10);
+// Properties of role definition which are not stored in `metadata` text
+const ROLE_RESOLVER_PROPS = [
+  'issuer',
+  'revoker',
+  'version',
+  'enrolmentPreconditions',
+];
+
+const resolverInterface = new utils.Interface(abi);
+
+type Definition = NonNullable<DomainReadResult['definition']>;
+
+/**
+ * Simulates the transaction encoded by the domain transaction factory without sending it.
+ * The transaction is executed with `eth_call` from `from` and, if it reverts, every resolver call is executed
+ * separately to find the reverting ones. If `domainReader` is provided, the definitions of the updated domains
+ * are read and compared with the definitions which would be read after the transaction
+ *
+ * ```typescript
+ * const call = domainTransactionFactory.newRole({ domain, roleDefinition });
+ * const { success, calls, diffs } = await simulate({ call, from, provider, domainReader });
+ * ```
+ *
+ * @param call transaction to simulate
+ * @param from address of the transaction sender
+ * @param provider provider of the chain on which domains are defined
+ * @param domainReader reader of the definitions before the transaction
+ * @returns The decoded calls, their revert reasons and the changes of the definitions
+ */
+export async function simulate({
+  call,
+  from,
+  provider,
+  domainReader,
+}: {
+  call: EncodedCall;
+  from: string;
+  provider: providers.Provider;
+  domainReader?: DomainReader;
+}): Promise<SimulationResult> {
+  const calls = decodeCalls(call.data);
+  const revertReason = await callRevertReason(provider, { ...call, from });
+  if (revertReason !== undefined) {
+    const innerData = innerCallsData(call.data);
+    await Promise.all(
+      calls.map(async (simulatedCall, i) => {
+        simulatedCall.revertReason = await callRevertReason(provider, {
+          to: call.to,
+          from,
+          data: innerData[i],
+        });
+      })
+    );
+  }
+  const diffs = domainReader
+    ? await diffDefinitions(calls, provider, domainReader)
+    : [];
+  return { success: revertReason === undefined, revertReason, calls, diffs };
+}
+
+function innerCallsData(data: string): string[] {
+  const transaction = parseTransaction(data);
+  return transaction?.name === 'multicall' ? transaction.args[0] : [data];
+}
+
+function parseTransaction(data: string) {
+  try {
+    return resolverInterface.parseTransaction({ data });
+  } catch {
+    return undefined;
+  }
+}
+
+function decodeCalls(data: string): SimulatedCall[] {
+  return innerCallsData(data).map((innerData) => {
+    const transaction = parseTransaction(innerData);
+    if (!transaction) {
+      return { method: 'unknown', args: { data: innerData } };
+    }
+    const args: Record<string, unknown> = {};
+    transaction.functionFragment.inputs.forEach(({ name }, i) => {
+      args[name] = toPlainValue(transaction.args[i]);
+    });
+    return {
+      method: transaction.name,
+      args,
+      node: typeof args.node === 'string' ? args.node : undefined,
+    };
+  });
+}
+
+function toPlainValue(value: unknown): unknown {
+  if (BigNumber.isBigNumber(value)) {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toPlainValue);
+  }
+  return value;
+}
+
+/**
+ * Executes the transaction with `eth_call`
+ * @returns The revert reason or `undefined` if the transaction does not revert
+ */
+async function callRevertReason(
+  provider: providers.Provider,
+  transaction: providers.TransactionRequest
+): Promise<string | undefined> {
+  try {
+    const result = await provider.call(transaction);
+    // ethers returns revert data instead of throwing for some nodes
+    return result.startsWith(ERROR_SELECTOR)
+      ? decodeRevertReason(result)
+      : undefined;
+  } catch (e) {
+    const data = findRevertData(e);
+    if (data && data.startsWith(ERROR_SELECTOR)) {
+      return decodeRevertReason(data);
+    }
+    const node = parseTransaction(transaction.data as string)?.args.node;
+    return node
+      ? `Reverted without reason, ${transaction.from} may not be authorised for node ${node}`
+      : 'Reverted without reason';
+  }
+}
+
+function decodeRevertReason(data: string): string {
+  const [reason] = utils.defaultAbiCoder.decode(
+    ['string'],
+    utils.hexDataSlice(data, 4)
+  );
+  return reason;
+}
+
+function findRevertData(error: unknown): string | undefined {
+  if (typeof error === 'string') {
+    return utils.isHexString(error) ? error : undefined;
+  }
+  if (!error || typeof error !== 'object') {
+    return undefined;
+  }
+  const { data, error: nested, body } = error as Record<string, unknown>;
+  if (typeof body === 'string') {
+    try {
+      const found = findRevertData(JSON.parse(body).error);
+      if (found) return found;
+    } catch {
+      // body is not JSON-RPC response
+    }
+  }
+  return (
+    findRevertData(data) ??
+    (data && typeof data === 'object'
+      ? findRevertData((data as Record<string, unknown>).result)
+      : undefined) ??
+    findRevertData(nested)
+  );
+}
+
+async function diffDefinitions(
+  calls: SimulatedCall[],
+  provider: providers.Provider,
+  domainReader: DomainReader
+): Promise<DefinitionDiff[]> {
+  const { chainId } = await provider.getNetwork();
+  const networkName = domainReader.getDidEthrNetworkName(chainId);
+  // Names set by the simulated transaction itself
+  const names = new Map<string, string>();
+  calls
+    .filter(({ method }) => method === 'setName')
+    .forEach(({ args }) => {
+      const [node, name] = Object.values(args) as string[];
+      names.set(node, name);
+    });
+  const readName = async (node: string) =>
+    names.get(node) ?? (await domainReader.readName(node).catch(() => node));
+  const toDids = (addresses: string[]) =>
+    addresses.map((address) => `did:ethr:${networkName}:${address}`);
+
+  const updatedNodes = [
+    ...new Set(
+      calls
+        .filter(({ method, node }) => node && isDefinitionUpdate(method))
+        .map(({ node }) => node as string)
+    ),
+  ];
+  return Promise.all(
+    updatedNodes.map(async (node) => {
+      const before = await domainReader.read({ node }).catch(() => undefined);
+      const beforeProperties = before as unknown as
+        | Record<string, unknown>
+        | undefined;
+      // Issuers and revokers which are not stored in resolver contract are updated with the text record
+      let after: Record<string, unknown> = before
+        ? { ...withoutExternalAuthorities(before) }
+        : {};
+      const { issuer, revoker } = (before ?? {}) as Partial<IRoleDefinitionV2>;
+      let issuerType = authorityType(issuer?.issuerType);
+      let revokerType = authorityType(revoker?.revokerType);
+      // Definition is removed by clearing the text record
+      let removed = false;
+      for (const { method, args } of calls.filter((c) => c.node === node)) {
+        switch (method) {
+          case 'setText':
+            if (args.key === 'metadata') {
+              const text = parseDefinitionText(args.value as string);
+              removed = text === undefined;
+              after = {
+                ...text,
+                ...Object.fromEntries(
+                  Object.entries(after).filter(([property]) =>
+                    ROLE_RESOLVER_PROPS.includes(property)
+                  )
+                ),
+              };
+            }
+            break;
+          case 'setVersionNumber':
+            after.version = Number(args.newVersionNumber);
+            break;
+          case 'setIssuerDids':
+            after.issuer = {
+              issuerType: 'DID',
+              did: toDids(args.dids as string[]),
+            };
+            break;
+          case 'setIssuerRole':
+            after.issuer = {
+              issuerType: 'ROLE',
+              roleName: await readName(args.role as string),
+            };
+            break;
+          case 'setRevokerDids':
+            after.revoker = {
+              revokerType: 'DID',
+              did: toDids(args.dids as string[]),
+            };
+            break;
+          case 'setRevokerRole':
+            after.revoker = {
+              revokerType: 'ROLE',
+              roleName: await readName(args.role as string),
+            };
+            break;
+          case 'setIssuerType':
+            issuerType = Number(args.newIssuerType);
+            break;
+          case 'setRevokerType':
+            revokerType = Number(args.newRevokerType);
+            break;
+          case 'setPrerequisiteRoles': {
+            const roles = await Promise.all(
+              (args.roles as string[]).map(readName)
+            );
+            const enrolmentPreconditions: IRoleDefinitionV2['enrolmentPreconditions'] =
+              roles.length > 0
+                ? [
+                    {
+                      type: PreconditionType.Role,
+                      conditions: roles,
+                      ...(args.mustHaveAll ? { mustHaveAll: true } : {}),
+                    },
+                  ]
+                : [];
+            after.enrolmentPreconditions = enrolmentPreconditions;
+            break;
+          }
+        }
+      }
+      after = removed
+        ? {}
+        : withExternalAuthorities(
+            after as Record<string, unknown> & ExternalAuthorities,
+            { issuerType, revokerType }
+          );
+      const properties = new Set([
+        ...Object.keys(beforeProperties ?? {}),
+        ...Object.keys(after),
+      ]);
+      const changes = [...properties]
+        .filter(
+          (property) =>
+            JSON.stringify(beforeProperties?.[property]) !==
+            JSON.stringify(after[property])
+        )
+        .map((property) => ({
+          property,
+          before: beforeProperties?.[property],
+          after: after[property],
+        }));
+      return {
+        node,
+        before,
+        after: Object.keys(after).length
+          ? (after as unknown as Definition)
+          : undefined,
+        changes,
+      };
+    })
+  );
+}
+
+/**
+ * Parses the `metadata` text record
+ * @returns The properties of the definition or `undefined` if the text is empty or is not a definition
+ */
+function parseDefinitionText(
+  value: string
+): Record<string, unknown> | undefined {
+  try {
+    const text = JSON.parse(value, reviveDates);
+    return text && typeof text === 'object' ? text : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reviver of `JSON.parse` restoring the dates of the field definitions of the text record
+ */
+function reviveDates(
+  key: string,
+  value: string | number | Date
+): string | number | Date {
+  if ((key === 'minDate' || key === 'maxDate') && value !== null) {
+    return new Date(value);
+  }
+  return value;
+}
+
+function isDefinitionUpdate(method: string): boolean {
+  return [
+    'setText',
+    'setVersionNumber',
+    'setIssuerDids',
+    'setIssuerRole',
+    'setRevokerDids',
+    'setRevokerRole',
+    'setIssuerType',
+    'setRevokerType',
+    'setPrerequisiteRoles',
+  ].includes(method);
+}
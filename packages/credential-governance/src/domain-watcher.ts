@@ -0,0 +1,291 @@
+import { EventEmitter, on } from 'events';
+import { providers, utils } from 'ethers';
+import { abi as publicResolverAbi } from '../build/contracts/PublicResolver.json';
+import { abi as roleDefResolverV2Abi } from '../build/contracts/RoleDefinitionResolverV2.json';
+import { ENSRegistry } from '../ethers/ENSRegistry';
+import { ENSRegistry__factory } from '../ethers/factories/ENSRegistry__factory';
+import { DomainNotifier } from '../ethers/DomainNotifier';
+import { DomainNotifier__factory } from '../ethers/factories/DomainNotifier__factory';
+import { networkRegistry as defaultNetworkRegistry } from './chain-constants';
+import { DEFAULT_LOGS_BLOCK_RANGE, emptyAddress } from './constants';
+import { NetworkRegistry } from './network-registry';
+import {
+  DomainChangeEvent,
+  DomainChangeType,
+} from './types/domain-change-event';
+
+/**
+ * Streams changes of domains observed in the logs of ENS Registry, DomainNotifier and resolver contracts.
+ * Every change is emitted as `change` event and as event named by the type of the change.
+ * Definition updates are streamed only from the logs of the known resolvers.
+ * Errors of polling on new blocks are emitted as `error` event, which is thrown if no `error` listener is attached.
+ *
+ * ```typescript
+ * const watcher = new DomainWatcher({
+ *   ensRegistryAddress,
+ *   domainNotifierAddress,
+ *   resolverAddresses: [resolverV2Address],
+ *   provider,
+ * });
+ * watcher.on(DomainChangeType.Created, ({ node, owner }) => {...});
+ * await watcher.start();
+ * for await (const change of watcher) {...}
+ * ```
+ */
+export class DomainWatcher extends EventEmitter {
+  protected readonly _provider: providers.Provider;
+  protected readonly _ensRegistry: ENSRegistry;
+  protected readonly _domainNotifier: DomainNotifier;
+  protected readonly _resolverAddresses: string[];
+  protected readonly _logsBlockRange: number;
+  private readonly _resolverInterface = new utils.Interface(publicResolverAbi);
+  private readonly _roleDefResolverV2Interface = new utils.Interface(
+    roleDefResolverV2Abi
+  );
+  private _lastPolledBlock?: number;
+  private _polling: Promise<void> = Promise.resolve();
+  private readonly _onBlock = () => {
+    this.poll().catch((e) => this.emit('error', e));
+  };
+
+  /**
+   * @param resolverAddresses resolvers whose logs are streamed as definition updates
+   * @param fromBlock block from which changes are streamed. By default only changes made after `start` are streamed
+   * @param logsBlockRange maximal number of blocks whose logs are requested at once
+   * @param chainId chain of the provider. Addresses which are not passed default to the addresses of its network in `networkRegistry`
+   * @param networkRegistry registry of the networks
+   */
+  constructor({
+    ensRegistryAddress,
+    domainNotifierAddress,
+    resolverAddresses,
+    provider,
+    fromBlock,
+    logsBlockRange = DEFAULT_LOGS_BLOCK_RANGE,
+    chainId,
+    networkRegistry = defaultNetworkRegistry,
+  }: {
+    ensRegistryAddress?: string;
+    domainNotifierAddress?: string;
+    resolverAddresses?: string[];
+    provider: providers.Provider;
+    fromBlock?: number;
+    logsBlockRange?: number;
+    chainId?: number;
+    networkRegistry?: NetworkRegistry;
+  }) {
+    super();
+    const network =
+      chainId === undefined ? undefined : networkRegistry.get(chainId);
+    ensRegistryAddress = ensRegistryAddress ?? network?.ensRegistryAddress;
+    domainNotifierAddress =
+      domainNotifierAddress ?? network?.domainNotifierAddress;
+    resolverAddresses =
+      resolverAddresses ??
+      [
+        network?.publicResolverAddress,
+        network?.resolverV1Address,
+        network?.resolverV2Address,
+      ].filter((address): address is string => Boolean(address));
+    if (!provider) throw new Error('You need to pass a provider');
+    this._provider = provider;
+    if (!ensRegistryAddress)
+      throw new Error(
+        'You need to pass the address of ensRegistry ethers contract'
+      );
+    this._ensRegistry = ENSRegistry__factory.connect(
+      ensRegistryAddress,
+      provider
+    );
+    if (!domainNotifierAddress)
+      throw new Error(
+        'You need to pass the address of a domain notifier contract'
+      );
+    this._domainNotifier = DomainNotifier__factory.connect(
+      domainNotifierAddress,
+      provider
+    );
+    if (resolverAddresses.length === 0)
+      throw new Error('You need to pass the addresses of resolver contracts');
+    this._resolverAddresses = resolverAddresses;
+    if (logsBlockRange < 1)
+      throw new Error('Logs block range should be positive');
+    this._logsBlockRange = logsBlockRange;
+    if (fromBlock !== undefined) {
+      this._lastPolledBlock = fromBlock - 1;
+    }
+  }
+
+  /**
+   * Starts polling for changes on every new block
+   */
+  public async start(): Promise<void> {
+    if (this._lastPolledBlock === undefined) {
+      this._lastPolledBlock = await this._provider.getBlockNumber();
+    }
+    this._provider.on('block', this._onBlock);
+  }
+
+  /**
+   * Stops polling for changes
+   */
+  public stop(): void {
+    this._provider.off('block', this._onBlock);
+  }
+
+  /**
+   * Emits changes made since the last polled block up to the current block.
+   * Blocks are polled in chunks of `logsBlockRange` blocks and the last polled block is advanced after every chunk,
+   * so that a failed poll is resumed from the first chunk whose changes have not been emitted
+   */
+  public poll = async (): Promise<void> => {
+    this._polling = this._polling
+      .catch(() => undefined)
+      .then(() => this.pollNewBlocks());
+    return this._polling;
+  };
+
+  /**
+   * Iterates over the changes emitted after the iteration is started
+   */
+  public async *[Symbol.asyncIterator](): AsyncIterableIterator<DomainChangeEvent> {
+    for await (const [change] of on(this, 'change')) {
+      yield change;
+    }
+  }
+
+  private async pollNewBlocks(): Promise<void> {
+    const blockNumber = await this._provider.getBlockNumber();
+    for (
+      let fromBlock =
+        this._lastPolledBlock === undefined ? 0 : this._lastPolledBlock + 1;
+      fromBlock <= blockNumber;
+      fromBlock += this._logsBlockRange
+    ) {
+      const toBlock = Math.min(
+        fromBlock + this._logsBlockRange - 1,
+        blockNumber
+      );
+      const changes = await this.readChanges(fromBlock, toBlock);
+      this._lastPolledBlock = toBlock;
+      changes.forEach((change) => {
+        this.emit(change.type, change);
+        this.emit('change', change);
+      });
+    }
+  }
+
+  private async readChanges(
+    fromBlock: number,
+    toBlock: number
+  ): Promise<DomainChangeEvent[]> {
+    const registryInterface = this._ensRegistry.interface;
+    const range = { fromBlock, toBlock };
+    const resolverTopics = [
+      [
+        this._resolverInterface.getEventTopic('TextChanged'),
+        this._roleDefResolverV2Interface.getEventTopic('VersionNumberChanged'),
+      ],
+    ];
+    const [registryLogs, notifierLogs, ...resolverLogs] = await Promise.all([
+      this._provider.getLogs({
+        ...range,
+        address: this._ensRegistry.address,
+        topics: [
+          [
+            registryInterface.getEventTopic('NewOwner'),
+            registryInterface.getEventTopic('Transfer'),
+            registryInterface.getEventTopic('NewResolver'),
+          ],
+        ],
+      }),
+      this._provider.getLogs({
+        ...range,
+        address: this._domainNotifier.address,
+        topics: this._domainNotifier.filters.DomainUpdated(null).topics,
+      }),
+      // Logs of other contracts are ignored, because any contract can emit resolver events
+      ...this._resolverAddresses.map((address) =>
+        this._provider.getLogs({ ...range, address, topics: resolverTopics })
+      ),
+    ]);
+    const logs = [
+      ...registryLogs.map((log) => ({ log, fromRegistry: true })),
+      ...[...notifierLogs, ...resolverLogs.flat()].map((log) => ({
+        log,
+        fromRegistry: false,
+      })),
+    ].sort(
+      ({ log: a }, { log: b }) =>
+        a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+    );
+
+    const changes: DomainChangeEvent[] = [];
+    const definitionUpdates = new Set<string>();
+    for (const { log, fromRegistry } of logs) {
+      const { blockNumber, transactionHash } = log;
+      const change = { blockNumber, transactionHash };
+      if (fromRegistry) {
+        const { name } = registryInterface.parseLog(log);
+        /** ethers_v5 Interface.parseLog incorrectly parses log, so have to use lowlevel alternative */
+        const args = registryInterface.decodeEventLog(
+          name,
+          log.data,
+          log.topics
+        );
+        if (name === 'NewOwner') {
+          const node = utils.keccak256(args.node + args.label.slice(2));
+          changes.push(
+            await this.toOwnerChange({ ...change, node }, args.owner, args.node)
+          );
+        } else if (name === 'Transfer') {
+          changes.push(
+            await this.toOwnerChange({ ...change, node: args.node }, args.owner)
+          );
+        } else {
+          changes.push({
+            ...change,
+            type: DomainChangeType.ResolverChanged,
+            node: args.node,
+            resolver: args.resolver,
+          });
+        }
+      } else {
+        const node = log.topics[1];
+        // Definition is updated by several logs of the same transaction
+        if (!definitionUpdates.has(`${transactionHash}${node}`)) {
+          definitionUpdates.add(`${transactionHash}${node}`);
+          changes.push({
+            ...change,
+            type: DomainChangeType.DefinitionUpdated,
+            node,
+          });
+        }
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Maps change of the owner to domain creation, transfer of ownership or domain deletion
+   * depending on the owner before and after the change
+   */
+  private async toOwnerChange(
+    change: { node: string; blockNumber: number; transactionHash: string },
+    owner: string,
+    parentNode?: string
+  ): Promise<DomainChangeEvent> {
+    if (owner === emptyAddress) {
+      return { ...change, type: DomainChangeType.Deleted };
+    }
+    if (parentNode) {
+      const previousOwner = await this._ensRegistry.owner(change.node, {
+        blockTag: change.blockNumber - 1,
+      });
+      if (previousOwner === emptyAddress) {
+        return { ...change, type: DomainChangeType.Created, owner, parentNode };
+      }
+    }
+    return { ...change, type: DomainChangeType.OwnershipTransferred, owner };
+  }
+}
@@ -3,3 +3,7 @@ export { ResolverNotSupported } from './resolver-not-supported';
 export { InvalidDomain } from './invalid-domain-type';
 export { ChainIsNotSupported } from './chain-is-not-supported';
 export { DomainResolverNotSet } from './domain-resolver-not-set';
+export { InvalidRoleDefinition } from './invalid-role-definition';
+export { InvalidDID } from './invalid-did';
+export { InvalidDIDChecksum } from './invalid-did-checksum';
+export { NotRoleDomain } from './not-role-domain';
@@ -0,0 +1,7 @@
+import { InvalidDID } from './invalid-did';
+
+export class InvalidDIDChecksum extends InvalidDID {
+  constructor(did: string) {
+    super(did, 'address checksum does not match');
+  }
+}
@@ -0,0 +1,5 @@
+export class InvalidDID extends Error {
+  constructor(did: string, reason: string) {
+    super(`DID ${did} is invalid: ${reason}`);
+  }
+}
@@ -0,0 +1,14 @@
+import { RoleDefinitionValidationError } from '../role-definition-validation';
+
+export class InvalidRoleDefinition extends Error {
+  constructor(
+    domain: string,
+    public readonly errors: RoleDefinitionValidationError[]
+  ) {
+    super(
+      `Role definition of ${domain} is invalid: ${errors
+        .map(({ path, message }) => `${path} ${message}`)
+        .join('; ')}`
+    );
+  }
+}
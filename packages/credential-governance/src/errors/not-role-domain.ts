@@ -0,0 +1,5 @@
+export class NotRoleDomain extends Error {
+  constructor(domain: string) {
+    super(`Domain ${domain} is not a role`);
+  }
+}
@@ -0,0 +1,297 @@
+import { AuthorityType } from './types/authority-type';
+import { InvalidDID, InvalidRoleDefinition } from './errors';
+import { DID } from './types/did';
+import {
+  IIssuerDefinition,
+  IRevokerDefinition,
+} from './types/domain-definitions';
+
+/**
+ * Methods of the DIDs which can be issuers and revokers besides ethr DIDs
+ */
+export const EXTERNAL_DID_METHODS = ['key', 'web'];
+
+/**
+ * Resolver contracts store issuers and revokers as addresses of ethr DIDs or as a single role,
+ * so DIDs of other methods and roles of multi-role policies are stored in the text record of the role definition
+ */
+export interface ExternalAuthorities {
+  externalIssuers?: string[];
+  externalRevokers?: string[];
+  issuerRoles?: string[];
+  revokerRoles?: string[];
+}
+
+type RoleAuthorities = {
+  issuer?: IIssuerDefinition;
+  revoker?: IRevokerDefinition;
+};
+
+/**
+ * Issuer or revoker definition regardless of the name of its type
+ */
+type Authority = {
+  type?: string;
+  did?: string[];
+  roleName?: string;
+  roleNames?: string[];
+};
+
+const fromIssuer = ({
+  issuerType,
+  ...issuer
+}: IIssuerDefinition): Authority => ({
+  type: issuerType,
+  ...issuer,
+});
+
+const toIssuer = ({ type, ...authority }: Authority): IIssuerDefinition => ({
+  ...(type ? { issuerType: type } : {}),
+  ...authority,
+});
+
+const fromRevoker = ({
+  revokerType,
+  ...revoker
+}: IRevokerDefinition): Authority => ({ type: revokerType, ...revoker });
+
+const toRevoker = ({ type, ...authority }: Authority): IRevokerDefinition => ({
+  ...(type ? { revokerType: type } : {}),
+  ...authority,
+});
+
+/**
+ * Checks that DID is ethr DID, which can be stored in resolver contract as address.
+ * Malformed DID is recognized by its method, so that it is rejected with the other ethr DIDs
+ */
+export const isEthrDid = (did: string): boolean => {
+  try {
+    return new DID(did).method === 'ethr';
+  } catch (e) {
+    if (e instanceof InvalidDID) {
+      return did.startsWith('did:ethr:');
+    }
+    throw e;
+  }
+};
+
+/**
+ * Addresses of ethr DIDs, as they are stored in resolver contract
+ * @param domain name of the domain whose issuers or revokers are stored
+ * @param path property of role definition holding the DIDs
+ * @param dids issuers or revokers of any DID method
+ * @throws {InvalidRoleDefinition} if ethr DID is malformed or its address has invalid checksum
+ */
+export function ethrDidAddresses({
+  domain,
+  path,
+  dids,
+}: {
+  domain: string;
+  path: string;
+  dids: string[];
+}): string[] {
+  return dids.flatMap((did, index) => {
+    if (!isEthrDid(did)) {
+      return [];
+    }
+    try {
+      return [new DID(did, { strict: true }).id];
+    } catch (e) {
+      if (e instanceof InvalidDID) {
+        throw new InvalidRoleDefinition(domain, [
+          { path: `${path}[${index}]`, message: e.message },
+        ]);
+      }
+      throw e;
+    }
+  });
+}
+
+/**
+ * Maps issuer or revoker type of role definition to the type stored in resolver contract
+ * @param type `issuerType` or `revokerType`
+ * @returns Type of resolver contract
+ */
+export function authorityType(type?: string): AuthorityType {
+  switch (type?.toUpperCase()) {
+    case 'ANY_OF_ROLES':
+      return AuthorityType.AnyOfRoles;
+    case 'ALL_OF_ROLES':
+      return AuthorityType.AllOfRoles;
+    case 'DID_OR_ROLE':
+      return AuthorityType.DidOrRole;
+    default:
+      return AuthorityType.Identity;
+  }
+}
+
+const externalDids = ({ type, did = [] }: Authority): string[] =>
+  ['DID', 'DID_OR_ROLE'].includes(type?.toUpperCase() ?? '')
+    ? did.filter((d) => !isEthrDid(d))
+    : [];
+
+const externalRoles = ({ type, roleName, roleNames = [] }: Authority) => {
+  switch (authorityType(type)) {
+    case AuthorityType.AnyOfRoles:
+    case AuthorityType.AllOfRoles:
+      return roleNames;
+    case AuthorityType.DidOrRole:
+      return roleName ? [roleName] : [];
+    default:
+      return [];
+  }
+};
+
+/**
+ * Finds issuers and revokers which are not stored in resolver contract
+ * @param definition role definition
+ * @returns DIDs which are not ethr DIDs and roles of multi-role policies
+ */
+export function externalAuthorities({
+  issuer,
+  revoker,
+}: RoleAuthorities): ExternalAuthorities {
+  const issuerAuthority = issuer ? fromIssuer(issuer) : {};
+  const revokerAuthority = revoker ? fromRevoker(revoker) : {};
+  const externalIssuers = externalDids(issuerAuthority);
+  const externalRevokers = externalDids(revokerAuthority);
+  const issuerRoles = externalRoles(issuerAuthority);
+  const revokerRoles = externalRoles(revokerAuthority);
+  return {
+    ...(externalIssuers.length > 0 ? { externalIssuers } : {}),
+    ...(externalRevokers.length > 0 ? { externalRevokers } : {}),
+    ...(issuerRoles.length > 0 ? { issuerRoles } : {}),
+    ...(revokerRoles.length > 0 ? { revokerRoles } : {}),
+  };
+}
+
+/**
+ * Issuers or revokers as they are read from resolver contract. ClaimManager can only verify a list of DIDs or a single role,
+ * so validation only accepts multi-role policy with a single role and `DID_OR_ROLE` policy with either ethr DIDs or a role
+ */
+const onChainAuthority = (authority: Authority): Authority => {
+  switch (authorityType(authority.type)) {
+    case AuthorityType.AnyOfRoles:
+    case AuthorityType.AllOfRoles: {
+      const [roleName] = authority.roleNames ?? [];
+      return roleName ? { type: 'ROLE', roleName } : {};
+    }
+    case AuthorityType.DidOrRole: {
+      const did = (authority.did ?? []).filter(isEthrDid);
+      if (did.length > 0) {
+        return { type: 'DID', did };
+      }
+      return authority.roleName
+        ? { type: 'ROLE', roleName: authority.roleName }
+        : {};
+    }
+    default:
+      return authority.did
+        ? { ...authority, did: authority.did.filter(isEthrDid) }
+        : authority;
+  }
+};
+
+/**
+ * Issuers as they are stored in resolver contract
+ * @param issuer issuers of role definition
+ * @returns Ethr DIDs or a single role which represent the issuers on chain
+ */
+export const onChainIssuer = (issuer: IIssuerDefinition): IIssuerDefinition =>
+  toIssuer(onChainAuthority(fromIssuer(issuer)));
+
+/**
+ * Revokers as they are stored in resolver contract
+ * @param revoker revokers of role definition
+ * @returns Ethr DIDs or a single role which represent the revokers on chain
+ */
+export const onChainRevoker = (
+  revoker: IRevokerDefinition
+): IRevokerDefinition => toRevoker(onChainAuthority(fromRevoker(revoker)));
+
+/**
+ * Moves issuers and revokers which are not stored in resolver contract to the properties of the text record
+ * @param definition role definition
+ * @returns Role definition with issuers and revokers as they are read from resolver contract
+ */
+export function withoutExternalAuthorities<T extends object>(
+  definition: T
+): T & ExternalAuthorities {
+  const { issuer, revoker } = definition as RoleAuthorities;
+  return {
+    ...definition,
+    ...(issuer ? { issuer: onChainIssuer(issuer) } : {}),
+    ...(revoker ? { revoker: onChainRevoker(revoker) } : {}),
+    ...externalAuthorities({ issuer, revoker }),
+  };
+}
+
+const withExternal = (
+  authority: Authority,
+  type: AuthorityType,
+  dids: string[] = [],
+  roles: string[] = []
+): Authority => {
+  switch (type) {
+    case AuthorityType.AnyOfRoles:
+      return { type: 'ANY_OF_ROLES', roleNames: roles };
+    case AuthorityType.AllOfRoles:
+      return { type: 'ALL_OF_ROLES', roleNames: roles };
+    case AuthorityType.DidOrRole:
+      return {
+        type: 'DID_OR_ROLE',
+        did: [...(authority.did ?? []), ...dids],
+        ...(roles.length > 0 ? { roleName: roles[0] } : {}),
+      };
+    default:
+      return dids.length > 0
+        ? { type: 'DID', did: [...(authority.did ?? []), ...dids] }
+        : authority;
+  }
+};
+
+/**
+ * Merges issuers and revokers read from resolver contract with the ones stored in the text record
+ * @param definition role definition as stored on chain
+ * @param issuerType issuer type read from resolver contract
+ * @param revokerType revoker type read from resolver contract
+ * @returns Role definition with issuers and revokers of all DID methods and policies
+ */
+export function withExternalAuthorities<T extends object>(
+  definition: T & ExternalAuthorities,
+  {
+    issuerType = AuthorityType.Identity,
+    revokerType = AuthorityType.Identity,
+  }: { issuerType?: AuthorityType; revokerType?: AuthorityType } = {}
+): T {
+  const {
+    externalIssuers,
+    externalRevokers,
+    issuerRoles,
+    revokerRoles,
+    ...roleDefinition
+  } = definition;
+  const merged = roleDefinition as RoleAuthorities;
+  if (merged.issuer || issuerType || externalIssuers || issuerRoles) {
+    merged.issuer = toIssuer(
+      withExternal(
+        fromIssuer(merged.issuer ?? {}),
+        issuerType,
+        externalIssuers,
+        issuerRoles
+      )
+    );
+  }
+  if (merged.revoker || revokerType || externalRevokers || revokerRoles) {
+    merged.revoker = toRevoker(
+      withExternal(
+        fromRevoker(merged.revoker ?? {}),
+        revokerType,
+        externalRevokers,
+        revokerRoles
+      )
+    );
+  }
+  return merged as T;
+}
@@ -0,0 +1,169 @@
+import {
+  IFieldDefinition,
+  IRoleDefinitionText,
+} from './types/domain-definitions';
+import { IssuerFields } from './types/role-credential';
+
+/**
+ * Violation of a field definition by the value of the field
+ */
+export interface FieldValidationError {
+  // Label of the field definition, which is the key of the field
+  field: string;
+  message: string;
+}
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === '';
+
+const toNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : undefined;
+  }
+  return undefined;
+};
+
+const toTime = (value: unknown): number | undefined => {
+  if (
+    typeof value !== 'string' &&
+    typeof value !== 'number' &&
+    !(value instanceof Date)
+  ) {
+    return undefined;
+  }
+  const time = new Date(value).getTime();
+  return isNaN(time) ? undefined : time;
+};
+
+/**
+ * Checks value of the field against its definition. Type of the value is checked for `text`, `number`, `date`,
+ * `boolean` and `json` fields, and the constraints are checked regardless of the type of the field
+ */
+function validateField(definition: IFieldDefinition, value: unknown): string[] {
+  const errors: string[] = [];
+  const fieldType = definition.fieldType?.toLowerCase();
+  if (fieldType === 'text' && typeof value !== 'string') {
+    errors.push('should be a string');
+  } else if (fieldType === 'number' && toNumber(value) === undefined) {
+    errors.push('should be a number');
+  } else if (fieldType === 'date' && toTime(value) === undefined) {
+    errors.push('should be a date');
+  } else if (
+    fieldType === 'boolean' &&
+    ![true, false, 'true', 'false'].includes(value as string | boolean)
+  ) {
+    errors.push('should be a boolean');
+  } else if (fieldType === 'json' && typeof value === 'string') {
+    try {
+      JSON.parse(value);
+    } catch {
+      errors.push('should be a JSON');
+    }
+  }
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  const { minLength, maxLength, pattern, minValue, maxValue } = definition;
+  if (typeof value === 'string') {
+    if (minLength !== undefined && value.length < minLength) {
+      errors.push(`should be at least ${minLength} characters long`);
+    }
+    if (maxLength !== undefined && value.length > maxLength) {
+      errors.push(`should be at most ${maxLength} characters long`);
+    }
+    if (pattern !== undefined && !new RegExp(pattern).test(value)) {
+      errors.push(`should match pattern ${pattern}`);
+    }
+  }
+  const number = toNumber(value);
+  if (minValue !== undefined && number !== undefined && number < minValue) {
+    errors.push(`should be at least ${minValue}`);
+  }
+  if (maxValue !== undefined && number !== undefined && number > maxValue) {
+    errors.push(`should be at most ${maxValue}`);
+  }
+  const time = fieldType === 'date' ? toTime(value) : undefined;
+  const minTime = toTime(definition.minDate);
+  const maxTime = toTime(definition.maxDate);
+  if (time !== undefined && minTime !== undefined && time < minTime) {
+    errors.push(
+      `should not be earlier than ${new Date(minTime).toISOString()}`
+    );
+  }
+  if (time !== undefined && maxTime !== undefined && time > maxTime) {
+    errors.push(`should not be later than ${new Date(maxTime).toISOString()}`);
+  }
+  return errors;
+}
+
+/**
+ * Checks values of the fields against their definitions. Fields are matched with definitions by `label`
+ *
+ * ```typescript
+ * const errors = validateFieldValues(role.requestorFields, { name: 'John' });
+ * // [{ field: 'age', message: 'is required' }]
+ * ```
+ *
+ * @param definitions definitions of the fields
+ * @param values values of the fields by their labels
+ * @returns The violated field definitions. Empty if all values are valid
+ */
+export function validateFieldValues(
+  definitions: IFieldDefinition[] = [],
+  values: Record<string, unknown>
+): FieldValidationError[] {
+  const errors: FieldValidationError[] = [];
+  const labels = new Set(definitions.map(({ label }) => label));
+  definitions.forEach((definition) => {
+    const value = values[definition.label];
+    if (isEmpty(value)) {
+      if (definition.required) {
+        errors.push({ field: definition.label, message: 'is required' });
+      }
+      return;
+    }
+    validateField(definition, value).forEach((message) =>
+      errors.push({ field: definition.label, message })
+    );
+  });
+  Object.keys(values)
+    .filter((field) => !labels.has(field))
+    .forEach((field) =>
+      errors.push({ field, message: 'is not defined by the role' })
+    );
+  return errors;
+}
+
+/**
+ * Checks issuer fields of role credential against `issuerFields` of role definition
+ * @param definition definition of the role
+ * @param issuerFields issuer fields of the credential subject
+ * @returns The violated field definitions. Empty if all fields are valid
+ */
+export function validateIssuerFields(
+  definition: IRoleDefinitionText,
+  issuerFields: IssuerFields[] = []
+): FieldValidationError[] {
+  return validateFieldValues(
+    definition.issuerFields,
+    Object.fromEntries(issuerFields.map(({ key, value }) => [key, value]))
+  );
+}
+
+/**
+ * Checks fields supplied by requestor of the role against `requestorFields` of role definition
+ * @param definition definition of the role
+ * @param fields fields of the claim data
+ * @returns The violated field definitions. Empty if all fields are valid
+ */
+export function validateRequestorFields(
+  definition: IRoleDefinitionText,
+  fields: Record<string, string | number> = {}
+): FieldValidationError[] {
+  return validateFieldValues(definition.requestorFields, fields);
+}
@@ -2,7 +2,9 @@ import { utils } from 'ethers';
 import { DomainReader } from './domain-reader';
 import { DomainTransactionFactory } from './domain-transaction-factory';
 import { DomainTransactionFactoryV2 } from './domain-transaction-factory-v2';
+import { DomainRegistryTransactionFactory } from './domain-registry-transaction-factory';
 import { DomainHierarchy } from './domain-hierarchy';
+import { DomainWatcher } from './domain-watcher';
 import { RoleCredentialSubject, IssuerFields } from './types/role-credential';
 import {
   IAppDefinition,
@@ -16,7 +18,23 @@ import {
   IRevokerDefinition,
 } from './types/domain-definitions';
 import { ResolverContractType } from './types/resolver-contract-type';
+import { AuthorityType } from './types/authority-type';
 import { EncodedCall } from './types/transaction';
+import { DomainReadError, DomainReadResult } from './types/domain-read-result';
+import { DomainTreeNode } from './types/domain-tree';
+import { RoleDefinitionVersion } from './types/role-definition-version';
+import { NetworkConfig } from './types/network-config';
+import { DomainMigration, RevokerPolicy } from './types/domain-migration';
+import { CredentialSchema, JsonSchema } from './types/json-schema';
+import {
+  DomainChangeEvent,
+  DomainChangeType,
+} from './types/domain-change-event';
+import {
+  DefinitionDiff,
+  SimulatedCall,
+  SimulationResult,
+} from './types/simulation-result';
 
 // To disable "WARNING: Multiple definitions for addr" that is triggered by ENS Registry
 const { Logger } = utils;
@@ -25,6 +43,7 @@ Logger.setLogLevel(Logger.levels.ERROR);
 export { DomainReader };
 export { DomainTransactionFactory };
 export { DomainTransactionFactoryV2 };
+export { DomainRegistryTransactionFactory };
 export {
   IOrganizationDefinition,
   IAppDefinition,
@@ -37,11 +56,55 @@ export {
   IRevokerDefinition,
 };
 export { EncodedCall };
+export { DomainReadError, DomainReadResult };
+export { DomainTreeNode };
+export { RoleDefinitionVersion };
+export { NetworkConfig };
+export { NetworkRegistry } from './network-registry';
+export { DomainMigration, RevokerPolicy };
+export { DomainChangeEvent, DomainChangeType };
+export { DefinitionDiff, SimulatedCall, SimulationResult };
+export { simulate } from './domain-transaction-simulation';
+export { migrateToResolverV2, revokerSameAsIssuer } from './domain-migration';
 export * from './chain-constants';
 export { PRINCIPAL_THRESHOLD, WITHDRAW_DELAY } from './constants';
 export { ResolverContractType };
+export { AuthorityType };
 export { DomainHierarchy };
+export { DomainWatcher };
 export { RoleDefinitionResolverV2 } from '../ethers/RoleDefinitionResolverV2';
 export { RoleDefinitionResolverV2__factory } from '../ethers/factories/RoleDefinitionResolverV2__factory';
 export { RoleCredentialSubject, IssuerFields };
+export { DID } from './types/did';
+export {
+  EXTERNAL_DID_METHODS,
+  ExternalAuthorities,
+} from './external-authorities';
 export * from './errors';
+export {
+  RoleDefinitionValidationError,
+  validateRoleDefinition,
+  validateRoleDefinitionV2,
+} from './role-definition-validation';
+export {
+  RoleDefinitionChange,
+  diffRoleDefinitions,
+} from './role-definition-diff';
+export {
+  FieldValidationError,
+  validateFieldValues,
+  validateIssuerFields,
+  validateRequestorFields,
+} from './field-validation';
+export { CredentialSchema, JsonSchema };
+export {
+  JSON_SCHEMA_CREDENTIAL_TYPE,
+  JSON_SCHEMA_DIALECT,
+  RoleSchemaGenerator,
+  fieldJsonSchema,
+  fieldsJsonSchema,
+  issuerFieldsJsonSchema,
+  roleCredentialSubjectJsonSchema,
+} from './role-json-schema';
+export { DomainCache, LruDomainCache } from './cache';
+export { DomainIndexStore, InMemoryDomainIndexStore } from './domain-index';
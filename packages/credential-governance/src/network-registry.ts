@@ -0,0 +1,66 @@
+import { ChainIsNotSupported } from './errors/chain-is-not-supported';
+import { NetworkConfig } from './types/network-config';
+
+/**
+ * Registry of the contract addresses of the supported chains.
+ * Private and test chains can be registered at runtime
+ *
+ * ```typescript
+ * networkRegistry.register({
+ *   chainId: 1337,
+ *   chainName: 'volta',
+ *   ensRegistryAddress,
+ *   resolverV2Address,
+ * });
+ * const { ensRegistryAddress } = networkRegistry.get(1337);
+ * ```
+ */
+export class NetworkRegistry {
+  private readonly _networks = new Map<number, NetworkConfig>();
+
+  constructor(networks: NetworkConfig[] = []) {
+    networks.forEach((network) => this.register(network));
+  }
+
+  /**
+   * Registers network. Addresses of already registered network are overridden by the defined addresses of `network`
+   * @param network chain id, name and contract addresses of network
+   */
+  public register(network: NetworkConfig): void {
+    const definedAddresses = Object.fromEntries(
+      Object.entries(network).filter(([, value]) => value !== undefined)
+    );
+    this._networks.set(network.chainId, {
+      ...this._networks.get(network.chainId),
+      ...definedAddresses,
+    } as NetworkConfig);
+  }
+
+  /**
+   * @param chainId id of the chain
+   * @returns Configuration of the network or undefined if network is not registered
+   */
+  public find(chainId: number): NetworkConfig | undefined {
+    return this._networks.get(chainId);
+  }
+
+  /**
+   * @param chainId id of the chain
+   * @returns Configuration of the network
+   * @throws {ChainIsNotSupported} if network is not registered
+   */
+  public get(chainId: number): NetworkConfig {
+    const network = this.find(chainId);
+    if (!network) {
+      throw new ChainIsNotSupported(chainId);
+    }
+    return network;
+  }
+
+  /**
+   * @returns Configurations of all registered networks
+   */
+  public list(): NetworkConfig[] {
+    return [...this._networks.values()];
+  }
+}
@@ -0,0 +1,135 @@
+import {
+  IIssuerDefinition,
+  IRevokerDefinition,
+  IRoleDefinitionV2,
+  PreconditionType,
+} from './types/domain-definitions';
+import { DID } from './types/did';
+
+/**
+ * Change of a role definition property
+ */
+export interface RoleDefinitionChange {
+  property: keyof IRoleDefinitionV2;
+  before: unknown;
+  after: unknown;
+}
+
+/** Properties of role definition which are stored in `metadata` text */
+export const ROLE_DEFINITION_TEXT_PROPS = [
+  'roleName',
+  'roleType',
+  'requestorFields',
+  'issuerFields',
+  'metadata',
+  'defaultValidityPeriod',
+] as const;
+
+/**
+ * Properties which change requirements of role issuance. Version of role definition
+ * is incremented when any of them changes
+ */
+export const ROLE_DEFINITION_SEMANTIC_PROPS = [
+  'issuer',
+  'revoker',
+  'requestorFields',
+  'issuerFields',
+  'enrolmentPreconditions',
+] as const;
+
+/**
+ * Compares role definitions the way they are stored on-chain. DIDs are compared by their addresses,
+ * issuer and revoker types regardless of their case and enrolment preconditions by their role conditions
+ *
+ * ```typescript
+ * const changes = diffRoleDefinitions(current, { ...current, roleType: 'device' });
+ * // [{ property: 'roleType', before: 'user', after: 'device' }]
+ * ```
+ *
+ * @param current definition which is currently stored
+ * @param next definition which replaces `current`
+ * @returns The changed properties
+ */
+export function diffRoleDefinitions(
+  current: IRoleDefinitionV2,
+  next: IRoleDefinitionV2
+): RoleDefinitionChange[] {
+  const normalized = (
+    definition: IRoleDefinitionV2,
+    property: keyof IRoleDefinitionV2
+  ) => {
+    switch (property) {
+      case 'issuer':
+        return normalizeAuthority(
+          definition.issuer?.issuerType,
+          definition.issuer
+        );
+      case 'revoker':
+        return normalizeAuthority(
+          definition.revoker?.revokerType,
+          definition.revoker
+        );
+      case 'enrolmentPreconditions':
+        return normalizePreconditions(definition.enrolmentPreconditions);
+      default:
+        return definition[property];
+    }
+  };
+  const properties: (keyof IRoleDefinitionV2)[] = [
+    'version',
+    'issuer',
+    'revoker',
+    'enrolmentPreconditions',
+    ...ROLE_DEFINITION_TEXT_PROPS,
+  ];
+  return properties
+    .filter(
+      (property) =>
+        JSON.stringify(normalized(current, property)) !==
+        JSON.stringify(normalized(next, property))
+    )
+    .map((property) => ({
+      property,
+      before: current[property],
+      after: next[property],
+    }));
+}
+
+function normalizeAuthority(
+  authorityType: string | undefined,
+  authority: IIssuerDefinition | IRevokerDefinition | undefined
+) {
+  const type = authorityType?.toUpperCase();
+  const dids = authority?.did?.map((did) => {
+    try {
+      const { method, id } = new DID(did);
+      return method === 'ethr' ? id.toLowerCase() : `did:${method}:${id}`;
+    } catch {
+      // Malformed DID of stored definition is compared as is
+      return did;
+    }
+  });
+  switch (type) {
+    case 'DID':
+      return { type, dids };
+    case 'ANY_OF_ROLES':
+    case 'ALL_OF_ROLES':
+      return { type, roleNames: authority?.roleNames };
+    case 'DID_OR_ROLE':
+      return { type, dids, roleName: authority?.roleName };
+    default:
+      return { type, roleName: authority?.roleName };
+  }
+}
+
+function normalizePreconditions(
+  preconditions: IRoleDefinitionV2['enrolmentPreconditions'] | undefined
+) {
+  const [roleCondition] = (preconditions ?? []).filter(
+    ({ type }) => type === PreconditionType.Role
+  );
+  return {
+    roles: roleCondition?.conditions ?? [],
+    mustHaveAll: roleCondition?.mustHaveAll ?? false,
+  };
+}
@@ -0,0 +1,341 @@
+import { utils } from 'ethers';
+import {
+  IFieldDefinition,
+  IIssuerDefinition,
+  IRevokerDefinition,
+  IRoleDefinition,
+  IRoleDefinitionV2,
+  PreconditionType,
+} from './types/domain-definitions';
+import { DID } from './types/did';
+import { EXTERNAL_DID_METHODS, isEthrDid } from './external-authorities';
+
+/**
+ * Violation of a role definition constraint
+ */
+export interface RoleDefinitionValidationError {
+  // Path to the invalid property, e.g. `issuer.did[0]`
+  path: string;
+  message: string;
+}
+
+const NAMESPACE_REGEX = /^[^\s.]+(\.[^\s.]+)*$/;
+
+/**
+ * Checks that role definition can be encoded to a meaningful on-chain definition
+ * @param definition role definition to validate
+ * @returns The violated constraints. Empty if the definition is valid
+ */
+export function validateRoleDefinition(
+  definition: IRoleDefinition
+): RoleDefinitionValidationError[] {
+  const errors: RoleDefinitionValidationError[] = [];
+  if (typeof definition.roleName !== 'string' || !definition.roleName) {
+    errors.push({ path: 'roleName', message: 'should be a non-empty string' });
+  }
+  if (typeof definition.roleType !== 'string') {
+    errors.push({ path: 'roleType', message: 'should be a string' });
+  }
+  if (!Number.isInteger(definition.version) || definition.version < 0) {
+    errors.push({
+      path: 'version',
+      message: 'should be a non-negative integer',
+    });
+  }
+  if (!definition.issuer) {
+    errors.push({ path: 'issuer', message: 'is required' });
+  } else {
+    errors.push(
+      ...validateAuthority('issuer', {
+        type: definition.issuer.issuerType,
+        did: definition.issuer.did,
+        roleName: definition.issuer.roleName,
+        roleNames: definition.issuer.roleNames,
+      })
+    );
+  }
+  errors.push(...validatePreconditions(definition.enrolmentPreconditions));
+  errors.push(...validateFields('requestorFields', definition.requestorFields));
+  errors.push(...validateFields('issuerFields', definition.issuerFields));
+  return errors;
+}
+
+/**
+ * Checks that role definition with revoker can be encoded to a meaningful on-chain definition
+ * @param definition role definition to validate
+ * @returns The violated constraints. Empty if the definition is valid
+ */
+export function validateRoleDefinitionV2(
+  definition: IRoleDefinitionV2
+): RoleDefinitionValidationError[] {
+  const errors = validateRoleDefinition(definition);
+  if (!definition.revoker) {
+    errors.push({ path: 'revoker', message: 'is required' });
+  } else {
+    errors.push(
+      ...validateAuthority('revoker', {
+        type: definition.revoker.revokerType,
+        did: definition.revoker.did,
+        roleName: definition.revoker.roleName,
+        roleNames: definition.revoker.roleNames,
+      })
+    );
+  }
+  const { defaultValidityPeriod } = definition;
+  if (
+    defaultValidityPeriod !== undefined &&
+    defaultValidityPeriod !== null &&
+    !(Number.isInteger(defaultValidityPeriod) && defaultValidityPeriod > 0)
+  ) {
+    errors.push({
+      path: 'defaultValidityPeriod',
+      message: 'should be a positive integer',
+    });
+  }
+  return errors;
+}
+
+/**
+ * Checks that DID is either an ethr DID whose id is an address, which is how DIDs are stored in resolver contracts,
+ * or a DID of the external methods, which are stored in the text record
+ */
+function isValidDid(did: string): boolean {
+  try {
+    const { method, id } = new DID(did);
+    return method === 'ethr'
+      ? utils.isAddress(id)
+      : EXTERNAL_DID_METHODS.includes(method);
+  } catch {
+    return false;
+  }
+}
+
+function isValidNamespace(namespace: unknown): boolean {
+  return typeof namespace === 'string' && NAMESPACE_REGEX.test(namespace);
+}
+
+function validateAuthority(
+  path: 'issuer' | 'revoker',
+  {
+    type,
+    did,
+    roleName,
+    roleNames,
+  }: {
+    type: IIssuerDefinition['issuerType'] | IRevokerDefinition['revokerType'];
+    did?: string[];
+    roleName?: string;
+    roleNames?: string[];
+  }
+): RoleDefinitionValidationError[] {
+  // Role without issuers or revokers is read by `DomainReader` as empty definition
+  if (type === undefined && !did?.length && !roleName && !roleNames?.length) {
+    return [];
+  }
+  const errors: RoleDefinitionValidationError[] = [];
+  const typePath = `${path}.${path}Type`;
+  const authorityType = type?.toUpperCase();
+  const validateDids = () => {
+    if (!Array.isArray(did)) {
+      errors.push({
+        path: `${path}.did`,
+        message: `is required when ${typePath} is ${authorityType}`,
+      });
+    } else {
+      did.forEach((d, i) => {
+        if (!isValidDid(d)) {
+          errors.push({
+            path: `${path}.did[${i}]`,
+            message: `${d} is not a valid ethr, key or web DID`,
+          });
+        }
+      });
+    }
+  };
+  const validateRoleName = () => {
+    if (!isValidNamespace(roleName)) {
+      errors.push({
+        path: `${path}.roleName`,
+        message: `should be a valid namespace when ${typePath} is ${authorityType}`,
+      });
+    }
+  };
+  const forbid = (property: 'did' | 'roleName' | 'roleNames') => {
+    const value = { did, roleName, roleNames }[property];
+    if (Array.isArray(value) ? value.length : value) {
+      errors.push({
+        path: `${path}.${property}`,
+        message: `should not be set when ${typePath} is ${authorityType}`,
+      });
+    }
+  };
+  if (authorityType === 'DID') {
+    validateDids();
+    forbid('roleName');
+    forbid('roleNames');
+  } else if (authorityType === 'ROLE') {
+    validateRoleName();
+    forbid('did');
+    forbid('roleNames');
+  } else if (
+    authorityType === 'ANY_OF_ROLES' ||
+    authorityType === 'ALL_OF_ROLES'
+  ) {
+    if (!Array.isArray(roleNames) || roleNames.length === 0) {
+      errors.push({
+        path: `${path}.roleNames`,
+        message: `should be a non-empty array when ${typePath} is ${authorityType}`,
+      });
+    } else {
+      roleNames.forEach((name, i) => {
+        if (!isValidNamespace(name)) {
+          errors.push({
+            path: `${path}.roleNames[${i}]`,
+            message: `${name} is not a valid namespace`,
+          });
+        }
+      });
+      // ClaimManager verifies a single role stored in resolver contract
+      if (roleNames.length > 1) {
+        errors.push({
+          path: `${path}.roleNames`,
+          message: `should have a single role when ${typePath} is ${authorityType}, because only one role can be stored on chain`,
+        });
+      }
+    }
+    forbid('did');
+    forbid('roleName');
+  } else if (authorityType === 'DID_OR_ROLE') {
+    validateDids();
+    validateRoleName();
+    forbid('roleNames');
+    // ClaimManager verifies either ethr DIDs or a role stored in resolver contract
+    if (Array.isArray(did) && did.some(isEthrDid)) {
+      errors.push({
+        path: `${path}.did`,
+        message: `should not have ethr DIDs when ${typePath} is ${authorityType}, because ethr DIDs and role can not be stored on chain together`,
+      });
+    }
+  } else {
+    errors.push({
+      path: typePath,
+      message: `${type} is not supported, should be DID, ROLE, ANY_OF_ROLES, ALL_OF_ROLES or DID_OR_ROLE`,
+    });
+  }
+  return errors;
+}
+
+function validatePreconditions(
+  preconditions: IRoleDefinition['enrolmentPreconditions']
+): RoleDefinitionValidationError[] {
+  if (preconditions === undefined) {
+    return [];
+  }
+  if (!Array.isArray(preconditions)) {
+    return [{ path: 'enrolmentPreconditions', message: 'should be an array' }];
+  }
+  const errors: RoleDefinitionValidationError[] = [];
+  const preconditionTypes: string[] = Object.values(PreconditionType);
+  preconditions.forEach(({ type, conditions }, i) => {
+    const path = `enrolmentPreconditions[${i}]`;
+    if (!preconditionTypes.includes(type)) {
+      errors.push({
+        path: `${path}.type`,
+        message: `${type} is not a known precondition type`,
+      });
+    }
+    if (!Array.isArray(conditions)) {
+      errors.push({
+        path: `${path}.conditions`,
+        message: 'should be an array',
+      });
+      return;
+    }
+    conditions.forEach((condition, j) => {
+      if (!isValidNamespace(condition)) {
+        errors.push({
+          path: `${path}.conditions[${j}]`,
+          message: `${condition} is not a valid namespace`,
+        });
+      }
+    });
+  });
+  const roleConditions = preconditions.filter(
+    ({ type }) => type === PreconditionType.Role
+  );
+  if (roleConditions.length > 1) {
+    errors.push({
+      path: 'enrolmentPreconditions',
+      message: 'should contain only one set of role preconditions',
+    });
+  }
+  return errors;
+}
+
+function validateFields(
+  path: 'requestorFields' | 'issuerFields',
+  fields?: IFieldDefinition[]
+): RoleDefinitionValidationError[] {
+  if (fields === undefined) {
+    return [];
+  }
+  if (!Array.isArray(fields)) {
+    return [{ path, message: 'should be an array' }];
+  }
+  const errors: RoleDefinitionValidationError[] = [];
+  fields.forEach((field, i) => {
+    const fieldPath = `${path}[${i}]`;
+    const error = (property: string, message: string) =>
+      errors.push({ path: `${fieldPath}.${property}`, message });
+    if (typeof field.fieldType !== 'string' || !field.fieldType) {
+      error('fieldType', 'should be a non-empty string');
+    }
+    if (typeof field.label !== 'string' || !field.label) {
+      error('label', 'should be a non-empty string');
+    }
+    (['minLength', 'maxLength'] as const).forEach((property) => {
+      const length = field[property];
+      if (
+        length !== undefined &&
+        !(Number.isInteger(length) && (length as number) >= 0)
+      ) {
+        error(property, 'should be a non-negative integer');
+      }
+    });
+    if (
+      field.minLength !== undefined &&
+      field.maxLength !== undefined &&
+      field.minLength > field.maxLength
+    ) {
+      error('minLength', 'should not be greater than maxLength');
+    }
+    if (
+      field.minValue !== undefined &&
+      field.maxValue !== undefined &&
+      field.minValue > field.maxValue
+    ) {
+      error('minValue', 'should not be greater than maxValue');
+    }
+    (['minDate', 'maxDate'] as const).forEach((property) => {
+      const date = field[property];
+      if (date !== undefined && isNaN(new Date(date).getTime())) {
+        error(property, 'should be a valid date');
+      }
+    });
+    if (
+      field.minDate !== undefined &&
+      field.maxDate !== undefined &&
+      new Date(field.minDate).getTime() > new Date(field.maxDate).getTime()
+    ) {
+      error('minDate', 'should not be later than maxDate');
+    }
+    if (field.pattern !== undefined) {
+      try {
+        new RegExp(field.pattern);
+      } catch {
+        error('pattern', `${field.pattern} is not a valid regular expression`);
+      }
+    }
+  });
+  return errors;
+}
@@ -0,0 +1,276 @@
+import { utils } from 'ethers';
+import { DomainReader } from './domain-reader';
+import { NotRoleDomain } from './errors';
+import {
+  IFieldDefinition,
+  IRoleDefinition,
+  IRoleDefinitionV2,
+} from './types/domain-definitions';
+import { CredentialSchema, JsonSchema } from './types/json-schema';
+
+const { namehash } = utils;
+
+export const JSON_SCHEMA_DIALECT =
+  'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * Type of `credentialSchema` of credentials whose data is described by JSON Schema
+ */
+export const JSON_SCHEMA_CREDENTIAL_TYPE = 'JsonSchema';
+
+const toDateString = (date: Date | string) =>
+  new Date(date).toISOString().slice(0, 10);
+
+/**
+ * Converts field definition to JSON Schema of the field value.
+ * Date range is described by `formatMinimum` and `formatMaximum`, which are not part of the draft 2020-12 vocabulary,
+ * but are supported by the most of the validators, e.g. `ajv-formats`
+ * @param definition field definition
+ * @returns JSON Schema of the field value
+ */
+export function fieldJsonSchema(definition: IFieldDefinition): JsonSchema {
+  const {
+    label,
+    minLength,
+    maxLength,
+    pattern,
+    minValue,
+    maxValue,
+    minDate,
+    maxDate,
+  } = definition;
+  const schema: JsonSchema = { title: label };
+  switch (definition.fieldType?.toLowerCase()) {
+    case 'text':
+      schema.type = 'string';
+      break;
+    case 'number':
+      schema.type = 'number';
+      break;
+    case 'boolean':
+      schema.type = 'boolean';
+      break;
+    case 'json':
+      schema.contentMediaType = 'application/json';
+      break;
+    case 'date':
+      schema.type = 'string';
+      schema.format = 'date';
+      if (minDate !== undefined) {
+        schema.formatMinimum = toDateString(minDate);
+      }
+      if (maxDate !== undefined) {
+        schema.formatMaximum = toDateString(maxDate);
+      }
+      break;
+  }
+  return {
+    ...schema,
+    ...(minLength !== undefined ? { minLength } : {}),
+    ...(maxLength !== undefined ? { maxLength } : {}),
+    ...(pattern !== undefined ? { pattern } : {}),
+    ...(minValue !== undefined ? { minimum: minValue } : {}),
+    ...(maxValue !== undefined ? { maximum: maxValue } : {}),
+  };
+}
+
+/**
+ * Converts field definitions to JSON Schema of the object whose properties are values of the fields by their labels,
+ * as they are entered in enrolment form or passed in `ClaimData.fields`
+ * @param fields `requestorFields` or `issuerFields` of role definition
+ * @returns JSON Schema of the fields
+ */
+export function fieldsJsonSchema(fields: IFieldDefinition[] = []): JsonSchema {
+  const required = fields.filter((f) => f.required).map(({ label }) => label);
+  return {
+    type: 'object',
+    properties: Object.fromEntries(
+      fields.map((field) => [field.label, fieldJsonSchema(field)])
+    ),
+    ...(required.length > 0 ? { required } : {}),
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Converts field definitions to JSON Schema of `issuerFields` of role credential subject, which is the list of
+ * `{ key, value }` pairs
+ * @param fields `issuerFields` of role definition
+ * @returns JSON Schema of issuer fields
+ */
+export function issuerFieldsJsonSchema(
+  fields: IFieldDefinition[] = []
+): JsonSchema {
+  const required = fields.filter((f) => f.required).map(({ label }) => label);
+  return {
+    type: 'array',
+    items:
+      fields.length > 0
+        ? {
+            anyOf: fields.map((field) => ({
+              type: 'object',
+              properties: {
+                key: { const: field.label },
+                value: fieldJsonSchema(field),
+              },
+              required: ['key', 'value'],
+            })),
+          }
+        : false,
+    ...(required.length > 0
+      ? {
+          allOf: required.map((label) => ({
+            contains: {
+              properties: { key: { const: label } },
+              required: ['key'],
+            },
+          })),
+        }
+      : {}),
+  };
+}
+
+/**
+ * Converts role definition to JSON Schema of the subject of role credential
+ * @param namespace namespace of the role
+ * @param definition role definition
+ * @returns JSON Schema of `RoleCredentialSubject`
+ */
+export function roleCredentialSubjectJsonSchema(
+  namespace: string,
+  definition: IRoleDefinition | IRoleDefinitionV2
+): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      role: {
+        type: 'object',
+        properties: {
+          namespace: { const: namespace },
+          version: { type: 'string' },
+        },
+        required: ['namespace', 'version'],
+      },
+      issuerFields: issuerFieldsJsonSchema(definition.issuerFields),
+    },
+    required: ['id', 'role', 'issuerFields'],
+  };
+}
+
+/**
+ * Generates JSON Schema documents of roles read by `DomainReader`. Schemas are identified by URLs under `schemaBaseUrl`
+ * which include the version of role definition, so the credentials keep referencing the schema they were issued with
+ *
+ * ```typescript
+ * const generator = new RoleSchemaGenerator({
+ *   domainReader,
+ *   schemaBaseUrl: 'https://schemas.example.com/roles',
+ * });
+ * const credentialSchema = await generator.credentialSchema('installer.roles.myorg.iam.ewc');
+ * // { id: 'https://schemas.example.com/roles/installer.roles.myorg.iam.ewc/v1/credential.json', type: 'JsonSchema' }
+ * ```
+ */
+export class RoleSchemaGenerator {
+  protected readonly _domainReader: DomainReader;
+  protected readonly _schemaBaseUrl: string;
+
+  /**
+   * @param domainReader reader of role definitions
+   * @param schemaBaseUrl URL under which the schemas are published
+   */
+  constructor({
+    domainReader,
+    schemaBaseUrl,
+  }: {
+    domainReader: DomainReader;
+    schemaBaseUrl: string;
+  }) {
+    this._domainReader = domainReader;
+    this._schemaBaseUrl = schemaBaseUrl.replace(/\/+$/, '');
+  }
+
+  /**
+   * @param namespace namespace of the role
+   * @returns JSON Schema of the fields entered by the requestor of the role
+   */
+  public async requestorFieldsSchema(namespace: string): Promise<JsonSchema> {
+    const definition = await this.readRole(namespace);
+    return {
+      $schema: JSON_SCHEMA_DIALECT,
+      $id: this.schemaId(namespace, definition, 'requestor-fields'),
+      title: `${definition.roleName} requestor fields`,
+      ...fieldsJsonSchema(definition.requestorFields),
+    };
+  }
+
+  /**
+   * @param namespace namespace of the role
+   * @returns JSON Schema of the fields entered by the issuer of the role
+   */
+  public async issuerFieldsSchema(namespace: string): Promise<JsonSchema> {
+    const definition = await this.readRole(namespace);
+    return {
+      $schema: JSON_SCHEMA_DIALECT,
+      $id: this.schemaId(namespace, definition, 'issuer-fields'),
+      title: `${definition.roleName} issuer fields`,
+      ...fieldsJsonSchema(definition.issuerFields),
+    };
+  }
+
+  /**
+   * @param namespace namespace of the role
+   * @returns JSON Schema of verifiable credential of the role
+   */
+  public async credentialJsonSchema(namespace: string): Promise<JsonSchema> {
+    const definition = await this.readRole(namespace);
+    return {
+      $schema: JSON_SCHEMA_DIALECT,
+      $id: this.schemaId(namespace, definition, 'credential'),
+      title: `${definition.roleName} credential`,
+      type: 'object',
+      properties: {
+        credentialSubject: roleCredentialSubjectJsonSchema(
+          namespace,
+          definition
+        ),
+      },
+      required: ['credentialSubject'],
+    };
+  }
+
+  /**
+   * @param namespace namespace of the role
+   * @returns `credentialSchema` entry of verifiable credential of the role, referencing `credentialJsonSchema`
+   */
+  public async credentialSchema(namespace: string): Promise<CredentialSchema> {
+    const definition = await this.readRole(namespace);
+    return {
+      id: this.schemaId(namespace, definition, 'credential'),
+      type: JSON_SCHEMA_CREDENTIAL_TYPE,
+    };
+  }
+
+  protected schemaId(
+    namespace: string,
+    definition: IRoleDefinition | IRoleDefinitionV2,
+    schema: string
+  ): string {
+    return `${this._schemaBaseUrl}/${namespace}/v${definition.version}/${schema}.json`;
+  }
+
+  protected async readRole(
+    namespace: string
+  ): Promise<IRoleDefinition | IRoleDefinitionV2> {
+    const definition = await this._domainReader.read({
+      node: namehash(namespace),
+    });
+    if (
+      !DomainReader.isRoleDefinition(definition) &&
+      !DomainReader.isRoleDefinitionV2(definition)
+    ) {
+      throw new NotRoleDomain(namespace);
+    }
+    return definition;
+  }
+}
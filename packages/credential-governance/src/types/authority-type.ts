@@ -0,0 +1,11 @@
+/**
+ * Issuer and revoker types as they are stored in resolver contract.
+ * Types of resolver contract also reserve `10` for real-time approval by smart contract
+ */
+export enum AuthorityType {
+  // Approval by identity from the list of DIDs or by holder of the role
+  Identity = 0,
+  AnyOfRoles = 1,
+  AllOfRoles = 2,
+  DidOrRole = 3,
+}
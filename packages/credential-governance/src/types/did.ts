@@ -1,5 +1,25 @@
+import { utils } from 'ethers';
+import { networkRegistry } from '../chain-constants';
+import { InvalidDID, InvalidDIDChecksum } from '../errors';
+import { NetworkRegistry } from '../network-registry';
+
+const ETHR_METHOD = 'ethr';
+
+/**
+ * DID URL syntax: "did:" method-name ":" method-specific-id path-abempty [ "?" query ] [ "#" fragment ]
+ */
+const DID_URL_REGEX =
+  /^did:([a-z0-9]+):((?:(?:[a-zA-Z0-9._-]|%[0-9a-fA-F]{2})*:)*(?:[a-zA-Z0-9._-]|%[0-9a-fA-F]{2})+)(\/[^?#]*)?(?:\?([^#]*))?(?:#(.*))?$/;
+
 /**
- * A value object representing a W3C DID
+ * Id of ethr DID is either an address or a compressed public key
+ */
+const ETHR_ID_REGEX = /^0x(?:[0-9a-fA-F]{40}|[0-9a-fA-F]{66})$/;
+
+const ETHR_ADDRESS_REGEX = /^0x[0-9a-fA-F]{40}$/;
+
+/**
+ * A value object representing a W3C DID or DID URL
  * https://www.w3.org/TR/did-core/#did-syntax
  */
 export class DID {
@@ -10,36 +30,193 @@ export class DID {
 
   readonly method: 'ethr' | string;
 
+  /**
+   * Method specific id. For ethr DID this is the address or public key without chain
+   */
   readonly id: string;
 
+  /**
+   * Chain of ethr DID, either the name of the network or hex chain id
+   */
   readonly chain?: string;
 
-  constructor(did: string) {
-    const idParts = did.split(':');
-    if (idParts.length < 3) {
-      throw new Error('DID should consists of at least 3 components');
-    }
-
-    let didMethod: string;
-    let didChain: string | undefined;
-    let didId: string;
-
-    // Back compatibility with old format
-    if (idParts.length === 3) {
-      didMethod = idParts[1];
-      didChain = undefined;
-      didId = idParts[2];
-    } else if (idParts.length === 4) {
-      didMethod = idParts[1];
-      didChain = idParts[2];
-      didId = idParts[3];
-    } else {
-      throw new Error('Unsupported DID format');
-    }
-
-    this.did = did;
-    this.method = didMethod;
-    this.id = didId;
-    this.chain = didChain;
+  readonly path?: string;
+
+  readonly query?: string;
+
+  readonly fragment?: string;
+
+  /**
+   * @param did DID or DID URL
+   * @param strict whether id of ethr DID is verified to be an address with valid checksum or a public key
+   * @throws {InvalidDID} if `did` does not conform to DID syntax or, in strict mode, id of ethr DID is neither address nor public key
+   * @throws {InvalidDIDChecksum} if, in strict mode, address of ethr DID has invalid checksum
+   */
+  constructor(did: string, { strict = false }: { strict?: boolean } = {}) {
+    const match = DID_URL_REGEX.exec(did);
+    if (!match) {
+      throw new InvalidDID(did, 'does not conform to DID syntax');
+    }
+    const [, method, methodSpecificId, path, query, fragment] = match;
+
+    let chain: string | undefined;
+    let id = methodSpecificId;
+    if (method === ETHR_METHOD) {
+      const idParts = methodSpecificId.split(':');
+      // Back compatibility with old format without chain
+      if (idParts.length === 1) {
+        [id] = idParts;
+      } else if (idParts.length === 2) {
+        [chain, id] = idParts;
+      } else {
+        throw new InvalidDID(did, 'ethr DID should have at most one chain');
+      }
+      if (strict && !ETHR_ID_REGEX.test(id)) {
+        throw new InvalidDID(
+          did,
+          'ethr DID id should be address or public key'
+        );
+      }
+      if (strict && ETHR_ADDRESS_REGEX.test(id)) {
+        try {
+          utils.getAddress(id);
+        } catch {
+          throw new InvalidDIDChecksum(did);
+        }
+      }
+    }
+
+    this.did = `did:${method}:${methodSpecificId}`;
+    this.method = method;
+    this.id = id;
+    this.chain = chain;
+    this.path = path;
+    this.query = query;
+    this.fragment = fragment;
+  }
+
+  /**
+   * Compares DIDs which do not have to conform to DID syntax. Malformed DID is not equal to any DID
+   * @param matchChain whether ethr DIDs on different chains are not equal. By default ethr DIDs are compared by address
+   * @param registry registry of the networks
+   * @returns true if both DIDs conform to DID syntax and are equal
+   */
+  static equals(
+    did: string | DID,
+    other: string | DID,
+    options: { matchChain?: boolean; registry?: NetworkRegistry } = {}
+  ): boolean {
+    try {
+      return DID.from(did).equals(DID.from(other), options);
+    } catch (e) {
+      if (e instanceof InvalidDID) {
+        return false;
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * @throws {InvalidDID} if `did` is string which does not conform to DID syntax
+   */
+  static from(did: string | DID): DID {
+    return did instanceof DID ? did : new DID(did);
+  }
+
+  /**
+   * Checksummed address of ethr DID whose id is an address
+   */
+  get address(): string | undefined {
+    return this.method === ETHR_METHOD && ETHR_ADDRESS_REGEX.test(this.id)
+      ? utils.getAddress(this.id.toLowerCase())
+      : undefined;
+  }
+
+  /**
+   * Name of the network of ethr DID. Chain id of not registered network is returned as hex string
+   * @param registry registry of the networks
+   */
+  chainName(registry: NetworkRegistry = networkRegistry): string | undefined {
+    if (this.chain === undefined || !utils.isHexString(this.chain)) {
+      return this.chain?.toLowerCase();
+    }
+    const chainId = Number.parseInt(this.chain, 16);
+    return registry.find(chainId)?.chainName ?? utils.hexValue(chainId);
+  }
+
+  /**
+   * Replaces chain id of ethr DID by the name of its network.
+   *
+   * ```typescript
+   * new DID('did:ethr:0x12047:0x...').normalize().toString(); // did:ethr:volta:0x...
+   * new DID('did:ethr:0x...').normalize({ defaultChain: 'volta' }).toString(); // did:ethr:volta:0x...
+   * ```
+   *
+   * @param defaultChain chain of ethr DID without chain
+   * @param registry registry of the networks
+   * @returns DID URL with the name of the network
+   */
+  normalize({
+    defaultChain,
+    registry = networkRegistry,
+  }: { defaultChain?: string; registry?: NetworkRegistry } = {}): DID {
+    if (this.method !== ETHR_METHOD) {
+      return this;
+    }
+    const chain = this.chainName(registry) ?? defaultChain;
+    const did = chain
+      ? `did:${this.method}:${chain}:${this.id}`
+      : `did:${this.method}:${this.id}`;
+    return new DID(`${did}${this.urlComponents()}`);
+  }
+
+  /**
+   * Compares DIDs regardless of DID URL components and case of ethr DID id.
+   * ethr DIDs are compared by address unless `matchChain` is set. Then chains are compared regardless of their format
+   * and ethr DID without chain is equal to the same DID on any chain
+   * @param other DID to compare with
+   * @param matchChain whether ethr DIDs on different chains are not equal
+   * @param registry registry of the networks
+   * @returns true if DIDs are equal
+   */
+  equals(
+    other: DID,
+    {
+      matchChain = false,
+      registry = networkRegistry,
+    }: { matchChain?: boolean; registry?: NetworkRegistry } = {}
+  ): boolean {
+    if (this.method !== other.method) {
+      return false;
+    }
+    if (this.method !== ETHR_METHOD) {
+      return this.id === other.id;
+    }
+    if (this.id.toLowerCase() !== other.id.toLowerCase()) {
+      return false;
+    }
+    if (!matchChain) {
+      return true;
+    }
+    const chain = this.chainName(registry);
+    const otherChain = other.chainName(registry);
+    return (
+      chain === undefined || otherChain === undefined || chain === otherChain
+    );
+  }
+
+  /**
+   * @returns DID URL
+   */
+  toString(): string {
+    return `${this.did}${this.urlComponents()}`;
+  }
+
+  private urlComponents(): string {
+    return [
+      this.path ?? '',
+      this.query !== undefined ? `?${this.query}` : '',
+      this.fragment !== undefined ? `#${this.fragment}` : '',
+    ].join('');
   }
 }
@@ -0,0 +1,22 @@
+export enum DomainChangeType {
+  Created = 'created',
+  DefinitionUpdated = 'definitionUpdated',
+  OwnershipTransferred = 'ownershipTransferred',
+  ResolverChanged = 'resolverChanged',
+  Deleted = 'deleted',
+}
+
+/**
+ * Change of a domain observed by `DomainWatcher`
+ */
+export type DomainChangeEvent = {
+  node: string;
+  blockNumber: number;
+  transactionHash: string;
+} & (
+  | { type: DomainChangeType.Created; owner: string; parentNode: string }
+  | { type: DomainChangeType.DefinitionUpdated }
+  | { type: DomainChangeType.OwnershipTransferred; owner: string }
+  | { type: DomainChangeType.ResolverChanged; resolver: string }
+  | { type: DomainChangeType.Deleted }
+);
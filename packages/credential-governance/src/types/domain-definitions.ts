@@ -17,14 +17,24 @@ export interface IOrganizationDefinition {
 export interface IRoleDefinition extends IRoleDefinitionText {
   version: number;
   issuer: IIssuerDefinition;
-  enrolmentPreconditions: { type: PreconditionType; conditions: string[] }[];
+  enrolmentPreconditions: {
+    type: PreconditionType;
+    conditions: string[];
+    // If true, all the conditions must be met to enrol. Otherwise, meeting any of them is sufficient
+    mustHaveAll?: boolean;
+  }[];
 }
 
 export interface IRoleDefinitionV2 extends IRoleDefinitionText {
   version: number;
   issuer: IIssuerDefinition;
   revoker: IRevokerDefinition;
-  enrolmentPreconditions: { type: PreconditionType; conditions: string[] }[];
+  enrolmentPreconditions: {
+    type: PreconditionType;
+    conditions: string[];
+    // If true, all the conditions must be met to enrol. Otherwise, meeting any of them is sufficient
+    mustHaveAll?: boolean;
+  }[];
   // Default time period in milliseconds, after which the role is considered expired. If null or undefined, there is no default expiry
   defaultValidityPeriod?: number;
 }
@@ -53,14 +63,27 @@ export interface IRoleDefinitionText {
   metadata: Record<string, unknown> | Record<string, unknown>[];
 }
 
+/**
+ * Issuer policy of the role. Depending on `issuerType` issuer should be:
+ * - `DID`: one of `did`
+ * - `ROLE`: holder of `roleName`
+ * - `ANY_OF_ROLES`: holder of any of `roleNames`
+ * - `ALL_OF_ROLES`: holder of all of `roleNames`
+ * - `DID_OR_ROLE`: one of `did` or holder of `roleName`
+ */
 export interface IIssuerDefinition {
   issuerType?: string;
   did?: string[];
   roleName?: string;
+  roleNames?: string[];
 }
 
+/**
+ * Revoker policy of the role. `revokerType` has the same meaning as `issuerType` of `IIssuerDefinition`
+ */
 export interface IRevokerDefinition {
   revokerType?: string;
   did?: string[];
   roleName?: string;
+  roleNames?: string[];
 }
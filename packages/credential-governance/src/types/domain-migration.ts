@@ -0,0 +1,19 @@
+import { IRevokerDefinition, IRoleDefinition } from './domain-definitions';
+import { EncodedCall } from './transaction';
+
+/**
+ * Chooses revokers of role definition which is migrated to RoleDefinitionResolverV2
+ */
+export type RevokerPolicy = (
+  roleDefinition: IRoleDefinition
+) => IRevokerDefinition;
+
+/**
+ * Transactions migrating domains to RoleDefinitionResolverV2 and the domains which can not be migrated
+ */
+export interface DomainMigration {
+  // Transactions to be sent in order by the owner of the domains
+  calls: EncodedCall[];
+  migrated: string[];
+  notMigrated: { domain: string; reason: string }[];
+}
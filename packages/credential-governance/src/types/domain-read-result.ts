@@ -0,0 +1,42 @@
+import {
+  DomainResolverNotSet,
+  InvalidDomain,
+  NodeNameMismatch,
+  ResolverNotSupported,
+} from '../errors';
+import {
+  IAppDefinition,
+  IOrganizationDefinition,
+  IRoleDefinition,
+  IRoleDefinitionV2,
+} from './domain-definitions';
+import { ResolverContractType } from './resolver-contract-type';
+
+export type DomainReadError =
+  | DomainResolverNotSet
+  | ResolverNotSupported
+  | InvalidDomain
+  | NodeNameMismatch;
+
+/**
+ * Outcome of reading the definition of a single domain in a bulk read.
+ * `resolverType` is the type of the resolver the definition was read from.
+ * It is undefined if resolver is not set or is not supported, or if definition was taken from cache
+ */
+export type DomainReadResult =
+  | {
+      node: string;
+      definition:
+        | IRoleDefinition
+        | IRoleDefinitionV2
+        | IAppDefinition
+        | IOrganizationDefinition;
+      error?: undefined;
+      resolverType?: ResolverContractType;
+    }
+  | {
+      node: string;
+      definition?: undefined;
+      error: DomainReadError;
+      resolverType?: ResolverContractType;
+    };
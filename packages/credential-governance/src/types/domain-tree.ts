@@ -0,0 +1,20 @@
+import { DomainReadResult } from './domain-read-result';
+import { ResolverContractType } from './resolver-contract-type';
+
+/**
+ * Domain with its subdomains. Subdomains of the `roles`, `apps` and `orgs` metadomains
+ * are grouped under `roles`, `apps` and `orgs` respectively, other subdomains are under `subdomains`
+ */
+export interface DomainTreeNode {
+  name: string;
+  namehash: string;
+  owner: string;
+  // Undefined if resolver is not set or is not supported
+  resolverType?: ResolverContractType;
+  // Undefined if definition can not be read
+  definition?: DomainReadResult['definition'];
+  subdomains: DomainTreeNode[];
+  roles: DomainTreeNode[];
+  apps: DomainTreeNode[];
+  orgs: DomainTreeNode[];
+}
@@ -0,0 +1,14 @@
+/**
+ * JSON Schema document or subschema
+ * https://json-schema.org/draft/2020-12/json-schema-core
+ */
+export type JsonSchema = { [keyword: string]: unknown };
+
+/**
+ * Reference from verifiable credential to the schema of its data
+ * https://www.w3.org/TR/vc-data-model/#data-schemas
+ */
+export interface CredentialSchema {
+  id: string;
+  type: string;
+}
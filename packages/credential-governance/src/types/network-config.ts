@@ -0,0 +1,18 @@
+/**
+ * Addresses of the contracts deployed on a chain
+ */
+export interface NetworkConfig {
+  chainId: number;
+  // Name of the network used in ethr DIDs
+  chainName: string;
+  ensRegistryAddress?: string;
+  publicResolverAddress?: string;
+  resolverV1Address?: string;
+  resolverV2Address?: string;
+  domainNotifierAddress?: string;
+  multicallAddress?: string;
+  claimManagerAddress?: string;
+  claimsRevocationRegistryAddress?: string;
+  didRegistryAddress?: string;
+  identityManagerAddress?: string;
+}
@@ -0,0 +1,11 @@
+import { IRoleDefinition, IRoleDefinitionV2 } from './domain-definitions';
+
+/**
+ * Role definition in force since the block in which it was set
+ */
+export interface RoleDefinitionVersion {
+  definition: IRoleDefinition | IRoleDefinitionV2;
+  blockNumber: number;
+  // Transaction which completed this version of the definition
+  transactionHash: string;
+}
@@ -0,0 +1,35 @@
+import { DomainReadResult } from './domain-read-result';
+
+/**
+ * Decoded resolver function call of a simulated transaction
+ */
+export interface SimulatedCall {
+  method: string;
+  args: Record<string, unknown>;
+  // Undefined if the call does not apply to a domain
+  node?: string;
+  // Undefined if the call does not revert
+  revertReason?: string;
+}
+
+/**
+ * Definition of a domain before and after a simulated transaction
+ */
+export interface DefinitionDiff {
+  node: string;
+  // Undefined if the domain has no definition
+  before?: DomainReadResult['definition'];
+  after?: DomainReadResult['definition'];
+  changes: { property: string; before: unknown; after: unknown }[];
+}
+
+/**
+ * Outcome of simulating a transaction without sending it
+ */
+export interface SimulationResult {
+  success: boolean;
+  // Undefined if the transaction does not revert
+  revertReason?: string;
+  calls: SimulatedCall[];
+  diffs: DefinitionDiff[];
+}
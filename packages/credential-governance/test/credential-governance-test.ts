@@ -19,6 +19,14 @@ import { roleDefinitionResolverTestSuite } from './role-def-resolver-testsuite';
 import { domainCrudTestSuite } from './domain-crud-testsuite';
 import { domainHierarchyTestSuite } from './domain-hierarchy-testsuite';
 import { domainCrudTestSuiteWithRevocation } from './domain-crud-testsuite-v2';
+import { lruDomainCacheTestSuite } from './lru-domain-cache-testsuite';
+import { domainWatcherTestSuite } from './domain-watcher-testsuite';
+import { roleDefinitionValidationTestSuite } from './role-definition-validation-testsuite';
+import { domainMigrationTestSuite } from './domain-migration-testsuite';
+import { networkRegistryTestSuite } from './network-registry-testsuite';
+import { didTestSuite } from './did-testsuite';
+import { fieldValidationTestSuite } from './field-validation-testsuite';
+import { roleJsonSchemaTestSuite } from './role-json-schema-testsuite';
 
 const { JsonRpcProvider } = providers;
 
@@ -72,4 +80,12 @@ describe('[ROLE GOVERNANCE]', function () {
     domainCrudTestSuiteWithRevocation
   );
   describe('DomainHierarchy Test', domainHierarchyTestSuite);
+  describe('LruDomainCache Test', lruDomainCacheTestSuite);
+  describe('DomainWatcher Test', domainWatcherTestSuite);
+  describe('RoleDefinitionValidation Test', roleDefinitionValidationTestSuite);
+  describe('DomainMigration Test', domainMigrationTestSuite);
+  describe('NetworkRegistry Test', networkRegistryTestSuite);
+  describe('DID Test', didTestSuite);
+  describe('FieldValidation Test', fieldValidationTestSuite);
+  describe('RoleJsonSchema Test', roleJsonSchemaTestSuite);
 });
@@ -0,0 +1,173 @@
+import { expect } from 'chai';
+import {
+  DID,
+  InvalidDID,
+  InvalidDIDChecksum,
+  NetworkRegistry,
+  VOLTA_NETWORK,
+} from '../src';
+
+const address = '0x7aA65E31d404A8857BA083f6195757a730b51CFe';
+const voltaDid = `did:ethr:volta:${address}`;
+const voltaHexDid = `did:ethr:0x12047:${address}`;
+
+export function didTestSuite(): void {
+  it('should parse DID', () => {
+    const did = new DID(voltaDid);
+
+    expect(did.did).to.equal(voltaDid);
+    expect(did.method).to.equal('ethr');
+    expect(did.chain).to.equal('volta');
+    expect(did.id).to.equal(address);
+    expect(did.address).to.equal(address);
+  });
+
+  it('should parse DID without chain', () => {
+    const did = new DID(`did:ethr:${address}`);
+
+    expect(did.chain).to.be.undefined;
+    expect(did.id).to.equal(address);
+  });
+
+  it('should parse DID URL', () => {
+    const url = `${voltaDid}/path/to?service=files#controller`;
+    const did = new DID(url);
+
+    expect(did.did).to.equal(voltaDid);
+    expect(did.id).to.equal(address);
+    expect(did.path).to.equal('/path/to');
+    expect(did.query).to.equal('service=files');
+    expect(did.fragment).to.equal('controller');
+    expect(did.toString()).to.equal(url);
+  });
+
+  it('should parse method specific id of other methods', () => {
+    const did = new DID('did:web:example.com:user:alice');
+
+    expect(did.method).to.equal('web');
+    expect(did.id).to.equal('example.com:user:alice');
+    expect(did.chain).to.be.undefined;
+  });
+
+  it('should reject malformed DID', () => {
+    ['ethr:volta:0x7aA6', 'did:ethr', 'did:Ethr:0x7aA6', 'did:ethr:'].forEach(
+      (did) => expect(() => new DID(did)).to.throw(InvalidDID)
+    );
+  });
+
+  it('should reject ethr DID with several chains', () => {
+    expect(() => new DID(`did:ethr:volta:ewc:${address}`)).to.throw(InvalidDID);
+  });
+
+  it('should parse ethr DID which id is not address', () => {
+    const did = new DID('did:ethr:volta:0x7aA6');
+
+    expect(did.id).to.equal('0x7aA6');
+    expect(did.address).to.be.undefined;
+  });
+
+  it('should reject ethr DID which id is not address in strict mode', () => {
+    const strict = true;
+
+    expect(() => new DID('did:ethr:volta:0x7aA6', { strict })).to.throw(
+      InvalidDID
+    );
+  });
+
+  it('should parse ethr DID with invalid address checksum', () => {
+    const invalidChecksum = address.replace('aA', 'Aa');
+    const did = new DID(`did:ethr:volta:${invalidChecksum}`);
+
+    expect(did.id).to.equal(invalidChecksum);
+    expect(did.address).to.equal(address);
+  });
+
+  it('should reject ethr DID with invalid address checksum in strict mode', () => {
+    const invalidChecksum = address.replace('aA', 'Aa');
+    const strict = true;
+
+    expect(
+      () => new DID(`did:ethr:volta:${invalidChecksum}`, { strict })
+    ).to.throw(InvalidDIDChecksum);
+    expect(
+      new DID(`did:ethr:volta:${address.toLowerCase()}`, { strict }).address
+    ).to.equal(address);
+  });
+
+  it('should normalize chain id to chain name', () => {
+    expect(new DID(voltaHexDid).normalize().toString()).to.equal(voltaDid);
+    expect(
+      new DID(`${voltaHexDid}#controller`).normalize().toString()
+    ).to.equal(`${voltaDid}#controller`);
+    expect(new DID(`did:ethr:0x3039:${address}`).normalize().chain).to.equal(
+      '0x3039'
+    );
+  });
+
+  it('should normalize chain with registry', () => {
+    const registry = new NetworkRegistry([
+      { chainId: 12345, chainName: 'test' },
+    ]);
+
+    expect(
+      new DID(`did:ethr:0x3039:${address}`).normalize({ registry }).toString()
+    ).to.equal(`did:ethr:test:${address}`);
+  });
+
+  it('should add default chain to DID without chain', () => {
+    expect(
+      new DID(`did:ethr:${address}`)
+        .normalize({ defaultChain: VOLTA_NETWORK.chainName })
+        .toString()
+    ).to.equal(voltaDid);
+  });
+
+  it('should compare DIDs regardless of case and chain format', () => {
+    expect(DID.equals(voltaDid, voltaHexDid)).to.be.true;
+    expect(DID.equals(voltaDid, `did:ethr:VOLTA:${address.toLowerCase()}`)).to
+      .be.true;
+    expect(DID.equals(voltaDid, `did:ethr:${address}`)).to.be.true;
+    expect(DID.equals(voltaDid, `${voltaDid}#controller`)).to.be.true;
+  });
+
+  it('should compare ethr DIDs by address regardless of chain', () => {
+    expect(DID.equals(voltaDid, `did:ethr:ewc:${address}`)).to.be.true;
+    expect(DID.equals(voltaDid, `did:ethr:0x3039:${address}`)).to.be.true;
+  });
+
+  it('should compare ethr DIDs regardless of address checksum', () => {
+    const invalidChecksum = address.replace('aA', 'Aa');
+
+    expect(DID.equals(voltaDid, `did:ethr:volta:${invalidChecksum}`)).to.be
+      .true;
+  });
+
+  it('should not equal DIDs on different chains when chain is matched', () => {
+    const matchChain = true;
+
+    expect(DID.equals(voltaDid, `did:ethr:ewc:${address}`, { matchChain })).to
+      .be.false;
+    expect(DID.equals(voltaDid, voltaHexDid, { matchChain })).to.be.true;
+    expect(DID.equals(voltaDid, `did:ethr:${address}`, { matchChain })).to.be
+      .true;
+  });
+
+  it('should not equal DIDs of different subjects', () => {
+    expect(
+      DID.equals(
+        voltaDid,
+        'did:ethr:volta:0x0a97e07c4Df22e2e31872F20C5BE191D5EFc4680'
+      )
+    ).to.be.false;
+    expect(DID.equals(voltaDid, 'did:ethr:volta:0x7aA6')).to.be.false;
+  });
+
+  it('should compare DIDs of other methods by method specific id', () => {
+    const keyDid = 'did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK';
+
+    expect(DID.equals(keyDid, `${keyDid}#controller`)).to.be.true;
+    expect(DID.equals(keyDid, keyDid.toLowerCase())).to.be.false;
+    expect(DID.equals('did:web:example.com', 'did:key:example.com')).to.be
+      .false;
+  });
+}
@@ -1,13 +1,16 @@
 import chai from 'chai';
 import chaiAsPromised from 'chai-as-promised';
-import { ContractFactory, utils, providers } from 'ethers';
+import { ContractFactory, constants, utils, providers } from 'ethers';
 import {
   DomainReader,
   DomainTransactionFactoryV2,
+  EncodedCall,
   IAppDefinition,
   IOrganizationDefinition,
   IRoleDefinitionV2,
+  NetworkRegistry,
   ResolverContractType,
+  simulate,
 } from '../src/index';
 import { PreconditionType } from '../src/types/domain-definitions';
 import { ENSRegistry } from '../ethers/ENSRegistry';
@@ -18,10 +21,18 @@ import { RoleDefinitionResolverV2__factory } from '../ethers/factories/RoleDefin
 import { DomainNotifier__factory } from '../ethers/factories/DomainNotifier__factory';
 import { RoleDefinitionResolverV2 } from '../ethers/RoleDefinitionResolverV2';
 import { ENSRegistry__factory } from '../ethers/factories/ENSRegistry__factory';
-import { DomainResolverNotSet, ResolverNotSupported } from '../src/errors';
+import { Multicall__factory } from '../ethers/factories/Multicall__factory';
+import {
+  DomainResolverNotSet,
+  InvalidDomain,
+  InvalidRoleDefinition,
+  NodeNameMismatch,
+  ResolverNotSupported,
+} from '../src/errors';
 
 chai.use(chaiAsPromised);
 const expect = chai.expect;
+const { HashZero } = constants;
 
 export const rpcUrl = `http://localhost:8544`;
 
@@ -63,6 +74,9 @@ const role2: IRoleDefinitionV2 = {
   ],
 };
 
+const keyDid = 'did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK';
+const webDid = 'did:web:example.com';
+
 const getDomainUpdatedLogs = async () => {
   const eventFilter = domainNotifier.filters.DomainUpdated(node2);
   const filter = {
@@ -74,6 +88,24 @@ const getDomainUpdatedLogs = async () => {
   return await provider.getLogs(filter);
 };
 
+/**
+ * Counts the eth_call round trips made by `read`
+ */
+const countCalls = async (read: () => Promise<unknown>): Promise<number> => {
+  const call = provider.call;
+  let calls = 0;
+  provider.call = (...args: Parameters<typeof call>) => {
+    calls++;
+    return call.apply(provider, args);
+  };
+  try {
+    await read();
+  } finally {
+    provider.call = call;
+  }
+  return calls;
+};
+
 let publicResolverFactory: ContractFactory;
 let ensRegistry: ENSRegistry;
 let ensRoleDefResolverV2: RoleDefinitionResolverV2;
@@ -84,6 +116,7 @@ let provider: providers.JsonRpcProvider;
 let chainId: number;
 
 let domainReader: DomainReader;
+let aggregatingDomainReader: DomainReader;
 
 export function domainCrudTestSuiteWithRevocation(): void {
   describe('Domain CRUD tests for RoleDefinitionResolverV2', () => {
@@ -120,6 +153,18 @@ export function domainCrudTestSuiteWithRevocation(): void {
         address: ensPublicResolver.address,
         type: ResolverContractType.PublicResolver,
       });
+      const multicall = await new Multicall__factory(owner).deploy();
+      await multicall.deployed();
+      aggregatingDomainReader = new DomainReader({
+        ensRegistryAddress: ensRegistry.address,
+        provider: owner.provider,
+        multicallAddress: multicall.address,
+      });
+      aggregatingDomainReader.addKnownResolver({
+        chainId,
+        address: ensRoleDefResolverV2.address,
+        type: ResolverContractType.RoleDefinitionResolver_v2,
+      });
 
       const rootNameHash =
         '0x0000000000000000000000000000000000000000000000000000000000000000';
@@ -131,6 +176,711 @@ export function domainCrudTestSuiteWithRevocation(): void {
       expect(await ensRegistry.owner(node2)).to.equal(await owner.getAddress());
     });
 
+    describe('Domain transactions can be simulated', () => {
+      let call: EncodedCall;
+
+      beforeEach(async () => {
+        await ensRegistry.setResolver(node2, ensRoleDefResolverV2.address);
+        call = new DomainTransactionFactoryV2({
+          domainResolverAddress: ensRoleDefResolverV2.address,
+        }).newRole({ domain: domain2, roleDefinition: role2 });
+      });
+
+      it('new role definition is simulated', async () => {
+        const { success, calls, diffs } = await simulate({
+          call,
+          from: await owner.getAddress(),
+          provider,
+          domainReader,
+        });
+
+        expect(success).to.be.true;
+        expect(calls.map(({ method }) => method)).to.include.members([
+          'setName',
+          'setVersionNumber',
+          'setIssuerDids',
+          'setText',
+          'domainUpdated',
+        ]);
+        expect(calls.every(({ revertReason }) => !revertReason)).to.be.true;
+        expect(diffs).to.have.length(1);
+        expect(diffs[0].node).to.equal(node2);
+        expect(diffs[0].before).to.be.undefined;
+        expect(diffs[0].after).to.eql(role2);
+        expect(await ensRoleDefResolverV2.name(node2)).to.equal('');
+      });
+
+      it('changes of role definition are simulated', async () => {
+        await (await owner.sendTransaction(call)).wait();
+        const editedRole = { ...role2, version: role2.version + 1 };
+        const editCall = new DomainTransactionFactoryV2({
+          domainResolverAddress: ensRoleDefResolverV2.address,
+        }).editDomain({ domain: domain2, domainDefinition: editedRole });
+
+        const { diffs } = await simulate({
+          call: editCall,
+          from: await owner.getAddress(),
+          provider,
+          domainReader,
+        });
+
+        expect(diffs[0].changes).to.eql([
+          {
+            property: 'version',
+            before: role2.version,
+            after: editedRole.version,
+          },
+        ]);
+      });
+
+      it('deletion of role definition is simulated', async () => {
+        await (await owner.sendTransaction(call)).wait();
+        const [clearDefinitionCall] = new DomainTransactionFactoryV2({
+          domainResolverAddress: ensRoleDefResolverV2.address,
+          ensRegistryAddress: ensRegistry.address,
+        }).deleteDomain({ domain: domain2 });
+
+        const { success, diffs } = await simulate({
+          call: clearDefinitionCall,
+          from: await owner.getAddress(),
+          provider,
+          domainReader,
+        });
+
+        expect(success).to.be.true;
+        expect(diffs[0].before).to.eql(role2);
+        expect(diffs[0].after).to.be.undefined;
+      });
+
+      it('DIDs are simulated with network registry of the reader', async () => {
+        const customNetworkReader = new DomainReader({
+          provider,
+          chainId,
+          networkRegistry: new NetworkRegistry([
+            {
+              chainId,
+              chainName: 'custom',
+              ensRegistryAddress: ensRegistry.address,
+              resolverV2Address: ensRoleDefResolverV2.address,
+            },
+          ]),
+        });
+
+        const { diffs } = await simulate({
+          call,
+          from: await owner.getAddress(),
+          provider,
+          domainReader: customNetworkReader,
+        });
+
+        expect(diffs[0].after).to.deep.include({
+          issuer: {
+            issuerType: 'DID',
+            did: ['did:ethr:custom:0x7aA65E31d404A8857BA083f6195757a730b51CFe'],
+          },
+        });
+      });
+
+      it('reverts of unauthorised calls are reported', async () => {
+        const anotherAccount = provider.getSigner(2);
+
+        const { success, revertReason, calls } = await simulate({
+          call,
+          from: await anotherAccount.getAddress(),
+          provider,
+        });
+
+        expect(success).to.be.false;
+        expect(revertReason).to.be.a('string');
+        expect(
+          calls
+            .filter(({ node }) => node === node2)
+            .every(({ revertReason }) => revertReason)
+        ).to.be.true;
+      });
+    });
+
+    describe('Role can be updated with changed properties only', () => {
+      let domainDefTxFactoryV2: DomainTransactionFactoryV2;
+
+      beforeEach(async () => {
+        await ensRegistry.setResolver(node2, ensRoleDefResolverV2.address);
+        domainDefTxFactoryV2 = new DomainTransactionFactoryV2({
+          domainResolverAddress: ensRoleDefResolverV2.address,
+        });
+        await (
+          await owner.sendTransaction(
+            domainDefTxFactoryV2.newRole({
+              domain: domain2,
+              roleDefinition: role2,
+            })
+          )
+        ).wait();
+      });
+
+      it('only changed properties are updated', async () => {
+        const next: IRoleDefinitionV2 = { ...role2, roleType: 'device' };
+
+        const { call, changes } = domainDefTxFactoryV2.updateRole({
+          domain: domain2,
+          current: role2,
+          next,
+        });
+
+        expect(changes).to.eql([
+          { property: 'roleType', before: role2.roleType, after: 'device' },
+        ]);
+        const { calls } = await simulate({
+          call: call as EncodedCall,
+          from: await owner.getAddress(),
+          provider,
+        });
+        expect(calls.map(({ method }) => method)).to.eql([
+          'setText',
+          'domainUpdated',
+        ]);
+        await (await owner.sendTransaction(call as EncodedCall)).wait();
+        expect(await domainReader.read({ node: node2 })).to.eql(next);
+      });
+
+      it('text is updated when issuers of other DID methods change', async () => {
+        const next: IRoleDefinitionV2 = {
+          ...role2,
+          issuer: {
+            issuerType: 'DID',
+            did: [...(role2.issuer.did as string[]), keyDid],
+          },
+        };
+
+        const { call } = domainDefTxFactoryV2.updateRole({
+          domain: domain2,
+          current: role2,
+          next,
+        });
+
+        const { calls } = await simulate({
+          call: call as EncodedCall,
+          from: await owner.getAddress(),
+          provider,
+        });
+        expect(calls.map(({ method }) => method)).to.include('setText');
+        await (await owner.sendTransaction(call as EncodedCall)).wait();
+        expect(await domainReader.read({ node: node2 })).to.eql({
+          ...next,
+          version: role2.version + 1,
+        });
+      });
+
+      it('issuer type is updated when issuer policy changes', async () => {
+        const next: IRoleDefinitionV2 = {
+          ...role2,
+          issuer: { issuerType: 'ANY_OF_ROLES', roleNames: [domain2] },
+        };
+
+        const { call } = domainDefTxFactoryV2.updateRole({
+          domain: domain2,
+          current: role2,
+          next,
+        });
+
+        const { calls } = await simulate({
+          call: call as EncodedCall,
+          from: await owner.getAddress(),
+          provider,
+        });
+        expect(calls.map(({ method }) => method)).to.include.members([
+          'setIssuerRole',
+          'setIssuerType',
+          'setText',
+        ]);
+        await (await owner.sendTransaction(call as EncodedCall)).wait();
+        expect(await domainReader.read({ node: node2 })).to.eql({
+          ...next,
+          version: role2.version + 1,
+        });
+        // First role of the policy can be verified by ClaimManager
+        expect((await ensRoleDefResolverV2.issuers(node2)).role).to.equal(
+          node2
+        );
+      });
+
+      it('transaction is not created when nothing has changed', () => {
+        const { call, changes } = domainDefTxFactoryV2.updateRole({
+          domain: domain2,
+          current: role2,
+          next: {
+            ...role2,
+            issuer: {
+              issuerType: 'did',
+              did: role2.issuer.did?.map((did) => did.toLowerCase()),
+            },
+          },
+        });
+
+        expect(call).to.be.undefined;
+        expect(changes).to.be.empty;
+      });
+
+      it('version is incremented when issuer changes', () => {
+        const issuer = {
+          issuerType: 'ROLE',
+          roleName: domain2,
+        };
+
+        const { changes } = domainDefTxFactoryV2.updateRole({
+          domain: domain2,
+          current: role2,
+          next: { ...role2, issuer },
+        });
+
+        expect(changes).to.deep.include({
+          property: 'version',
+          before: role2.version,
+          after: role2.version + 1,
+        });
+      });
+
+      it('version is not incremented when bumping is disabled', () => {
+        const { changes } = domainDefTxFactoryV2.updateRole({
+          domain: domain2,
+          current: role2,
+          next: { ...role2, issuerFields: [] },
+          bumpVersion: false,
+        });
+
+        expect(changes.map(({ property }) => property)).to.eql([
+          'issuerFields',
+        ]);
+      });
+
+      it('update with malformed issuer DID is rejected as invalid definition', () => {
+        expect(() =>
+          domainDefTxFactoryV2.updateRole({
+            domain: domain2,
+            current: role2,
+            next: {
+              ...role2,
+              issuer: { issuerType: 'DID', did: ['did:ethr:volta:0x7aA6'] },
+            },
+          })
+        ).to.throw(InvalidRoleDefinition);
+      });
+
+      it('role with invalid checksum of issuer DID is rejected as invalid definition', () => {
+        const invalidChecksum = (role2.issuer.did as string[])[0].replace(
+          'aA',
+          'Aa'
+        );
+
+        expect(() =>
+          domainDefTxFactoryV2.newRole({
+            domain: domain2,
+            roleDefinition: {
+              ...role2,
+              issuer: { issuerType: 'DID', did: [invalidChecksum] },
+            },
+          })
+        ).to.throw(InvalidRoleDefinition);
+      });
+
+      it('role definition is read at past block', async () => {
+        const blockBeforeUpdate = await provider.getBlockNumber();
+        await provider.send('evm_increaseTime', [60]);
+        const { call } = domainDefTxFactoryV2.updateRole({
+          domain: domain2,
+          current: role2,
+          next: { ...role2, roleType: 'device' },
+        });
+        await (await owner.sendTransaction(call as EncodedCall)).wait();
+        const { timestamp } = await provider.getBlock(blockBeforeUpdate);
+
+        expect(await domainReader.findBlockByTimestamp(timestamp)).to.equal(
+          blockBeforeUpdate
+        );
+        expect(
+          await domainReader.read({ node: node2, blockTag: blockBeforeUpdate })
+        ).to.eql(role2);
+        expect(
+          (await domainReader.read({ node: node2 })) as IRoleDefinitionV2
+        ).to.include({ roleType: 'device' });
+      });
+
+      it('issuer role name is read at past block', async () => {
+        const next: IRoleDefinitionV2 = {
+          ...role2,
+          issuer: { issuerType: 'ROLE', roleName: domain2 },
+        };
+        const { call } = domainDefTxFactoryV2.updateRole({
+          domain: domain2,
+          current: role2,
+          next,
+        });
+        const { blockNumber } = await (
+          await owner.sendTransaction(call as EncodedCall)
+        ).wait();
+        await (
+          await ensRegistry.setResolver(node2, ensPublicResolver.address)
+        ).wait();
+
+        await expect(domainReader.readName(node2)).to.be.rejectedWith(
+          NodeNameMismatch
+        );
+        expect(
+          await domainReader.read({ node: node2, blockTag: blockNumber })
+        ).to.eql({ ...next, version: role2.version + 1 });
+      });
+
+      it('history of role definition is read', async () => {
+        const next: IRoleDefinitionV2 = {
+          ...role2,
+          issuer: { issuerType: 'ROLE', roleName: domain2 },
+        };
+        const { call } = domainDefTxFactoryV2.updateRole({
+          domain: domain2,
+          current: role2,
+          next,
+        });
+        const { blockNumber, transactionHash } = await (
+          await owner.sendTransaction(call as EncodedCall)
+        ).wait();
+
+        const history = await domainReader.readHistory(node2);
+
+        expect(history).to.have.length(2);
+        expect(history[0].definition).to.eql(role2);
+        expect(history[0].blockNumber).to.be.lessThan(blockNumber);
+        expect(history[1]).to.eql({
+          definition: { ...next, version: role2.version + 1 },
+          blockNumber,
+          transactionHash,
+        });
+      });
+
+      it('history of role definition is read in block range chunks', async () => {
+        const { call } = domainDefTxFactoryV2.updateRole({
+          domain: domain2,
+          current: role2,
+          next: { ...role2, roleType: 'device' },
+        });
+        await (await owner.sendTransaction(call as EncodedCall)).wait();
+        const chunkingReader = new DomainReader({
+          ensRegistryAddress: ensRegistry.address,
+          provider: owner.provider,
+          logsBlockRange: 1,
+        });
+        chunkingReader.addKnownResolver({
+          chainId,
+          address: ensRoleDefResolverV2.address,
+          type: ResolverContractType.RoleDefinitionResolver_v2,
+        });
+
+        expect(await chunkingReader.readHistory(node2)).to.eql(
+          await domainReader.readHistory(node2)
+        );
+      });
+
+      it('history of role definition is not changed by resolver which is not registered for role', async () => {
+        const history = await domainReader.readHistory(node2);
+        const unregisteredResolver =
+          await new RoleDefinitionResolverV2__factory(owner).deploy(
+            ensRegistry.address,
+            domainNotifier.address
+          );
+        await (
+          await owner.sendTransaction(
+            new DomainTransactionFactoryV2({
+              domainResolverAddress: unregisteredResolver.address,
+            }).newRole({
+              domain: domain2,
+              roleDefinition: { ...role2, roleType: 'device' },
+            })
+          )
+        ).wait();
+
+        expect(await domainReader.readHistory(node2)).to.eql(history);
+      });
+
+      it('history of role definition is read from block since which resolver is set', async () => {
+        const getLogs = provider.getLogs.bind(provider);
+        const fromBlocks: number[] = [];
+        provider.getLogs = (filter) => {
+          fromBlocks.push(Number(filter.fromBlock));
+          return getLogs(filter);
+        };
+        try {
+          await domainReader.readHistory(node2);
+        } finally {
+          provider.getLogs = getLogs;
+        }
+
+        const resolverBlock = Math.min(...fromBlocks);
+        expect(resolverBlock).to.be.greaterThan(0);
+        expect(
+          await ensRegistry.resolver(node2, { blockTag: resolverBlock - 1 })
+        ).to.equal(constants.AddressZero);
+      });
+
+      it('history of role definition is not read when logs can not be requested', async () => {
+        const getLogs = provider.getLogs;
+        provider.getLogs = () =>
+          Promise.reject(new Error('Block range is too wide'));
+        try {
+          await expect(domainReader.readHistory(node2)).to.be.rejectedWith(
+            'Block range is too wide'
+          );
+        } finally {
+          provider.getLogs = getLogs;
+        }
+      });
+    });
+
+    it('role definition is read with resolvers of registered network', async () => {
+      await ensRegistry.setResolver(node2, ensRoleDefResolverV2.address);
+      await (
+        await owner.sendTransaction(
+          new DomainTransactionFactoryV2({
+            domainResolverAddress: ensRoleDefResolverV2.address,
+          }).newRole({ domain: domain2, roleDefinition: role2 })
+        )
+      ).wait();
+      const networkRegistry = new NetworkRegistry([
+        {
+          chainId,
+          chainName: 'volta',
+          ensRegistryAddress: ensRegistry.address,
+          resolverV2Address: ensRoleDefResolverV2.address,
+        },
+      ]);
+
+      const reader = new DomainReader({
+        provider,
+        chainId,
+        networkRegistry,
+      });
+
+      expect(await reader.read({ node: node2 })).to.eql(role2);
+    });
+
+    describe('Resolver type can be detected', () => {
+      let detectingDomainReader: DomainReader;
+
+      beforeEach(async () => {
+        detectingDomainReader = new DomainReader({
+          ensRegistryAddress: ensRegistry.address,
+          provider: owner.provider,
+        });
+        await ensRegistry.setResolver(node2, ensRoleDefResolverV2.address);
+        await (
+          await owner.sendTransaction(
+            new DomainTransactionFactoryV2({
+              domainResolverAddress: ensRoleDefResolverV2.address,
+            }).newRole({ domain: domain2, roleDefinition: role2 })
+          )
+        ).wait();
+      });
+
+      it('role definition is read from unknown resolver', async () => {
+        expect(await detectingDomainReader.read({ node: node2 })).to.eql(role2);
+        expect(await detectingDomainReader.readResolverType(node2)).to.equal(
+          ResolverContractType.RoleDefinitionResolver_v2
+        );
+      });
+
+      it('role definition is read with aggregated queries from unknown resolver', async () => {
+        const multicall = await new Multicall__factory(owner).deploy();
+        await multicall.deployed();
+        const reader = new DomainReader({
+          ensRegistryAddress: ensRegistry.address,
+          provider: owner.provider,
+          multicallAddress: multicall.address,
+        });
+
+        const [result] = await reader.readMany({ nodes: [node2] });
+
+        expect(result.definition).to.eql(role2);
+      });
+
+      it('public resolver is detected', async () => {
+        await ensRegistry.setResolver(node2, ensPublicResolver.address);
+
+        expect(await detectingDomainReader.readResolverType(node2)).to.equal(
+          ResolverContractType.PublicResolver
+        );
+      });
+
+      it('unknown resolver is not read in allowlist mode', async () => {
+        const reader = new DomainReader({
+          ensRegistryAddress: ensRegistry.address,
+          provider: owner.provider,
+          allowlistOnly: true,
+        });
+
+        await expect(reader.read({ node: node2 })).to.eventually.rejectedWith(
+          new ResolverNotSupported(node2, ensRoleDefResolverV2.address).message
+        );
+      });
+    });
+
+    describe('Domain lifecycle transactions', () => {
+      const subdomain = `sub.${domain2}`;
+      const subsubdomain = `subsub.${subdomain}`;
+      let domainDefTxFactoryV2: DomainTransactionFactoryV2;
+      let anotherAccount: providers.JsonRpcSigner;
+
+      const send = async (calls: EncodedCall | EncodedCall[]) => {
+        for (const call of Array.isArray(calls) ? calls : [calls]) {
+          await (await owner.sendTransaction(call)).wait();
+        }
+      };
+
+      beforeEach(async () => {
+        anotherAccount = provider.getSigner(2);
+        domainDefTxFactoryV2 = new DomainTransactionFactoryV2({
+          domainResolverAddress: ensRoleDefResolverV2.address,
+          ensRegistryAddress: ensRegistry.address,
+        });
+        await send(domainDefTxFactoryV2.setResolver({ domain: domain2 }));
+      });
+
+      it('subdomain is registered with owner and resolver', async () => {
+        await send(
+          domainDefTxFactoryV2.newSubdomain({
+            parentDomain: domain2,
+            label: 'sub',
+            owner: await owner.getAddress(),
+          })
+        );
+
+        expect(await ensRegistry.owner(utils.namehash(subdomain))).to.equal(
+          await owner.getAddress()
+        );
+        expect(await ensRegistry.resolver(utils.namehash(subdomain))).to.equal(
+          ensRoleDefResolverV2.address
+        );
+      });
+
+      it('registry transactions are created for ENS registry of chain', () => {
+        const { to } = new DomainTransactionFactoryV2({
+          domainResolverAddress: ensRoleDefResolverV2.address,
+          chainId,
+          networkRegistry: new NetworkRegistry([
+            {
+              chainId,
+              chainName: 'custom',
+              ensRegistryAddress: ensRegistry.address,
+            },
+          ]),
+        }).setResolver({ domain: domain2 });
+
+        expect(to).to.equal(ensRegistry.address);
+      });
+
+      it('registry transactions are not created without ENS registry', () => {
+        expect(() =>
+          new DomainTransactionFactoryV2({
+            domainResolverAddress: ensRoleDefResolverV2.address,
+          }).setResolver({ domain: domain2 })
+        ).to.throw('You need to pass the address of ENS registry');
+      });
+
+      it('ownership of subtree is transferred', async () => {
+        await send([
+          domainDefTxFactoryV2.newSubdomain({
+            parentDomain: domain2,
+            label: 'sub',
+            owner: await owner.getAddress(),
+          }),
+          domainDefTxFactoryV2.newSubdomain({
+            parentDomain: subdomain,
+            label: 'subsub',
+            owner: await owner.getAddress(),
+          }),
+        ]);
+        const newOwner = await anotherAccount.getAddress();
+
+        await send(
+          domainDefTxFactoryV2.transferSubtreeOwnership({
+            domain: domain2,
+            subdomains: [subdomain, subsubdomain],
+            newOwner,
+          })
+        );
+
+        for (const domain of [domain2, subdomain, subsubdomain]) {
+          expect(await ensRegistry.owner(utils.namehash(domain))).to.equal(
+            newOwner
+          );
+        }
+      });
+
+      it('ownership of metadomain is transferred with its subdomains', async () => {
+        const rolesDomain = `roles.${domain2}`;
+        const roleDomain = `role.${rolesDomain}`;
+        await send([
+          domainDefTxFactoryV2.newSubdomain({
+            parentDomain: domain2,
+            label: 'roles',
+            owner: await owner.getAddress(),
+          }),
+          domainDefTxFactoryV2.newSubdomain({
+            parentDomain: rolesDomain,
+            label: 'role',
+            owner: await owner.getAddress(),
+          }),
+        ]);
+        const newOwner = await anotherAccount.getAddress();
+
+        await send(
+          domainDefTxFactoryV2.transferSubtreeOwnership({
+            domain: domain2,
+            subdomains: [roleDomain],
+            newOwner,
+          })
+        );
+
+        for (const domain of [domain2, rolesDomain, roleDomain]) {
+          expect(await ensRegistry.owner(utils.namehash(domain))).to.equal(
+            newOwner
+          );
+        }
+      });
+
+      it('domain is deleted', async () => {
+        await send(
+          domainDefTxFactoryV2.newRole({
+            domain: domain2,
+            roleDefinition: {
+              ...role2,
+              issuer: {
+                issuerType: 'DID_OR_ROLE',
+                did: [keyDid],
+                roleName: domain2,
+              },
+              revoker: {
+                revokerType: 'DID_OR_ROLE',
+                did: [webDid],
+                roleName: domain2,
+              },
+            },
+          })
+        );
+
+        await send(domainDefTxFactoryV2.deleteDomain({ domain: domain2 }));
+
+        expect(await ensRegistry.owner(node2)).to.equal(constants.AddressZero);
+        expect(await ensRoleDefResolverV2.name(node2)).to.equal('');
+        expect(await ensRoleDefResolverV2.text(node2, 'metadata')).to.equal('');
+        expect((await ensRoleDefResolverV2.issuers(node2)).dids).to.be.empty;
+        expect((await ensRoleDefResolverV2.revokers(node2)).dids).to.be.empty;
+        expect(await ensRoleDefResolverV2.issuerType(node2)).to.equal(0);
+        expect(await ensRoleDefResolverV2.revokerType(node2)).to.equal(0);
+        expect(
+          (await ensRoleDefResolverV2.versionNumber(node2)).toNumber()
+        ).to.equal(0);
+        expect((await getDomainUpdatedLogs()).length).to.equal(2);
+      });
+    });
+
     describe('Role can be created, read and updated', () => {
       const roleCRUDtests = async (role: IRoleDefinitionV2) => {
         await ensRegistry.setResolver(node2, ensRoleDefResolverV2.address);
@@ -166,6 +916,64 @@ export function domainCrudTestSuiteWithRevocation(): void {
         await roleCRUDtests(role2);
       });
 
+      it('issuers and revokers of key and web DIDs', async () => {
+        await roleCRUDtests({
+          ...role2,
+          issuer: {
+            issuerType: 'DID',
+            did: [...(role2.issuer.did as string[]), keyDid],
+          },
+          revoker: {
+            revokerType: 'DID',
+            did: [webDid, 'did:web:example.com:issuers:acme'],
+          },
+        });
+      });
+
+      it('issuer and revoker of multi-role types', async () => {
+        await roleCRUDtests({
+          ...role2,
+          issuer: { issuerType: 'ALL_OF_ROLES', roleNames: [domain2] },
+          revoker: { revokerType: 'ANY_OF_ROLES', roleNames: [domain2] },
+        });
+      });
+
+      it('issuer of type "DID_OR_ROLE"', async () => {
+        await roleCRUDtests({
+          ...role2,
+          issuer: {
+            issuerType: 'DID_OR_ROLE',
+            did: [keyDid],
+            roleName: domain2,
+          },
+        });
+      });
+
+      it('issuers which can not be stored on chain are rejected as invalid definition', () => {
+        const factory = new DomainTransactionFactoryV2({
+          domainResolverAddress: ensRoleDefResolverV2.address,
+        });
+
+        [
+          {
+            issuerType: 'ANY_OF_ROLES',
+            roleNames: ['operator.roles.iam.ewc', domain2],
+          },
+          {
+            issuerType: 'DID_OR_ROLE',
+            did: role2.issuer.did,
+            roleName: domain2,
+          },
+        ].forEach((issuer) =>
+          expect(() =>
+            factory.newRole({
+              domain: domain2,
+              roleDefinition: { ...role2, issuer },
+            })
+          ).to.throw(InvalidRoleDefinition)
+        );
+      });
+
       it('issuer of type "ROLE"', async () => {
         await roleCRUDtests({
           ...role2,
@@ -173,6 +981,19 @@ export function domainCrudTestSuiteWithRevocation(): void {
         });
       });
 
+      it('with enrolment preconditions which must all be met', async () => {
+        await roleCRUDtests({
+          ...role2,
+          enrolmentPreconditions: [
+            {
+              type: PreconditionType.Role,
+              conditions: [domain2],
+              mustHaveAll: true,
+            },
+          ],
+        });
+      });
+
       it('should add domain with `defaultValidityPeriod` property', async () => {
         await roleCRUDtests({ ...role2, defaultValidityPeriod: 1000 });
       });
@@ -205,6 +1026,230 @@ export function domainCrudTestSuiteWithRevocation(): void {
       });
     });
 
+    describe('Role can be read with aggregated queries', () => {
+      const aggregatedReadTest = async (role: IRoleDefinitionV2) => {
+        await ensRegistry.setResolver(node2, ensRoleDefResolverV2.address);
+        const domainDefTxFactoryV2 = new DomainTransactionFactoryV2({
+          domainResolverAddress: ensRoleDefResolverV2.address,
+        });
+        const call = domainDefTxFactoryV2.newRole({
+          domain: domain2,
+          roleDefinition: role,
+        });
+        await (await owner.sendTransaction(call)).wait();
+
+        const roleDef = await aggregatingDomainReader.read({ node: node2 });
+        expect(roleDef).to.eql(role);
+        expect(roleDef).to.eql(await domainReader.read({ node: node2 }));
+      };
+
+      it('issuer and revoker of type "DID"', async () => {
+        await aggregatedReadTest(role2);
+      });
+
+      it('issuer and revoker of type "ROLE"', async () => {
+        await aggregatedReadTest({
+          ...role2,
+          issuer: { issuerType: 'ROLE', roleName: domain2 },
+          revoker: { revokerType: 'ROLE', roleName: domain2 },
+        });
+      });
+
+      it('without enrolment preconditions', async () => {
+        await aggregatedReadTest({ ...role2, enrolmentPreconditions: [] });
+      });
+
+      it('with enrolment preconditions which must all be met', async () => {
+        await aggregatedReadTest({
+          ...role2,
+          enrolmentPreconditions: [
+            {
+              type: PreconditionType.Role,
+              conditions: [domain2],
+              mustHaveAll: true,
+            },
+          ],
+        });
+      });
+
+      it('role definition is read with fixed number of calls', async () => {
+        await aggregatedReadTest({
+          ...role2,
+          issuer: { issuerType: 'ROLE', roleName: domain2 },
+          revoker: { revokerType: 'ROLE', roleName: domain2 },
+        });
+
+        // Resolver, definition, resolvers of referenced roles and their names
+        expect(
+          await countCalls(() => aggregatingDomainReader.read({ node: node2 }))
+        ).to.equal(4);
+        expect(
+          await countCalls(() => domainReader.read({ node: node2 }))
+        ).to.be.greaterThan(4);
+      });
+    });
+
+    describe('Many domains can be read at once', () => {
+      const unregisteredNode = utils.namehash('notregistered.iam');
+      const unsupportedDomain = 'unsupported';
+      const unsupportedNode = utils.namehash(unsupportedDomain);
+      const unsupportedResolver = '0x0000000000000000000000000000000000000123';
+
+      beforeEach(async () => {
+        await ensRegistry.setSubnodeRecord(
+          HashZero,
+          hashLabel(unsupportedDomain),
+          await owner.getAddress(),
+          unsupportedResolver,
+          0
+        );
+        await ensRegistry.setResolver(node2, ensRoleDefResolverV2.address);
+        const domainDefTxFactoryV2 = new DomainTransactionFactoryV2({
+          domainResolverAddress: ensRoleDefResolverV2.address,
+        });
+        const call = domainDefTxFactoryV2.newRole({
+          domain: domain2,
+          roleDefinition: role2,
+        });
+        await (await owner.sendTransaction(call)).wait();
+      });
+
+      const readManyTest = async (reader: DomainReader) => {
+        const results = await reader.readMany({
+          nodes: [unregisteredNode, node2, unsupportedNode],
+        });
+
+        expect(results.map(({ node }) => node)).to.eql([
+          unregisteredNode,
+          node2,
+          unsupportedNode,
+        ]);
+        expect(results[0].error).to.be.instanceOf(DomainResolverNotSet);
+        expect(results[1].definition).to.eql(role2);
+        expect(results[2].error).to.be.instanceOf(ResolverNotSupported);
+        expect(results[2].error?.message).to.equal(
+          new ResolverNotSupported(unsupportedNode, unsupportedResolver).message
+        );
+      };
+
+      it('should report errors per node', async () => {
+        await readManyTest(domainReader);
+      });
+
+      it('should report errors per node with aggregated queries', async () => {
+        await readManyTest(aggregatingDomainReader);
+      });
+
+      it('should read many domains with as many calls as one domain', async () => {
+        const readCalls = await countCalls(() =>
+          aggregatingDomainReader.readMany({ nodes: [node2] })
+        );
+
+        // Resolvers, definitions, resolvers of referenced roles and their names
+        expect(readCalls).to.equal(4);
+        expect(
+          await countCalls(() =>
+            aggregatingDomainReader.readMany({
+              nodes: [unregisteredNode, node2, node2],
+            })
+          )
+        ).to.equal(readCalls);
+      });
+
+      it('should report invalid definition', async () => {
+        const invalidRoleCall = {
+          to: ensRoleDefResolverV2.address,
+          data: ensRoleDefResolverV2.interface.encodeFunctionData('setText', [
+            node2,
+            'metadata',
+            'invalid json',
+          ]),
+        };
+        await (await owner.sendTransaction(invalidRoleCall)).wait();
+
+        const [result] = await aggregatingDomainReader.readMany({
+          nodes: [node2],
+        });
+
+        expect(result.error).to.be.instanceOf(InvalidDomain);
+      });
+    });
+
+    describe('Definitions can be cached', () => {
+      let cachingDomainReader: DomainReader;
+      let domainDefTxFactoryV2: DomainTransactionFactoryV2;
+
+      beforeEach(async () => {
+        cachingDomainReader = new DomainReader({
+          ensRegistryAddress: ensRegistry.address,
+          provider: owner.provider,
+          cache: { domainNotifierAddress: domainNotifier.address },
+          allowlistOnly: true,
+        });
+        cachingDomainReader.addKnownResolver({
+          chainId,
+          address: ensRoleDefResolverV2.address,
+          type: ResolverContractType.RoleDefinitionResolver_v2,
+        });
+        await ensRegistry.setResolver(node2, ensRoleDefResolverV2.address);
+        domainDefTxFactoryV2 = new DomainTransactionFactoryV2({
+          domainResolverAddress: ensRoleDefResolverV2.address,
+        });
+        const call = domainDefTxFactoryV2.newRole({
+          domain: domain2,
+          roleDefinition: role2,
+        });
+        await (await owner.sendTransaction(call)).wait();
+      });
+
+      it('should serve cached definition until domain update is notified', async () => {
+        expect(await cachingDomainReader.read({ node: node2 })).to.eql(role2);
+
+        const setTextCall = {
+          to: ensRoleDefResolverV2.address,
+          data: ensRoleDefResolverV2.interface.encodeFunctionData('setText', [
+            node2,
+            'metadata',
+            JSON.stringify({ ...role2, roleName: 'renamedRole' }),
+          ]),
+        };
+        await (await owner.sendTransaction(setTextCall)).wait();
+        expect(await cachingDomainReader.read({ node: node2 })).to.eql(role2);
+
+        await (await ensRoleDefResolverV2.domainUpdated(node2)).wait();
+        expect(
+          await cachingDomainReader.read({ node: node2 })
+        ).to.have.property('roleName', 'renamedRole');
+      });
+
+      it('should invalidate cached definition when role is edited', async () => {
+        expect(await cachingDomainReader.read({ node: node2 })).to.eql(role2);
+
+        const editedRole = { ...role2, version: role2.version + 1 };
+        const updateRole = domainDefTxFactoryV2.editDomain({
+          domain: domain2,
+          domainDefinition: editedRole,
+        });
+        await (await owner.sendTransaction(updateRole)).wait();
+
+        expect(await cachingDomainReader.read({ node: node2 })).to.eql(
+          editedRole
+        );
+      });
+
+      it('should invalidate cached definition when resolver is changed', async () => {
+        expect(await cachingDomainReader.read({ node: node2 })).to.eql(role2);
+
+        await ensRegistry.setResolver(node2, ensPublicResolver.address);
+
+        await expect(
+          cachingDomainReader.read({ node: node2 })
+        ).to.eventually.rejectedWith(
+          new ResolverNotSupported(node2, ensPublicResolver.address).message
+        );
+      });
+    });
+
     it('app can be created and read', async () => {
       const app: IAppDefinition = {
         appName: 'myApp',
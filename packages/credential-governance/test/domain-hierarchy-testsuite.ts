@@ -4,6 +4,7 @@ import {
   DomainReader,
   DomainTransactionFactoryV2,
   EncodedCall,
+  InMemoryDomainIndexStore,
   IRoleDefinitionV2,
   ResolverContractType,
 } from '../src';
@@ -267,6 +268,27 @@ export function domainHierarchyTestSuite(): void {
         expect(subDomains).to.contains('flex.ewc');
         expect(subDomains.length).to.equal(2);
       });
+
+      it('returns apps and roles domains when requested', async () => {
+        await addSubdomain('ewc', 'iam', 'PUBLIC');
+        await Promise.all([
+          addSubdomain('iam.ewc', 'apps', 'ROLEDEF'),
+          addSubdomain('iam.ewc', 'roles', 'ROLEDEF'),
+        ]);
+        await addSubdomain('roles.iam.ewc', 'operator', 'ROLEDEF');
+        const subDomains = await domainHierarchy.getSubdomainsUsingResolver({
+          domain: domain,
+          mode: 'ALL',
+          includeMetadomains: true,
+        });
+
+        expect(subDomains).to.have.members([
+          'iam.ewc',
+          'apps.iam.ewc',
+          'roles.iam.ewc',
+          'operator.roles.iam.ewc',
+        ]);
+      });
     });
 
     describe('getSubdomainsUsingRegistry', () => {
@@ -298,6 +320,202 @@ export function domainHierarchyTestSuite(): void {
       });
     });
 
+    describe('getDomainTree', () => {
+      beforeEach(async () => {
+        await addSubdomain('ewc', 'iam', 'PUBLIC');
+        await Promise.all([
+          addSubdomain('iam.ewc', 'apps', 'ROLEDEF'),
+          addSubdomain('iam.ewc', 'roles', 'ROLEDEF'),
+          addSubdomain('iam.ewc', 'test', 'ROLEDEF'),
+        ]);
+        await Promise.all([
+          addSubdomain('apps.iam.ewc', 'flex', 'ROLEDEF'),
+          addSubdomain('roles.iam.ewc', 'operator', 'ROLEDEF'),
+        ]);
+        await addSubdomain('flex.apps.iam.ewc', 'roles', 'ROLEDEF');
+        await addSubdomain('roles.flex.apps.iam.ewc', 'tso', 'ROLEDEF');
+      });
+
+      it('returns subdomains grouped by metadomains', async () => {
+        const tree = await domainHierarchy.getDomainTree({ domain: 'iam.ewc' });
+
+        expect(tree.name).to.equal('iam.ewc');
+        expect(tree.namehash).to.equal(utils.namehash('iam.ewc'));
+        expect(tree.owner).to.equal(await owner.getAddress());
+        expect(tree.resolverType).to.equal(ResolverContractType.PublicResolver);
+        expect(tree.definition).to.deep.include({ roleName: role.roleName });
+        expect(tree.subdomains.map(({ name }) => name)).to.deep.equal([
+          'test.iam.ewc',
+        ]);
+        expect(tree.roles.map(({ name }) => name)).to.deep.equal([
+          'operator.roles.iam.ewc',
+        ]);
+        expect(tree.orgs).to.be.empty;
+        const [app] = tree.apps;
+        expect(app.name).to.equal('flex.apps.iam.ewc');
+        expect(app.resolverType).to.equal(
+          ResolverContractType.RoleDefinitionResolver_v2
+        );
+        expect(app.roles.map(({ name }) => name)).to.deep.equal([
+          'tso.roles.flex.apps.iam.ewc',
+        ]);
+      });
+
+      it('returns subdomains up to depth', async () => {
+        const tree = await domainHierarchy.getDomainTree({
+          domain: 'iam.ewc',
+          depth: 1,
+        });
+
+        expect(tree.apps.map(({ name }) => name)).to.deep.equal([
+          'flex.apps.iam.ewc',
+        ]);
+        expect(tree.apps[0].roles).to.be.empty;
+      });
+
+      it('excludes deleted subdomains', async () => {
+        await ensRegistry.setSubnodeOwner(
+          utils.namehash('iam.ewc'),
+          hashLabel('test'),
+          '0x'.padEnd(42, '0')
+        );
+
+        const tree = await domainHierarchy.getDomainTree({ domain: 'iam.ewc' });
+
+        expect(tree.subdomains).to.be.empty;
+      });
+
+      it('attaches subdomain of not indexed domain to its nearest indexed ancestor', async () => {
+        // Domain without resolver has no name and is not indexed
+        await ensRegistry.setSubnodeOwner(
+          utils.namehash('iam.ewc'),
+          hashLabel('unnamed'),
+          await owner.getAddress()
+        );
+        await addSubdomain('unnamed.iam.ewc', 'leaf', 'ROLEDEF');
+
+        const tree = await domainHierarchy.getDomainTree({ domain: 'iam.ewc' });
+
+        expect(tree.subdomains.map(({ name }) => name)).to.have.members([
+          'test.iam.ewc',
+          'leaf.unnamed.iam.ewc',
+        ]);
+      });
+
+      it('returns subdomains of metadomain root', async () => {
+        const tree = await domainHierarchy.getDomainTree({
+          domain: 'apps.iam.ewc',
+        });
+
+        expect(tree.name).to.equal('apps.iam.ewc');
+        const [app] = tree.subdomains;
+        expect(app.name).to.equal('flex.apps.iam.ewc');
+        expect(app.roles.map(({ name }) => name)).to.deep.equal([
+          'tso.roles.flex.apps.iam.ewc',
+        ]);
+      });
+    });
+
+    describe('indexDomains', () => {
+      let indexStore: InMemoryDomainIndexStore;
+
+      beforeEach(() => {
+        indexStore = new InMemoryDomainIndexStore();
+        domainHierarchy = new DomainHierarchy({
+          domainReader,
+          provider,
+          ensRegistryAddress: ensRegistry.address,
+          domainNotifierAddress: domainNotifier.address,
+          publicResolverAddress: ensPublicResolver.address,
+          indexStore,
+          logsBlockRange: 3,
+        });
+      });
+
+      it('indexes domains in block range chunks', async () => {
+        await Promise.all([
+          addSubdomain(domain, 'test', 'ROLEDEF'),
+          addSubdomain(domain, 'iam', 'PUBLIC'),
+        ]);
+
+        await domainHierarchy.indexDomains();
+
+        expect(await indexStore.getNames()).to.have.members([
+          domain,
+          'test.ewc',
+          'iam.ewc',
+        ]);
+        expect(await indexStore.getLastIndexedBlock()).to.equal(
+          await provider.getBlockNumber()
+        );
+      });
+
+      it('indexes only logs of new blocks', async () => {
+        await addSubdomain(domain, 'test', 'ROLEDEF');
+        await indexStore.setLastIndexedBlock(await provider.getBlockNumber());
+        await addSubdomain(domain, 'iam', 'ROLEDEF');
+
+        const subDomains = await domainHierarchy.getSubdomainsUsingResolver({
+          domain,
+          mode: 'ALL',
+        });
+
+        expect(subDomains).to.deep.equal(['iam.ewc']);
+      });
+
+      it('resumes indexing from the last indexed block', async () => {
+        await addSubdomain(domain, 'test', 'ROLEDEF');
+        expect(
+          await domainHierarchy.getSubdomainsUsingResolver({
+            domain,
+            mode: 'ALL',
+          })
+        ).to.deep.equal(['test.ewc']);
+
+        await addSubdomain(domain, 'iam', 'PUBLIC');
+        const subDomains = await domainHierarchy.getSubdomainsUsingResolver({
+          domain,
+          mode: 'ALL',
+        });
+
+        expect(subDomains).to.have.members(['test.ewc', 'iam.ewc']);
+      });
+
+      it('does not advance last indexed block when name can not be read', async () => {
+        const lastIndexedBlock = await provider.getBlockNumber();
+        await indexStore.setLastIndexedBlock(lastIndexedBlock);
+        await addSubdomain(domain, 'test', 'ROLEDEF');
+        let failures = 1;
+        const failingReader = Object.assign(Object.create(domainReader), {
+          readName: async (node: string) => {
+            if (failures-- > 0) {
+              throw new Error('Request timed out');
+            }
+            return domainReader.readName(node);
+          },
+        }) as DomainReader;
+        domainHierarchy = new DomainHierarchy({
+          domainReader: failingReader,
+          provider,
+          ensRegistryAddress: ensRegistry.address,
+          domainNotifierAddress: domainNotifier.address,
+          publicResolverAddress: ensPublicResolver.address,
+          indexStore,
+          logsBlockRange: 3,
+        });
+
+        await expect(domainHierarchy.indexDomains()).to.be.rejectedWith(
+          'Request timed out'
+        );
+        expect(await indexStore.getLastIndexedBlock()).to.be.lessThan(
+          await provider.getBlockNumber()
+        );
+
+        await domainHierarchy.indexDomains();
+        expect(await indexStore.getNames()).to.include('test.ewc');
+      });
+    });
+
     // TODO: Test multi-level
   });
 }
@@ -0,0 +1,237 @@
+import { ContractFactory, utils, providers } from 'ethers';
+import { expect } from 'chai';
+import {
+  DomainHierarchy,
+  DomainReader,
+  DomainTransactionFactoryV2,
+  IRoleDefinition,
+  migrateToResolverV2,
+  ResolverContractType,
+} from '../src';
+import { ENSRegistry } from '../ethers/ENSRegistry';
+import { RoleDefinitionResolverV2 } from '../ethers/RoleDefinitionResolverV2';
+import { DomainNotifier } from '../ethers/DomainNotifier';
+import { PublicResolver } from '../ethers/PublicResolver';
+import { RoleDefinitionResolverV2__factory } from '../ethers/factories/RoleDefinitionResolverV2__factory';
+import { hashLabel } from './credential-governance-test';
+import { LegacyDomainDefTransactionFactory } from './legacy-domain-def-transaction-factory';
+
+let ensFactory: ContractFactory;
+let domainNotifierFactory: ContractFactory;
+let publicResolverFactory: ContractFactory;
+let ensRegistry: ENSRegistry;
+let ensRoleDefResolverV2: RoleDefinitionResolverV2;
+let domainNotifier: DomainNotifier;
+let ensPublicResolver: PublicResolver;
+let owner: providers.JsonRpcSigner;
+let provider: providers.JsonRpcProvider;
+let chainId: number;
+
+let domainReader: DomainReader;
+let domainHierarchy: DomainHierarchy;
+let transactionFactory: DomainTransactionFactoryV2;
+
+const domain = 'legacy';
+const subdomain = `role.${domain}`;
+
+const legacyRole: IRoleDefinition = {
+  requestorFields: [],
+  issuerFields: [],
+  issuer: {
+    issuerType: 'DID',
+    did: [`did:ethr:volta:0x7aA65E31d404A8857BA083f6195757a730b51CFe`],
+  },
+  metadata: [],
+  roleName: 'legacyRole',
+  roleType: 'test',
+  version: 1,
+  enrolmentPreconditions: [],
+};
+
+const addLegacyRole = async (
+  parentNode: string,
+  label: string,
+  name: string,
+  roleDefinition: IRoleDefinition
+) => {
+  await ensRegistry.setSubnodeOwner(
+    parentNode,
+    hashLabel(label),
+    await owner.getAddress()
+  );
+  await ensRegistry.setResolver(
+    utils.namehash(name),
+    ensPublicResolver.address
+  );
+  const call = new LegacyDomainDefTransactionFactory(ensPublicResolver).newRole(
+    { domain: name, roleDefinition }
+  );
+  await (await owner.sendTransaction(call)).wait();
+};
+
+export function domainMigrationTestSuite(): void {
+  before(async function () {
+    ({
+      publicResolverFactory,
+      ensFactory,
+      domainNotifierFactory,
+      provider,
+      owner,
+      chainId,
+    } = this);
+  });
+
+  beforeEach(async () => {
+    ensRegistry = (await ensFactory.deploy()) as ENSRegistry;
+    await ensRegistry.deployed();
+    domainNotifier = (await domainNotifierFactory.deploy(
+      ensRegistry.address
+    )) as DomainNotifier;
+    await domainNotifier.deployed();
+    ensRoleDefResolverV2 = await new RoleDefinitionResolverV2__factory(
+      owner
+    ).deploy(ensRegistry.address, domainNotifier.address);
+    await ensRoleDefResolverV2.deployed();
+    ensPublicResolver = (await publicResolverFactory.deploy(
+      ensRegistry.address
+    )) as PublicResolver;
+    await ensPublicResolver.deployed();
+
+    domainReader = new DomainReader({
+      ensRegistryAddress: ensRegistry.address,
+      provider,
+    });
+    domainReader.addKnownResolver({
+      chainId,
+      address: ensRoleDefResolverV2.address,
+      type: ResolverContractType.RoleDefinitionResolver_v2,
+    });
+    domainReader.addKnownResolver({
+      chainId,
+      address: ensPublicResolver.address,
+      type: ResolverContractType.PublicResolver,
+    });
+    domainHierarchy = new DomainHierarchy({
+      domainReader,
+      provider,
+      ensRegistryAddress: ensRegistry.address,
+      domainNotifierAddress: domainNotifier.address,
+      publicResolverAddress: ensPublicResolver.address,
+    });
+    transactionFactory = new DomainTransactionFactoryV2({
+      domainResolverAddress: ensRoleDefResolverV2.address,
+      ensRegistryAddress: ensRegistry.address,
+    });
+
+    await addLegacyRole(utils.namehash(''), domain, domain, legacyRole);
+    await addLegacyRole(utils.namehash(domain), 'role', subdomain, legacyRole);
+  });
+
+  it('legacy roles are migrated to RoleDefinitionResolverV2', async () => {
+    const { calls, migrated, notMigrated } = await migrateToResolverV2({
+      domain,
+      domainReader,
+      domainHierarchy,
+      transactionFactory,
+    });
+    for (const call of calls) {
+      await (await owner.sendTransaction(call)).wait();
+    }
+
+    expect(migrated).to.eql([domain, subdomain]);
+    expect(notMigrated).to.be.empty;
+    for (const name of migrated) {
+      const node = utils.namehash(name);
+      expect(await domainReader.readResolverType(node)).to.equal(
+        ResolverContractType.RoleDefinitionResolver_v2
+      );
+      expect(await domainReader.read({ node })).to.eql({
+        ...legacyRole,
+        revoker: { revokerType: 'DID', did: legacyRole.issuer.did },
+      });
+      expect(
+        await domainNotifier.queryFilter(
+          domainNotifier.filters.DomainUpdated(node)
+        )
+      ).to.have.length(1);
+    }
+  });
+
+  it('metadomains are migrated with their subdomains', async () => {
+    const rolesDomain = `roles.${domain}`;
+    const rolesNode = utils.namehash(rolesDomain);
+    const metadomainRole = `manager.${rolesDomain}`;
+    await ensRegistry.setSubnodeOwner(
+      utils.namehash(domain),
+      hashLabel('roles'),
+      await owner.getAddress()
+    );
+    await ensRegistry.setResolver(rolesNode, ensPublicResolver.address);
+    await (await ensPublicResolver.setName(rolesNode, rolesDomain)).wait();
+    await addLegacyRole(rolesNode, 'manager', metadomainRole, legacyRole);
+
+    const { calls, migrated, notMigrated } = await migrateToResolverV2({
+      domain,
+      domainReader,
+      domainHierarchy,
+      transactionFactory,
+    });
+    for (const call of calls) {
+      await (await owner.sendTransaction(call)).wait();
+    }
+
+    expect(migrated).to.have.members([
+      domain,
+      subdomain,
+      rolesDomain,
+      metadomainRole,
+    ]);
+    expect(notMigrated).to.be.empty;
+    expect(await ensRegistry.resolver(rolesNode)).to.equal(
+      ensRoleDefResolverV2.address
+    );
+    expect(await domainReader.readName(rolesNode)).to.equal(rolesDomain);
+    expect(
+      await domainReader.readResolverType(utils.namehash(metadomainRole))
+    ).to.equal(ResolverContractType.RoleDefinitionResolver_v2);
+  });
+
+  it('revokers are chosen by revoker policy', async () => {
+    const revoker = { revokerType: 'ROLE', roleName: domain };
+
+    const { calls } = await migrateToResolverV2({
+      domain,
+      domainReader,
+      domainHierarchy,
+      transactionFactory,
+      revokerPolicy: () => revoker,
+    });
+    for (const call of calls) {
+      await (await owner.sendTransaction(call)).wait();
+    }
+
+    expect(
+      await domainReader.read({ node: utils.namehash(subdomain) })
+    ).to.deep.include({ revoker });
+  });
+
+  it('domains which can not be migrated are reported', async () => {
+    const invalidSubdomain = `invalid.${domain}`;
+    await addLegacyRole(utils.namehash(domain), 'invalid', invalidSubdomain, {
+      ...legacyRole,
+      issuer: {},
+    });
+
+    const { migrated, notMigrated } = await migrateToResolverV2({
+      domain,
+      domainReader,
+      domainHierarchy,
+      transactionFactory,
+    });
+
+    expect(migrated).to.have.members([domain, subdomain]);
+    expect(notMigrated).to.have.length(1);
+    expect(notMigrated[0].domain).to.equal(invalidSubdomain);
+    expect(notMigrated[0].reason).to.match(/issuer/);
+  });
+}
@@ -0,0 +1,247 @@
+import { ContractFactory, providers, utils } from 'ethers';
+import { expect } from 'chai';
+import {
+  DomainChangeEvent,
+  DomainChangeType,
+  DomainTransactionFactoryV2,
+  DomainWatcher,
+  IRoleDefinitionV2,
+} from '../src';
+import { ENSRegistry } from '../ethers/ENSRegistry';
+import { DomainNotifier } from '../ethers/DomainNotifier';
+import { RoleDefinitionResolverV2 } from '../ethers/RoleDefinitionResolverV2';
+import { RoleDefinitionResolverV2__factory } from '../ethers/factories/RoleDefinitionResolverV2__factory';
+import { hashLabel } from './credential-governance-test';
+
+let ensFactory: ContractFactory;
+let domainNotifierFactory: ContractFactory;
+let ensRegistry: ENSRegistry;
+let domainNotifier: DomainNotifier;
+let roleDefResolver: RoleDefinitionResolverV2;
+let owner: providers.JsonRpcSigner;
+let anotherAccount: providers.JsonRpcSigner;
+let provider: providers.JsonRpcProvider;
+
+let watcher: DomainWatcher;
+let changes: DomainChangeEvent[];
+
+const domain = 'watched';
+const node = utils.namehash(domain);
+const root = `0x${'0'.repeat(64)}`;
+const emptyAddress = '0x'.padEnd(42, '0');
+
+const role: IRoleDefinitionV2 = {
+  requestorFields: [],
+  issuerFields: [],
+  issuer: {
+    issuerType: 'DID',
+    did: [`did:ethr:volta:0x7aA65E31d404A8857BA083f6195757a730b51CFe`],
+  },
+  revoker: {
+    revokerType: 'DID',
+    did: [`did:ethr:volta:0x7aA65E31d404A8857BA083f6195757a730b51CFe`],
+  },
+  metadata: [],
+  roleName: 'watchedRole',
+  roleType: 'test',
+  version: 1,
+  enrolmentPreconditions: [],
+};
+
+export function domainWatcherTestSuite(): void {
+  before(async function () {
+    ({ ensFactory, domainNotifierFactory, owner, anotherAccount, provider } =
+      this);
+  });
+
+  beforeEach(async () => {
+    ensRegistry = (await (await ensFactory.deploy()).deployed()) as ENSRegistry;
+    domainNotifier = (await (
+      await domainNotifierFactory.deploy(ensRegistry.address)
+    ).deployed()) as DomainNotifier;
+    roleDefResolver = await (
+      await new RoleDefinitionResolverV2__factory(owner).deploy(
+        ensRegistry.address,
+        domainNotifier.address
+      )
+    ).deployed();
+
+    watcher = new DomainWatcher({
+      ensRegistryAddress: ensRegistry.address,
+      domainNotifierAddress: domainNotifier.address,
+      resolverAddresses: [roleDefResolver.address],
+      provider,
+      fromBlock: (await provider.getBlockNumber()) + 1,
+    });
+    changes = [];
+    watcher.on('change', (change) => changes.push(change));
+  });
+
+  it('should stream domain creation', async () => {
+    await (
+      await ensRegistry.setSubnodeOwner(
+        root,
+        hashLabel(domain),
+        await owner.getAddress()
+      )
+    ).wait();
+
+    await watcher.poll();
+
+    expect(changes).to.have.length(1);
+    expect(changes[0]).to.deep.include({
+      type: DomainChangeType.Created,
+      node,
+      owner: await owner.getAddress(),
+      parentNode: root,
+    });
+  });
+
+  it('should stream resolver change and definition update', async () => {
+    await (
+      await ensRegistry.setSubnodeOwner(
+        root,
+        hashLabel(domain),
+        await owner.getAddress()
+      )
+    ).wait();
+    await (await ensRegistry.setResolver(node, roleDefResolver.address)).wait();
+    const factory = new DomainTransactionFactoryV2({
+      domainResolverAddress: roleDefResolver.address,
+    });
+    await (
+      await owner.sendTransaction(
+        factory.newRole({ domain, roleDefinition: role })
+      )
+    ).wait();
+
+    await watcher.poll();
+
+    expect(changes.map(({ type }) => type)).to.deep.equal([
+      DomainChangeType.Created,
+      DomainChangeType.ResolverChanged,
+      DomainChangeType.DefinitionUpdated,
+    ]);
+    expect(changes[1]).to.deep.include({ resolver: roleDefResolver.address });
+  });
+
+  it('should not stream definition update of unknown resolver', async () => {
+    await (
+      await ensRegistry.setSubnodeOwner(
+        root,
+        hashLabel(domain),
+        await owner.getAddress()
+      )
+    ).wait();
+    const unknownResolver = await (
+      await new RoleDefinitionResolverV2__factory(owner).deploy(
+        ensRegistry.address,
+        domainNotifier.address
+      )
+    ).deployed();
+    const factory = new DomainTransactionFactoryV2({
+      domainResolverAddress: unknownResolver.address,
+    });
+    await (
+      await owner.sendTransaction(
+        factory.newRole({ domain, roleDefinition: role })
+      )
+    ).wait();
+
+    await watcher.poll();
+
+    expect(changes.map(({ type }) => type)).to.deep.equal([
+      DomainChangeType.Created,
+    ]);
+  });
+
+  it('should stream changes polled in chunks', async () => {
+    watcher = new DomainWatcher({
+      ensRegistryAddress: ensRegistry.address,
+      domainNotifierAddress: domainNotifier.address,
+      resolverAddresses: [roleDefResolver.address],
+      provider,
+      fromBlock: (await provider.getBlockNumber()) + 1,
+      logsBlockRange: 1,
+    });
+    watcher.on('change', (change) => changes.push(change));
+    await (
+      await ensRegistry.setSubnodeOwner(
+        root,
+        hashLabel(domain),
+        await owner.getAddress()
+      )
+    ).wait();
+    await (await ensRegistry.setResolver(node, roleDefResolver.address)).wait();
+
+    await watcher.poll();
+
+    expect(changes.map(({ type }) => type)).to.deep.equal([
+      DomainChangeType.Created,
+      DomainChangeType.ResolverChanged,
+    ]);
+  });
+
+  it('should stream ownership transfer and domain deletion', async () => {
+    await (
+      await ensRegistry.setSubnodeOwner(
+        root,
+        hashLabel(domain),
+        await owner.getAddress()
+      )
+    ).wait();
+    await (
+      await ensRegistry.setOwner(node, await anotherAccount.getAddress())
+    ).wait();
+    await (
+      await ensRegistry.setSubnodeOwner(root, hashLabel(domain), emptyAddress)
+    ).wait();
+
+    await watcher.poll();
+
+    expect(changes.map(({ type }) => type)).to.deep.equal([
+      DomainChangeType.Created,
+      DomainChangeType.OwnershipTransferred,
+      DomainChangeType.Deleted,
+    ]);
+    expect(changes[1]).to.deep.include({
+      owner: await anotherAccount.getAddress(),
+    });
+  });
+
+  it('should emit changes by type', async () => {
+    const created: DomainChangeEvent[] = [];
+    watcher.on(DomainChangeType.Created, (change) => created.push(change));
+    await (
+      await ensRegistry.setSubnodeOwner(
+        root,
+        hashLabel(domain),
+        await owner.getAddress()
+      )
+    ).wait();
+    await (await ensRegistry.setResolver(node, roleDefResolver.address)).wait();
+
+    await watcher.poll();
+
+    expect(created).to.have.length(1);
+    expect(created[0].node).to.equal(node);
+  });
+
+  it('should iterate over changes', async () => {
+    const iterator = watcher[Symbol.asyncIterator]();
+    const next = iterator.next();
+    await (
+      await ensRegistry.setSubnodeOwner(
+        root,
+        hashLabel(domain),
+        await owner.getAddress()
+      )
+    ).wait();
+
+    await watcher.poll();
+
+    const { value } = await next;
+    expect(value).to.deep.include({ type: DomainChangeType.Created, node });
+    await iterator.return?.();
+  });
+}
@@ -0,0 +1,104 @@
+import { expect } from 'chai';
+import {
+  IRoleDefinitionText,
+  validateFieldValues,
+  validateIssuerFields,
+  validateRequestorFields,
+} from '../src';
+
+const role: IRoleDefinitionText = {
+  roleName: 'installer',
+  roleType: 'test',
+  metadata: [],
+  requestorFields: [
+    {
+      fieldType: 'text',
+      label: 'name',
+      required: true,
+      minLength: 2,
+      maxLength: 10,
+      pattern: '^[A-Za-z ]+$',
+    },
+    { fieldType: 'number', label: 'age', minValue: 18, maxValue: 120 },
+  ],
+  issuerFields: [
+    {
+      fieldType: 'date',
+      label: 'certifiedAt',
+      required: true,
+      minDate: new Date('2020-01-01'),
+      maxDate: new Date('2030-01-01'),
+    },
+    { fieldType: 'boolean', label: 'approved' },
+  ],
+};
+
+export function fieldValidationTestSuite(): void {
+  it('should accept valid requestor fields', () => {
+    expect(validateRequestorFields(role, { name: 'John Doe', age: '42' })).to.be
+      .empty;
+  });
+
+  it('should reject missing required field', () => {
+    expect(validateRequestorFields(role, { age: 42 })).to.deep.equal([
+      { field: 'name', message: 'is required' },
+    ]);
+  });
+
+  it('should reject violated constraints of requestor fields', () => {
+    const errors = validateRequestorFields(role, {
+      name: 'J0hn Doe the Third',
+      age: 17,
+    });
+
+    expect(errors).to.deep.equal([
+      { field: 'name', message: 'should be at most 10 characters long' },
+      { field: 'name', message: 'should match pattern ^[A-Za-z ]+$' },
+      { field: 'age', message: 'should be at least 18' },
+    ]);
+  });
+
+  it('should reject value of wrong type', () => {
+    expect(
+      validateRequestorFields(role, { name: 'John', age: 'forty' })
+    ).to.deep.equal([{ field: 'age', message: 'should be a number' }]);
+  });
+
+  it('should reject field not defined by role', () => {
+    expect(
+      validateRequestorFields(role, { name: 'John', email: 'john@example.com' })
+    ).to.deep.equal([
+      { field: 'email', message: 'is not defined by the role' },
+    ]);
+  });
+
+  it('should accept valid issuer fields', () => {
+    expect(
+      validateIssuerFields(role, [
+        { key: 'certifiedAt', value: '2024-06-01' },
+        { key: 'approved', value: 'true' },
+      ])
+    ).to.be.empty;
+  });
+
+  it('should reject issuer field out of date range', () => {
+    expect(
+      validateIssuerFields(role, [
+        { key: 'certifiedAt', value: '2019-12-31' },
+        { key: 'approved', value: 'maybe' },
+      ])
+    ).to.deep.equal([
+      {
+        field: 'certifiedAt',
+        message: 'should not be earlier than 2020-01-01T00:00:00.000Z',
+      },
+      { field: 'approved', message: 'should be a boolean' },
+    ]);
+  });
+
+  it('should accept any values when fields are not defined', () => {
+    expect(validateFieldValues(undefined, {})).to.be.empty;
+    expect(validateIssuerFields({ ...role, issuerFields: undefined }, [])).to.be
+      .empty;
+  });
+}
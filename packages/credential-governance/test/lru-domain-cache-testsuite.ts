@@ -0,0 +1,43 @@
+import { expect } from 'chai';
+import { LruDomainCache } from '../src';
+
+export function lruDomainCacheTestSuite(): void {
+  let cache: LruDomainCache;
+
+  beforeEach(() => {
+    cache = new LruDomainCache({ maxSize: 2 });
+  });
+
+  it('should return cached value', async () => {
+    await cache.set('key', { roleName: 'role' });
+
+    expect(await cache.get('key')).to.eql({ roleName: 'role' });
+  });
+
+  it('should evict least recently used value', async () => {
+    await cache.set('first', 1);
+    await cache.set('second', 2);
+    await cache.get('first');
+    await cache.set('third', 3);
+
+    expect(await cache.get('first')).to.equal(1);
+    expect(await cache.get('second')).to.be.undefined;
+    expect(await cache.get('third')).to.equal(3);
+  });
+
+  it('should delete value', async () => {
+    await cache.set('key', 1);
+    await cache.delete('key');
+
+    expect(await cache.get('key')).to.be.undefined;
+  });
+
+  it('should clear all values', async () => {
+    await cache.set('first', 1);
+    await cache.set('second', 2);
+    await cache.clear();
+
+    expect(await cache.get('first')).to.be.undefined;
+    expect(await cache.get('second')).to.be.undefined;
+  });
+}
@@ -0,0 +1,60 @@
+import { expect } from 'chai';
+import {
+  ChainIsNotSupported,
+  chainIdToChainName,
+  EWC_CHAIN_ID,
+  EWC_NETWORK,
+  NetworkRegistry,
+  VOLTA_CHAIN_ID,
+  VOLTA_NETWORK,
+} from '../src';
+
+const testChainId = 1337;
+const ensRegistryAddress = '0x7aA65E31d404A8857BA083f6195757a730b51CFe';
+
+export function networkRegistryTestSuite(): void {
+  let registry: NetworkRegistry;
+
+  beforeEach(() => {
+    registry = new NetworkRegistry([VOLTA_NETWORK, EWC_NETWORK]);
+  });
+
+  it('should return registered network', () => {
+    expect(registry.get(VOLTA_CHAIN_ID)).to.eql(VOLTA_NETWORK);
+    expect(registry.get(EWC_CHAIN_ID)).to.eql(EWC_NETWORK);
+  });
+
+  it('should register network at runtime', () => {
+    registry.register({
+      chainId: testChainId,
+      chainName: 'test',
+      ensRegistryAddress,
+    });
+
+    expect(registry.get(testChainId).ensRegistryAddress).to.equal(
+      ensRegistryAddress
+    );
+    expect(chainIdToChainName(testChainId, registry)).to.equal('test');
+    expect(registry.list()).to.have.length(3);
+  });
+
+  it('should override addresses of registered network', () => {
+    registry.register({
+      chainId: VOLTA_CHAIN_ID,
+      chainName: VOLTA_NETWORK.chainName,
+      ensRegistryAddress,
+    });
+
+    expect(registry.get(VOLTA_CHAIN_ID)).to.eql({
+      ...VOLTA_NETWORK,
+      ensRegistryAddress,
+    });
+  });
+
+  it('should throw for not registered network', () => {
+    expect(() => registry.get(testChainId)).to.throw(ChainIsNotSupported);
+    expect(() => chainIdToChainName(testChainId, registry)).to.throw(
+      ChainIsNotSupported
+    );
+  });
+}
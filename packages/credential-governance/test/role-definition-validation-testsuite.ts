@@ -0,0 +1,207 @@
+import { expect } from 'chai';
+import {
+  DomainTransactionFactoryV2,
+  InvalidRoleDefinition,
+  IRoleDefinitionV2,
+  PreconditionType,
+  validateRoleDefinitionV2,
+} from '../src';
+
+const issuerDid = 'did:ethr:volta:0x7aA65E31d404A8857BA083f6195757a730b51CFe';
+
+const role: IRoleDefinitionV2 = {
+  requestorFields: [
+    {
+      fieldType: 'text',
+      label: 'name',
+      required: true,
+      minLength: 2,
+      maxLength: 10,
+    },
+  ],
+  issuerFields: [],
+  issuer: { issuerType: 'DID', did: [issuerDid] },
+  revoker: { revokerType: 'ROLE', roleName: 'revoker.roles.iam.ewc' },
+  metadata: [],
+  roleName: 'myRole',
+  roleType: 'test',
+  version: 1,
+  enrolmentPreconditions: [
+    { type: PreconditionType.Role, conditions: ['user.roles.iam.ewc'] },
+  ],
+};
+
+export function roleDefinitionValidationTestSuite(): void {
+  it('should accept valid role definition', () => {
+    expect(validateRoleDefinitionV2(role)).to.be.empty;
+  });
+
+  it('should reject malformed issuer DID', () => {
+    const errors = validateRoleDefinitionV2({
+      ...role,
+      issuer: { issuerType: 'DID', did: [issuerDid, 'did:ethr:volta:0x7aA6'] },
+    });
+
+    expect(errors).to.have.length(1);
+    expect(errors[0].path).to.equal('issuer.did[1]');
+  });
+
+  it('should accept issuer and revoker DIDs of key and web methods', () => {
+    expect(
+      validateRoleDefinitionV2({
+        ...role,
+        issuer: {
+          issuerType: 'DID',
+          did: [
+            issuerDid,
+            'did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK',
+          ],
+        },
+        revoker: { revokerType: 'DID', did: ['did:web:example.com'] },
+      })
+    ).to.be.empty;
+  });
+
+  it('should reject issuer DID of not supported method', () => {
+    const errors = validateRoleDefinitionV2({
+      ...role,
+      issuer: { issuerType: 'DID', did: ['did:example:123456789abcdefghi'] },
+    });
+
+    expect(errors.map(({ path }) => path)).to.deep.equal(['issuer.did[0]']);
+  });
+
+  it('should accept multi-role issuer and revoker', () => {
+    expect(
+      validateRoleDefinitionV2({
+        ...role,
+        issuer: {
+          issuerType: 'ALL_OF_ROLES',
+          roleNames: ['operator.roles.iam.ewc'],
+        },
+        revoker: {
+          revokerType: 'DID_OR_ROLE',
+          did: ['did:web:example.com'],
+          roleName: 'revoker.roles.iam.ewc',
+        },
+      })
+    ).to.be.empty;
+  });
+
+  it('should reject multi-role issuer and revoker which can not be stored on chain', () => {
+    const errors = validateRoleDefinitionV2({
+      ...role,
+      issuer: {
+        issuerType: 'ANY_OF_ROLES',
+        roleNames: ['operator.roles.iam.ewc', 'auditor.roles.iam.ewc'],
+      },
+      revoker: {
+        revokerType: 'DID_OR_ROLE',
+        did: [issuerDid],
+        roleName: 'revoker.roles.iam.ewc',
+      },
+    });
+
+    expect(errors.map(({ path }) => path)).to.have.members([
+      'issuer.roleNames',
+      'revoker.did',
+    ]);
+  });
+
+  it('should reject multi-role issuer without roles', () => {
+    const errors = validateRoleDefinitionV2({
+      ...role,
+      issuer: { issuerType: 'ANY_OF_ROLES', roleNames: [], did: [issuerDid] },
+    });
+
+    expect(errors.map(({ path }) => path)).to.have.members([
+      'issuer.roleNames',
+      'issuer.did',
+    ]);
+  });
+
+  it('should reject missing revoker', () => {
+    const errors = validateRoleDefinitionV2({
+      ...role,
+      revoker: undefined,
+    } as unknown as IRoleDefinitionV2);
+
+    expect(errors.map(({ path }) => path)).to.deep.equal(['revoker']);
+  });
+
+  it('should accept role without issuers and revokers as read from resolver', () => {
+    const roleWithoutAuthorities = { ...role, issuer: {}, revoker: {} };
+    const factory = new DomainTransactionFactoryV2({
+      domainResolverAddress: '0x7aA65E31d404A8857BA083f6195757a730b51CFe',
+    });
+
+    expect(validateRoleDefinitionV2(roleWithoutAuthorities)).to.be.empty;
+    expect(() =>
+      factory.editDomain({
+        domain: 'myrole.roles.iam.ewc',
+        domainDefinition: roleWithoutAuthorities,
+      })
+    ).not.to.throw();
+  });
+
+  it('should reject inconsistent issuer type', () => {
+    const errors = validateRoleDefinitionV2({
+      ...role,
+      issuer: { issuerType: 'ROLE', did: [issuerDid] },
+    });
+
+    expect(errors.map(({ path }) => path)).to.have.members([
+      'issuer.roleName',
+      'issuer.did',
+    ]);
+  });
+
+  it('should reject field with minLength greater than maxLength', () => {
+    const errors = validateRoleDefinitionV2({
+      ...role,
+      requestorFields: [
+        { fieldType: 'text', label: 'name', minLength: 10, maxLength: 2 },
+      ],
+    });
+
+    expect(errors.map(({ path }) => path)).to.deep.equal([
+      'requestorFields[0].minLength',
+    ]);
+  });
+
+  it('should reject unknown precondition type and invalid namespace', () => {
+    const errors = validateRoleDefinitionV2({
+      ...role,
+      enrolmentPreconditions: [
+        {
+          type: 'unknown' as PreconditionType,
+          conditions: ['user..iam.ewc'],
+        },
+      ],
+    });
+
+    expect(errors.map(({ path }) => path)).to.have.members([
+      'enrolmentPreconditions[0].type',
+      'enrolmentPreconditions[0].conditions[0]',
+    ]);
+  });
+
+  it('should not encode invalid role definition', () => {
+    const factory = new DomainTransactionFactoryV2({
+      domainResolverAddress: '0x7aA65E31d404A8857BA083f6195757a730b51CFe',
+    });
+
+    expect(() =>
+      factory.newRole({
+        domain: 'myrole.roles.iam.ewc',
+        roleDefinition: { ...role, version: -1 },
+      })
+    ).to.throw(InvalidRoleDefinition);
+    expect(() =>
+      factory.editDomain({
+        domain: 'myrole.roles.iam.ewc',
+        domainDefinition: { ...role, version: -1 },
+      })
+    ).to.throw(InvalidRoleDefinition);
+  });
+}
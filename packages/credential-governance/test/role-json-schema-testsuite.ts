@@ -0,0 +1,147 @@
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import {
+  DomainReader,
+  fieldsJsonSchema,
+  IRoleDefinitionV2,
+  issuerFieldsJsonSchema,
+  JSON_SCHEMA_DIALECT,
+  NotRoleDomain,
+  RoleSchemaGenerator,
+} from '../src';
+
+chai.use(chaiAsPromised);
+const expect = chai.expect;
+
+const namespace = 'installer.roles.myorg.iam.ewc';
+const schemaBaseUrl = 'https://schemas.example.com/roles/';
+
+const role: IRoleDefinitionV2 = {
+  roleName: 'installer',
+  roleType: 'test',
+  version: 2,
+  metadata: [],
+  enrolmentPreconditions: [],
+  issuer: {
+    issuerType: 'DID',
+    did: ['did:ethr:volta:0x7aA65E31d404A8857BA083f6195757a730b51CFe'],
+  },
+  revoker: { revokerType: 'ROLE', roleName: 'revoker.roles.iam.ewc' },
+  requestorFields: [
+    {
+      fieldType: 'text',
+      label: 'name',
+      required: true,
+      minLength: 2,
+      pattern: '^[A-Za-z ]+$',
+    },
+    { fieldType: 'number', label: 'age', minValue: 18 },
+  ],
+  issuerFields: [
+    {
+      fieldType: 'date',
+      label: 'certifiedAt',
+      required: true,
+      minDate: new Date('2020-01-01'),
+    },
+  ],
+};
+
+export function roleJsonSchemaTestSuite(): void {
+  it('should convert field definitions to JSON Schema', () => {
+    expect(fieldsJsonSchema(role.requestorFields)).to.deep.equal({
+      type: 'object',
+      properties: {
+        name: {
+          title: 'name',
+          type: 'string',
+          minLength: 2,
+          pattern: '^[A-Za-z ]+$',
+        },
+        age: { title: 'age', type: 'number', minimum: 18 },
+      },
+      required: ['name'],
+      additionalProperties: false,
+    });
+  });
+
+  it('should convert issuer fields to JSON Schema of key-value list', () => {
+    expect(issuerFieldsJsonSchema(role.issuerFields)).to.deep.equal({
+      type: 'array',
+      items: {
+        anyOf: [
+          {
+            type: 'object',
+            properties: {
+              key: { const: 'certifiedAt' },
+              value: {
+                title: 'certifiedAt',
+                type: 'string',
+                format: 'date',
+                formatMinimum: '2020-01-01',
+              },
+            },
+            required: ['key', 'value'],
+          },
+        ],
+      },
+      allOf: [
+        {
+          contains: {
+            properties: { key: { const: 'certifiedAt' } },
+            required: ['key'],
+          },
+        },
+      ],
+    });
+    expect(issuerFieldsJsonSchema([])).to.deep.equal({
+      type: 'array',
+      items: false,
+    });
+  });
+
+  describe('RoleSchemaGenerator', () => {
+    const generator = new RoleSchemaGenerator({
+      domainReader: {
+        read: async () => role,
+      } as unknown as DomainReader,
+      schemaBaseUrl,
+    });
+
+    it('should generate schema of requestor fields', async () => {
+      const schema = await generator.requestorFieldsSchema(namespace);
+
+      expect(schema).to.deep.equal({
+        $schema: JSON_SCHEMA_DIALECT,
+        $id: `https://schemas.example.com/roles/${namespace}/v2/requestor-fields.json`,
+        title: 'installer requestor fields',
+        ...fieldsJsonSchema(role.requestorFields),
+      });
+    });
+
+    it('should generate credential schema referencing versioned role schema', async () => {
+      const credentialSchema = await generator.credentialSchema(namespace);
+      const schema = await generator.credentialJsonSchema(namespace);
+
+      expect(credentialSchema).to.deep.equal({
+        id: `https://schemas.example.com/roles/${namespace}/v2/credential.json`,
+        type: 'JsonSchema',
+      });
+      expect(schema.$id).to.equal(credentialSchema.id);
+      expect(schema.required).to.deep.equal(['credentialSubject']);
+    });
+
+    it('should reject domain which is not a role', async () => {
+      const orgGenerator = new RoleSchemaGenerator({
+        domainReader: {
+          read: async () => ({ orgName: 'myorg' }),
+        } as unknown as DomainReader,
+        schemaBaseUrl,
+      });
+
+      await expect(
+        orgGenerator.credentialSchema('myorg.iam.ewc')
+      ).to.be.rejectedWith(NotRoleDomain);
+    });
+  });
+}
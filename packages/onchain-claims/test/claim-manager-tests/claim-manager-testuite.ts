@@ -322,6 +322,103 @@ function testSuite() {
     ).true;
   });
 
+  it('Role can be assigned when issuer type is ANY_OF_ROLES', async () => {
+    await (
+      await deployer.sendTransaction(
+        roleFactory.editDomain({
+          domain: deviceRole,
+          domainDefinition: {
+            roleName: deviceRole,
+            enrolmentPreconditions: [],
+            requestorFields: [],
+            issuerFields: [],
+            issuer: {
+              issuerType: 'ANY_OF_ROLES',
+              roleNames: [installerRole],
+            },
+            revoker: { revokerType: 'ROLE', roleName: installerRole },
+            metadata: [],
+            roleType: '',
+            version: defaultVersion,
+          },
+        })
+      )
+    ).wait();
+    await requestRole({
+      claimManager,
+      roleName: authorityRole,
+      agreementSigner: authority,
+      proofSigner: authority,
+    });
+    await requestRole({
+      claimManager,
+      roleName: installerRole,
+      agreementSigner: installer,
+      proofSigner: authority,
+    });
+
+    await requestRole({
+      claimManager,
+      roleName: deviceRole,
+      agreementSigner: device,
+      proofSigner: installer,
+    });
+
+    expect(
+      await claimManager.hasRole(
+        deviceAddr,
+        utils.namehash(deviceRole),
+        defaultVersion
+      )
+    ).true;
+  });
+
+  it('Role can be assigned by role holder when issuer type is DID_OR_ROLE', async () => {
+    await (
+      await deployer.sendTransaction(
+        roleFactory.editDomain({
+          domain: installerRole,
+          domainDefinition: {
+            roleName: installerRole,
+            enrolmentPreconditions: [],
+            requestorFields: [],
+            issuerFields: [],
+            issuer: {
+              issuerType: 'DID_OR_ROLE',
+              did: ['did:web:example.com'],
+              roleName: authorityRole,
+            },
+            revoker: { revokerType: 'ROLE', roleName: authorityRole },
+            metadata: [],
+            roleType: '',
+            version: defaultVersion,
+          },
+        })
+      )
+    ).wait();
+    await requestRole({
+      claimManager,
+      roleName: authorityRole,
+      agreementSigner: authority,
+      proofSigner: authority,
+    });
+
+    await requestRole({
+      claimManager,
+      roleName: installerRole,
+      agreementSigner: installer,
+      proofSigner: authority,
+    });
+
+    expect(
+      await claimManager.hasRole(
+        installerAddr,
+        utils.namehash(installerRole),
+        defaultVersion
+      )
+    ).true;
+  });
+
   it('Role cannot be issued again', async () => {
     await requestRole({
       claimManager,
@@ -1,5 +1,7 @@
 import type { StatusList2021Entry } from '@ew-did-registry/credentials-interface';
+import type { IServiceEndpoint } from '@ew-did-registry/did-resolver-interface';
 import { JwtPayload } from 'jsonwebtoken';
+import { providers } from 'ethers';
 
 export interface VerificationResult {
   verified: boolean;
@@ -31,3 +33,27 @@ export interface RoleEIP191JWT {
   payload: RolePayload;
   eip191Jwt: string;
 }
+
+/**
+ * Point in time at which role definition is resolved. `blockTag` takes precedence over `timestamp`
+ */
+export interface PointInTime {
+  blockTag?: providers.BlockTag;
+  // Unix time in seconds
+  timestamp?: number;
+}
+
+/**
+ * DID document resolved by `DIDResolver`. Only the properties used in verification are typed
+ */
+export interface DIDDocument {
+  '@context'?: string | string[];
+  id: string;
+  verificationMethod?: {
+    id: string;
+    type: string;
+    controller: string;
+    publicKeyMultibase?: string;
+  }[];
+  service?: IServiceEndpoint[];
+}
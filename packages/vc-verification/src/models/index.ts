@@ -1 +1,3 @@
 export * from './credentials-types';
+export * from './verification-report';
+export * from './role-definition-checks';
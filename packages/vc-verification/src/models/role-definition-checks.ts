@@ -0,0 +1,10 @@
+/**
+ * Checks of credentials against the definitions of their roles. Role definitions are read with `DomainReader`
+ * passed to the verifier, so the checks are only performed when it is provided
+ */
+export interface RoleDefinitionChecks {
+  // Issuer fields of Verifiable Credential should conform to `issuerFields` of the role definition
+  validateIssuerFields?: boolean;
+  // Credential without expiration date expires after `defaultValidityPeriod` of the role
+  enforceDefaultValidity?: boolean;
+}
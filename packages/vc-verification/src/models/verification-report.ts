@@ -0,0 +1,72 @@
+import type { ERRORS } from '../utils/errors';
+import { VerificationResult } from './credentials-types';
+
+/**
+ * Machine-readable code of verification error, which is the key of its message in `ERRORS`
+ */
+export type ErrorCode = keyof typeof ERRORS;
+
+export enum VerificationCheckType {
+  // Holder has credential of the role
+  Credential = 'credential',
+  // Credential is signed by its issuer
+  Proof = 'proof',
+  // Credential has not expired
+  Expiry = 'expiry',
+  // Issuer fields of credential conform to the role definition
+  IssuerFields = 'issuerFields',
+  // Credential has not been revoked
+  Revocation = 'revocation',
+  // Issuer is authorized to issue the role
+  Authority = 'authority',
+}
+
+/**
+ * Outcome of the check of the issuer chain link. Checks are skipped after the first failed check of the link
+ */
+export type CheckOutcome = 'passed' | 'failed' | 'skipped';
+
+/**
+ * Check performed during verification
+ */
+export interface VerificationCheck {
+  type: VerificationCheckType;
+  // DID whose credential or authority is checked
+  did: string;
+  role: string;
+  passed: boolean;
+  // Code of the error if check failed
+  code?: ErrorCode;
+  durationMs: number;
+}
+
+/**
+ * Credential of the issuer chain walked during verification
+ */
+export interface IssuerChainLink {
+  // DID of the credential holder
+  did: string;
+  role: string;
+  credentialId?: string;
+  credentialType?: 'VerifiableCredential' | 'RoleEIP191JWT';
+  // DID of the credential issuer
+  issuer?: string;
+  proof: CheckOutcome;
+  revocation: CheckOutcome;
+  // Expiration time of the credential in ISO format
+  expiry?: string;
+}
+
+/**
+ * Result of verification with the issuer chain and the checks which led to it.
+ * `verified` and `error` are the verdict of the verification
+ */
+export interface VerificationReport extends VerificationResult {
+  // Code of the error if verification failed
+  code?: ErrorCode;
+  chain: IssuerChainLink[];
+  checks: VerificationCheck[];
+  // Start time of the verification in ISO format
+  startedAt: string;
+  durationMs: number;
+}
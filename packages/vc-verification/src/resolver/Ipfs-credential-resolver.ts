@@ -1,7 +1,6 @@
 import { providers, utils } from 'ethers';
 import { DidStore } from '@ew-did-registry/did-ipfs-store';
 import { IDidStore } from '@ew-did-registry/did-store-interface';
-import { Resolver } from '@ew-did-registry/did-ethr-resolver';
 import {
   RegistrySettings,
   IServiceEndpoint,
@@ -16,20 +15,35 @@ import {
   isCID,
 } from '../utils';
 import { CredentialResolver } from './credential-resolver';
+import { DIDResolver, UniversalDIDResolver } from './did-resolver';
+import { EthrDIDResolver } from './ethr-did-resolver';
+import { KeyDIDResolver } from './key-did-resolver';
+import { WebDIDResolver } from './web-did-resolver';
 import { VerifiableCredential } from '@ew-did-registry/credentials-interface';
 import type { RoleCredentialSubject } from '@energyweb/credential-governance';
 
 export class IpfsCredentialResolver implements CredentialResolver {
   private _ipfsStore: IDidStore;
-  private _resolver: Resolver;
+  private _didResolver: DIDResolver;
 
+  /**
+   * @param didResolver resolver of the DID documents whose services reference credentials.
+   * By default ethr, key and web DIDs are resolved
+   */
   constructor(
     provider: providers.Provider,
     registrySetting: RegistrySettings,
-    didStore: DidStore
+    didStore: DidStore,
+    didResolver?: DIDResolver
   ) {
     this._ipfsStore = didStore;
-    this._resolver = new Resolver(provider, registrySetting);
+    this._didResolver =
+      didResolver ??
+      new UniversalDIDResolver({
+        ethr: new EthrDIDResolver(provider, registrySetting),
+        key: new KeyDIDResolver(),
+        web: new WebDIDResolver(),
+      });
   }
 
   /**
@@ -121,7 +135,7 @@ export class IpfsCredentialResolver implements CredentialResolver {
    * @returns RoleEIP191JWT list
    */
   async eip191JwtsOf(did: string): Promise<RoleEIP191JWT[]> {
-    const didDocument = await this._resolver.read(did);
+    const didDocument = await this._didResolver.resolve(did);
     const services: IServiceEndpoint[] = didDocument.service || [];
     return (
       await Promise.all(
@@ -155,7 +169,7 @@ export class IpfsCredentialResolver implements CredentialResolver {
   async credentialsOf(
     did: string
   ): Promise<VerifiableCredential<RoleCredentialSubject>[]> {
-    const didDocument = await this._resolver.read(did);
+    const didDocument = await this._didResolver.resolve(did);
     const services: IServiceEndpoint[] = didDocument.service || [];
     return (
       await Promise.all(
@@ -0,0 +1,49 @@
+import { DID } from '@energyweb/credential-governance';
+import { DIDDocument } from '../models';
+import { DIDMethodNotSupported } from '../utils/errors';
+
+/**
+ * An interface for resolution of DID documents
+ */
+export interface DIDResolver {
+  /**
+   * Resolves document of the DID
+   * @param did DID or DID URL to resolve
+   * @returns DID document
+   */
+  resolve(did: string): Promise<DIDDocument>;
+}
+
+/**
+ * Resolves DID documents with the resolver of the DID method
+ *
+ * ```typescript
+ * const didResolver = new UniversalDIDResolver({
+ *   ethr: new EthrDIDResolver(provider, registrySettings),
+ *   key: new KeyDIDResolver(),
+ *   web: new WebDIDResolver(),
+ * });
+ * const document = await didResolver.resolve('did:web:example.com');
+ * ```
+ */
+export class UniversalDIDResolver implements DIDResolver {
+  /**
+   * @param resolvers resolvers by the names of DID methods
+   */
+  constructor(private resolvers: Record<string, DIDResolver>) {}
+
+  /**
+   * Resolves document of the DID
+   * @param did DID or DID URL to resolve
+   * @returns DID document
+   * @throws {DIDMethodNotSupported} if there is no resolver of DID method
+   */
+  async resolve(did: string): Promise<DIDDocument> {
+    const { method } = new DID(did);
+    const resolver = this.resolvers[method];
+    if (!resolver) {
+      throw new DIDMethodNotSupported(did);
+    }
+    return resolver.resolve(did);
+  }
+}
@@ -0,0 +1,20 @@
+import { providers } from 'ethers';
+import { Resolver } from '@ew-did-registry/did-ethr-resolver';
+import { RegistrySettings } from '@ew-did-registry/did-resolver-interface';
+import { DIDDocument } from '../models';
+import { DIDResolver } from './did-resolver';
+
+/**
+ * Resolves documents of ethr DIDs from ERC-1056 registry
+ */
+export class EthrDIDResolver implements DIDResolver {
+  private _resolver: Resolver;
+
+  constructor(provider: providers.Provider, registrySetting: RegistrySettings) {
+    this._resolver = new Resolver(provider, registrySetting);
+  }
+
+  async resolve(did: string): Promise<DIDDocument> {
+    return this._resolver.read(did);
+  }
+}
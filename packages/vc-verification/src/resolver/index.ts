@@ -2,3 +2,7 @@ export * from './Ipfs-credential-resolver';
 export * from './credential-resolver';
 export * from './issuer-resolver';
 export * from './revoker-resolver';
+export * from './did-resolver';
+export * from './ethr-did-resolver';
+export * from './key-did-resolver';
+export * from './web-did-resolver';
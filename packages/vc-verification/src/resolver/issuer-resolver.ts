@@ -1,6 +1,7 @@
 import { DomainReader } from '@energyweb/credential-governance';
 import type { IIssuerDefinition } from '@energyweb/credential-governance';
 import { utils } from 'ethers';
+import { PointInTime } from '../models';
 
 /**
  * An interface for Resolution of Issuers for a namespace
@@ -9,10 +10,12 @@ export interface IssuerResolver {
   /**
    * Fetches authorised issuers for the provided namespace
    * @param namespace for which the issuers needs to be fetched
+   * @param at point in time at which the issuers are fetched. By default the current issuers are fetched
    * @returns IIssuerDefinition for the namespace
    */
   getIssuerDefinition(
-    namespace: string
+    namespace: string,
+    at?: PointInTime
   ): Promise<IIssuerDefinition | undefined>;
 }
 
@@ -35,16 +38,24 @@ export class EthersProviderIssuerResolver implements IssuerResolver {
    * const issuers = issuerResolver.getIssuerDefinition(sampleRole);
    * ```
    * @param namespace for which the issuers need to be fetched
+   * @param at block or timestamp at which the issuers are fetched. Timestamp is mapped to the latest block mined before it
    * @returns IIssuerDefinition for the namespace from blockchain contract
    */
   async getIssuerDefinition(
-    namespace: string
+    namespace: string,
+    at?: PointInTime
   ): Promise<IIssuerDefinition | undefined> {
     const resolvedNamespace = namespace.startsWith('0x')
       ? namespace
       : utils.namehash(namespace);
+    const blockTag =
+      at?.blockTag ??
+      (at?.timestamp !== undefined
+        ? await this._domainReader.findBlockByTimestamp(at.timestamp)
+        : undefined);
     const roleDefinition = await this._domainReader.read({
       node: resolvedNamespace,
+      blockTag,
     });
     if (DomainReader.isRoleDefinitionV2(roleDefinition)) {
       return roleDefinition.issuer;
@@ -0,0 +1,38 @@
+import { DID } from '@energyweb/credential-governance';
+import { DIDDocument } from '../models';
+import { DIDDocumentNotResolved, DIDMethodNotSupported } from '../utils/errors';
+import { DIDResolver } from './did-resolver';
+
+/**
+ * Resolves documents of key DIDs, which are derived from the public key encoded in the DID
+ * https://w3c-ccg.github.io/did-method-key/
+ */
+export class KeyDIDResolver implements DIDResolver {
+  async resolve(did: string): Promise<DIDDocument> {
+    const { method, id } = new DID(did);
+    if (method !== 'key') {
+      throw new DIDMethodNotSupported(did);
+    }
+    // Public key is multibase encoded with base58btc
+    if (!id.startsWith('z')) {
+      throw new DIDDocumentNotResolved(
+        did,
+        'public key should be base58btc encoded'
+      );
+    }
+    const keyDid = `did:key:${id}`;
+    const verificationMethodId = `${keyDid}#${id}`;
+    return {
+      '@context': ['https://www.w3.org/ns/did/v1'],
+      id: keyDid,
+      verificationMethod: [
+        {
+          id: verificationMethodId,
+          type: 'Multikey',
+          controller: keyDid,
+          publicKeyMultibase: id,
+        },
+      ],
+    };
+  }
+}
@@ -1,6 +1,7 @@
 import { DomainReader } from '@energyweb/credential-governance';
 import type { IRevokerDefinition } from '@energyweb/credential-governance';
 import { utils } from 'ethers';
+import { PointInTime } from '../models';
 
 /**
  * An interface for Resolution of revokers for a namespace
@@ -9,10 +10,12 @@ export interface RevokerResolver {
   /**
    * Fetches authorised revokers for the provided namespace
    * @param namespace
+   * @param at point in time at which the revokers are fetched. By default the current revokers are fetched
    * @returns IRevokerDefinition for the namespace
    */
   getRevokerDefinition(
-    namespace: string
+    namespace: string,
+    at?: PointInTime
   ): Promise<IRevokerDefinition | undefined>;
 }
 
@@ -35,16 +38,24 @@ export class EthersProviderRevokerResolver implements RevokerResolver {
    * const revokers = revokerResolver.getRevokerDefinition(role);
    * ```
    * @param namespace for which revokers need to be fetched
+   * @param at block or timestamp at which the revokers are fetched. Timestamp is mapped to the latest block mined before it
    * @returns IRevokerDefinition for the namespace from blockchain contract
    */
   async getRevokerDefinition(
-    namespace: string
+    namespace: string,
+    at?: PointInTime
   ): Promise<IRevokerDefinition | undefined> {
     const resolvedNamespace = namespace.startsWith('0x')
       ? namespace
       : utils.namehash(namespace);
+    const blockTag =
+      at?.blockTag ??
+      (at?.timestamp !== undefined
+        ? await this._domainReader.findBlockByTimestamp(at.timestamp)
+        : undefined);
     const roleDefinition = await this._domainReader.read({
       node: resolvedNamespace,
+      blockTag,
     });
     if (DomainReader.isRoleDefinitionV2(roleDefinition)) {
       return roleDefinition.revoker;
@@ -0,0 +1,63 @@
+import { DID } from '@energyweb/credential-governance';
+import { DIDDocument } from '../models';
+import { DIDDocumentNotResolved, DIDMethodNotSupported } from '../utils/errors';
+import { DIDResolver } from './did-resolver';
+
+const fetchJson = async (url: string): Promise<unknown> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`${url} responded with status ${response.status}`);
+  }
+  return response.json();
+};
+
+/**
+ * Resolves documents of web DIDs, which are hosted on the domain of the DID
+ * https://w3c-ccg.github.io/did-method-web/
+ */
+export class WebDIDResolver implements DIDResolver {
+  /**
+   * @param fetchDocument fetches JSON document from the URL. By default document is fetched with `fetch`
+   */
+  constructor(
+    private fetchDocument: (url: string) => Promise<unknown> = fetchJson
+  ) {}
+
+  /**
+   * Maps web DID to the URL of its document
+   *
+   * ```typescript
+   * WebDIDResolver.documentUrl('did:web:example.com'); // https://example.com/.well-known/did.json
+   * WebDIDResolver.documentUrl('did:web:example.com:user:alice'); // https://example.com/user/alice/did.json
+   * ```
+   *
+   * @param did web DID
+   * @returns URL of DID document
+   */
+  static documentUrl(did: string): string {
+    const { id } = new DID(did);
+    const [host, ...path] = id.split(':').map(decodeURIComponent);
+    return path.length > 0
+      ? `https://${host}/${path.join('/')}/did.json`
+      : `https://${host}/.well-known/did.json`;
+  }
+
+  async resolve(did: string): Promise<DIDDocument> {
+    const { method, did: webDid } = new DID(did);
+    if (method !== 'web') {
+      throw new DIDMethodNotSupported(did);
+    }
+    let document: DIDDocument | undefined;
+    try {
+      document = (await this.fetchDocument(
+        WebDIDResolver.documentUrl(webDid)
+      )) as DIDDocument | undefined;
+    } catch (e) {
+      throw new DIDDocumentNotResolved(did, (e as Error).message);
+    }
+    if (document?.id !== webDid) {
+      throw new DIDDocumentNotResolved(did, 'document id does not match DID');
+    }
+    return document;
+  }
+}
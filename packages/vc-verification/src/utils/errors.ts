@@ -1,4 +1,7 @@
-import type { IRoleDefinitionV2 } from '@energyweb/credential-governance';
+import type {
+  FieldValidationError,
+  IRoleDefinitionV2,
+} from '@energyweb/credential-governance';
 
 export class NoCredential extends Error {
   constructor(credential: string, subject: string) {
@@ -24,6 +27,20 @@ export class CredentialRevoked extends Error {
   }
 }
 
+export class CredentialExpired extends Error {
+  constructor(
+    credential: string,
+    subject: string,
+    public readonly expiry: number
+  ) {
+    super(
+      `Credential ${credential} of ${subject} expired at ${new Date(
+        expiry
+      ).toISOString()}`
+    );
+  }
+}
+
 export class RevokerNotAuthorized extends Error {
   constructor(revoker: string, credential: string, reason?: string) {
     let message = `Revoker ${revoker} is not authorized to revoke ${credential}`;
@@ -68,6 +85,18 @@ export class InvalidIssuerType extends Error {
   }
 }
 
+export class DIDMethodNotSupported extends Error {
+  constructor(did: string) {
+    super(`Method of DID ${did} is not supported`);
+  }
+}
+
+export class DIDDocumentNotResolved extends Error {
+  constructor(did: string, reason: string) {
+    super(`Document of DID ${did} was not resolved: ${reason}`);
+  }
+}
+
 export class NoRevokers extends Error {
   constructor(credential: string) {
     super(`Revokers for credential ${credential} were not set`);
@@ -80,6 +109,20 @@ export class NoIssuers extends Error {
   }
 }
 
+export class InvalidIssuerFields extends Error {
+  constructor(
+    credential: string,
+    subject: string,
+    errors: FieldValidationError[]
+  ) {
+    super(
+      `Issuer fields of ${credential} credential of ${subject} are invalid: ${errors
+        .map(({ field, message }) => `${field} ${message}`)
+        .join(', ')}`
+    );
+  }
+}
+
 export const ERRORS = {
   NoCredential: 'No authorative credential found for issuer',
   NoCredentialStatus: 'Status was not set for the credential',
@@ -91,6 +134,14 @@ export const ERRORS = {
   InvalidIssuerType: 'Invalid issuerType for the given role',
   NoRevokers: 'No revokers found for the given role',
   NoIssuers: 'No issuers found for the given role',
+  InvalidIssuerFields: 'Issuer fields do not conform to the role definition',
   IssuerCredentialRevoked: 'Issuer credential has been revoked',
   IssuerCredentialExpired: 'Issuer credential has expired',
+  NoPrerequisiteCredential: 'No credential found for the prerequisite role',
+  CredentialExpired: 'Credential has expired',
+  CredentialRevoked: 'Credential has been revoked',
+  InvalidStatusList: 'Status list of the credential is invalid',
+  NoRoleDefinition: 'No role definition found for the given namespace',
+  EnrolmentPreconditionsNotMet:
+    'Enrolment preconditions of the role are not met',
 };
@@ -0,0 +1,50 @@
+import type { RoleCredentialSubject } from '@energyweb/credential-governance';
+import type { VerifiableCredential } from '@ew-did-registry/credentials-interface';
+import { RolePayload } from '../models';
+import { isVerifiableCredential } from './formatters';
+
+/**
+ * Computes expiration time of the credential. Explicit expiration of the credential takes precedence over
+ * `defaultValidityPeriod` of the role, which is counted from the issuance of the credential. Credential with
+ * date which can not be parsed is treated as expired
+ *
+ * ```typescript
+ * const expiry = credentialExpiry(vc, roleDefinition.defaultValidityPeriod);
+ * const expired = expiry !== undefined && expiry < Date.now();
+ * ```
+ *
+ * @param credential verifiable credential or payload of RoleEIP191JWT
+ * @param defaultValidityPeriod default validity period of the role in milliseconds
+ * @returns Unix time in milliseconds. undefined if credential does not expire
+ */
+export function credentialExpiry(
+  credential: VerifiableCredential<RoleCredentialSubject> | RolePayload,
+  defaultValidityPeriod?: number | null
+): number | undefined {
+  const expiry = effectiveExpiry(credential, defaultValidityPeriod);
+  return expiry !== undefined && Number.isNaN(expiry) ? 0 : expiry;
+}
+
+/**
+ * Computes expiration time of the credential, which is NaN if date of the credential can not be parsed
+ */
+function effectiveExpiry(
+  credential: VerifiableCredential<RoleCredentialSubject> | RolePayload,
+  defaultValidityPeriod?: number | null
+): number | undefined {
+  if (isVerifiableCredential(credential)) {
+    if (credential.expirationDate) {
+      return new Date(credential.expirationDate).getTime();
+    }
+    return defaultValidityPeriod
+      ? new Date(credential.issuanceDate).getTime() + defaultValidityPeriod
+      : undefined;
+  }
+  // JWT times are in seconds
+  if (credential.exp) {
+    return credential.exp * 1000;
+  }
+  return defaultValidityPeriod && credential.iat
+    ? credential.iat * 1000 + defaultValidityPeriod
+    : undefined;
+}
@@ -1,15 +1,15 @@
-import { isValidErc1056, getDIDChain } from '@ew-did-registry/did';
+import { Chain, isValidErc1056 } from '@ew-did-registry/did';
 import { RoleEIP191JWT, RolePayload } from '../models';
 import { CID } from 'multiformats/cid';
-import { chainIdToChainName } from '@energyweb/credential-governance';
-import type { RoleCredentialSubject } from '@energyweb/credential-governance';
+import { DID, InvalidDID } from '@energyweb/credential-governance';
+import type {
+  NetworkRegistry,
+  RoleCredentialSubject,
+} from '@energyweb/credential-governance';
 import type { VerifiableCredential } from '@ew-did-registry/credentials-interface';
-import { Chain } from '@ew-did-registry/did';
-import { utils } from 'ethers';
 import { hasIn } from 'lodash';
 
 const didFormatFields = ['iss', 'sub', 'subject', 'did', 'signer'];
-const { isHexString } = utils;
 
 /**
  * Upgrades the DID fields of a RolePayload with the chain identifier
@@ -22,8 +22,11 @@ export function upgradeChainId(roleJwt: RoleEIP191JWT) {
   for (key in roleJwt.payload) {
     if (didFormatFields.includes(key)) {
       const expectedEthrDID = roleJwt.payload[key] as string;
-      if (isValidErc1056(expectedEthrDID)) {
-        roleJwt.payload[key] = upgradeDidWithChainId(expectedEthrDID);
+      const upgradedDID = isValidErc1056(expectedEthrDID)
+        ? upgradeDidWithChainId(expectedEthrDID)
+        : undefined;
+      if (upgradedDID) {
+        roleJwt.payload[key] = upgradedDID;
       } else {
         invalidDIDProperty = true;
       }
@@ -35,35 +38,43 @@ export function upgradeChainId(roleJwt: RoleEIP191JWT) {
 /**
  * Adds chain ID to DID
  * @param {string} did
- * @returns {string} DID address in format "did:" method-name ":" method-specific-id ":" address
+ * @returns {string} DID address in format "did:" method-name ":" method-specific-id ":" address. undefined if DID is invalid
  */
-function upgradeDidWithChainId(did: string): string {
-  const { foundChainInfo } = getDIDChain(did);
-  if (foundChainInfo) return did;
-
-  const didParts = did.split(':');
-
-  const chainName = Chain.VOLTA;
-  return `${didParts[0]}:${didParts[1]}:${chainName}:${didParts[2]}`;
+function upgradeDidWithChainId(did: string): string | undefined {
+  try {
+    const parsedDID = new DID(did);
+    return parsedDID.chain
+      ? did
+      : parsedDID.normalize({ defaultChain: Chain.VOLTA }).toString();
+  } catch (e) {
+    if (e instanceof InvalidDID) {
+      return undefined;
+    }
+    throw e;
+  }
 }
 
 /**
- * Maps verifiable credential issuer to his DID
+ * Maps verifiable credential issuer to his DID. Chain id in DID is replaced by the name of its network,
+ * chain id of not registered network is kept
  * @param issuer issuer of verifiable credential
+ * @param registry registry of the networks. By default networks registered in `networkRegistry` are used
  * @returns DID of issuer
  */
 export const issuerDID = (
-  issuer: VerifiableCredential<RoleCredentialSubject>['issuer']
+  issuer: VerifiableCredential<RoleCredentialSubject>['issuer'],
+  registry?: NetworkRegistry
 ) => {
   const issuerId = typeof issuer === 'string' ? issuer : issuer.id;
-  const chain = issuerId.split(':')[2];
-  if (!isHexString(chain)) {
-    return issuerId;
+  try {
+    return new DID(issuerId).normalize({ registry }).toString();
+  } catch (e) {
+    // Issuer of verifiable credential can be any URI
+    if (e instanceof InvalidDID) {
+      return issuerId;
+    }
+    throw e;
   }
-  return issuerId.replace(
-    chain,
-    chainIdToChainName(Number.parseInt(chain, 16))
-  );
 };
 
 /**
@@ -1,2 +1,5 @@
 export * from './errors';
 export * from './formatters';
+export * from './expiration';
+export * from './verification-report-builder';
+export * from './role-definitions';
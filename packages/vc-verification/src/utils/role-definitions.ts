@@ -0,0 +1,66 @@
+import { utils } from 'ethers';
+import { DomainReader } from '@energyweb/credential-governance';
+import type {
+  IRoleDefinition,
+  IRoleDefinitionV2,
+} from '@energyweb/credential-governance';
+
+// Role definitions change rarely, so they are reused while the issuer chain is verified
+const DEFAULT_MAX_AGE = 60 * 1000;
+
+/**
+ * Reads role definitions of the verified credentials. Definition of the role is read once
+ * and is reused for `maxAge` milliseconds
+ */
+export class RoleDefinitionReader {
+  private readonly _definitions = new Map<
+    string,
+    {
+      definition: Promise<IRoleDefinition | IRoleDefinitionV2 | undefined>;
+      readAt: number;
+    }
+  >();
+
+  /**
+   * @param domainReader reader of role definitions
+   * @param maxAge time in milliseconds during which read definition is reused
+   */
+  constructor(
+    private readonly domainReader: DomainReader,
+    private readonly maxAge = DEFAULT_MAX_AGE
+  ) {}
+
+  /**
+   * Reads definition of `role`
+   * @param role name or namehash of the role
+   * @returns role definition. undefined if domain is not a role
+   */
+  async read(
+    role: string
+  ): Promise<IRoleDefinition | IRoleDefinitionV2 | undefined> {
+    const node = role.startsWith('0x') ? role : utils.namehash(role);
+    const cached = this._definitions.get(node);
+    if (cached && Date.now() - cached.readAt < this.maxAge) {
+      return cached.definition;
+    }
+    const entry = {
+      definition: this.domainReader
+        .read({ node })
+        .then((definition) =>
+          DomainReader.isRoleDefinition(definition) ||
+          DomainReader.isRoleDefinitionV2(definition)
+            ? definition
+            : undefined
+        ),
+      readAt: Date.now(),
+    };
+    this._definitions.set(node, entry);
+    // Failed read is retried on the next verification
+    entry.definition.catch(() => {
+      if (this._definitions.get(node) === entry) {
+        this._definitions.delete(node);
+      }
+    });
+    return entry.definition;
+  }
+}
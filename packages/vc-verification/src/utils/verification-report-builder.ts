@@ -0,0 +1,143 @@
+import type { RoleCredentialSubject } from '@energyweb/credential-governance';
+import type { VerifiableCredential } from '@ew-did-registry/credentials-interface';
+import {
+  ErrorCode,
+  IssuerChainLink,
+  RoleEIP191JWT,
+  VerificationCheck,
+  VerificationCheckType,
+  VerificationReport,
+  VerificationResult,
+} from '../models';
+import { ERRORS } from './errors';
+import { credentialExpiry } from './expiration';
+import { issuerDID, isVerifiableCredential } from './formatters';
+
+/**
+ * Maps error message of verification result to its code
+ * @param error error message from `ERRORS`
+ * @returns key of the message in `ERRORS`. undefined if message is not one of `ERRORS`
+ */
+export const errorCode = (error: string): ErrorCode | undefined =>
+  (Object.keys(ERRORS) as ErrorCode[]).find((code) => ERRORS[code] === error);
+
+/**
+ * Collects the issuer chain and the checks performed during verification
+ *
+ * ```typescript
+ * const builder = new VerificationReportBuilder();
+ * const result = await builder.check(VerificationCheckType.Authority, issuer, role, () => verifyAuthority(issuer, role));
+ * return builder.report(result);
+ * ```
+ */
+export class VerificationReportBuilder {
+  private readonly _startedAt = Date.now();
+  private readonly _chain: IssuerChainLink[] = [];
+  private readonly _checks: VerificationCheck[] = [];
+
+  /**
+   * Adds credential of the role to the issuer chain. Outcomes of the checks should be set on the returned link
+   * @param did DID of the credential holder
+   * @param role name of the role
+   * @param credential credential of the role. undefined if holder does not have credential
+   * @returns link of the issuer chain
+   */
+  link(
+    did: string,
+    role: string,
+    credential?: VerifiableCredential<RoleCredentialSubject> | RoleEIP191JWT
+  ): IssuerChainLink {
+    const link: IssuerChainLink = {
+      did,
+      role,
+      proof: 'skipped',
+      revocation: 'skipped',
+    };
+    if (isVerifiableCredential(credential)) {
+      link.credentialId = credential.id;
+      link.credentialType = 'VerifiableCredential';
+      link.issuer = issuerDID(credential.issuer);
+    } else if (credential) {
+      link.credentialId = credential.payload.jti;
+      link.credentialType = 'RoleEIP191JWT';
+      link.issuer = credential.payload.iss;
+    }
+    const expiry = credential
+      ? credentialExpiry(
+          isVerifiableCredential(credential) ? credential : credential.payload
+        )
+      : undefined;
+    if (expiry !== undefined) {
+      link.expiry = new Date(expiry).toISOString();
+    }
+    this._chain.push(link);
+    return link;
+  }
+
+  /**
+   * Performs the check and records its outcome
+   * @param type type of the check
+   * @param did DID whose credential or authority is checked
+   * @param role name of the role
+   * @param check verification to perform
+   * @returns result of the check
+   */
+  async check(
+    type: VerificationCheckType,
+    did: string,
+    role: string,
+    check: () => Promise<VerificationResult>
+  ): Promise<VerificationResult> {
+    const startedAt = Date.now();
+    const result = await check();
+    this.record(type, did, role, result, startedAt);
+    return result;
+  }
+
+  /**
+   * Records the outcome of the check performed since `startedAt`
+   */
+  record(
+    type: VerificationCheckType,
+    did: string,
+    role: string,
+    { verified, error }: VerificationResult,
+    startedAt = Date.now()
+  ) {
+    const code = verified ? undefined : errorCode(error);
+    this._checks.push({
+      type,
+      did,
+      role,
+      passed: verified,
+      ...(code ? { code } : {}),
+      durationMs: Date.now() - startedAt,
+    });
+  }
+
+  /**
+   * Adds the issuer chain and the checks of the nested verification
+   * @param report report of the nested verification
+   */
+  include({ chain, checks }: VerificationReport) {
+    this._chain.push(...chain);
+    this._checks.push(...checks);
+  }
+
+  /**
+   * @param result verdict of the verification
+   * @returns report of the verification
+   */
+  report({ verified, error }: VerificationResult): VerificationReport {
+    const code = verified ? undefined : errorCode(error);
+    return {
+      verified,
+      error,
+      ...(code ? { code } : {}),
+      chain: [...this._chain],
+      checks: [...this._checks],
+      startedAt: new Date(this._startedAt).toISOString(),
+      durationMs: Date.now() - this._startedAt,
+    };
+  }
+}
@@ -1,10 +1,21 @@
 import { providers } from 'ethers';
 import { ProofVerifier } from '@ew-did-registry/claims';
-import { addressOf, Resolver } from '@ew-did-registry/did-ethr-resolver';
+import { Resolver } from '@ew-did-registry/did-ethr-resolver';
+import { DID, DomainReader } from '@energyweb/credential-governance';
 import { RegistrySettings } from '@ew-did-registry/did-resolver-interface';
 import { CredentialResolver, IssuerResolver } from '..';
-import { RolePayload, verificationResult, VerificationResult } from '../models';
-import { ERRORS, InvalidIssuerType } from '../utils';
+import {
+  RoleDefinitionChecks,
+  RolePayload,
+  verificationResult,
+  VerificationResult,
+} from '../models';
+import {
+  CredentialExpired,
+  credentialExpiry,
+  ERRORS,
+  RoleDefinitionReader,
+} from '../utils';
 
 /**
  * A class to verify chain of trust for an issued RoleEIP191Jwt
@@ -14,6 +25,8 @@ export class ClaimIssuerVerification {
   private _resolver: Resolver;
   private _issuerDefResolver: IssuerResolver;
   private _credentialResolver: CredentialResolver;
+  private _roleDefinitions?: RoleDefinitionReader;
+  private _checks: RoleDefinitionChecks;
 
   /**
    *
@@ -21,16 +34,25 @@ export class ClaimIssuerVerification {
    * @param registrySetting
    * @param credentialResolver
    * @param issuerDefResolver
+   * @param domainReader reader of role definitions, required by `checks`
+   * @param checks checks of claims against role definitions. If `enforceDefaultValidity` is set,
+   * claims without expiration time expire after default validity period of the role
    */
   constructor(
     provider: providers.Provider,
     registrySetting: RegistrySettings,
     credentialResolver: CredentialResolver,
-    issuerDefResolver: IssuerResolver
+    issuerDefResolver: IssuerResolver,
+    domainReader?: DomainReader,
+    checks: RoleDefinitionChecks = {}
   ) {
     this._issuerDefResolver = issuerDefResolver;
     this._resolver = new Resolver(provider, registrySetting);
     this._credentialResolver = credentialResolver;
+    this._roleDefinitions = domainReader
+      ? new RoleDefinitionReader(domainReader)
+      : undefined;
+    this._checks = checks;
   }
 
   /**
@@ -53,33 +75,103 @@ export class ClaimIssuerVerification {
     issuer: string,
     role: string
   ): Promise<VerificationResult> {
-    let currentIssuerDID = issuer;
-    while (true) {
-      if (!(await this.verifyIssuerAuthority(role, currentIssuerDID))) {
-        return verificationResult(false, ERRORS.IssuerNotAuthorized);
+    try {
+      return await this.verifyAuthority(issuer, role, new Set());
+    } catch (e) {
+      if (e instanceof CredentialExpired) {
+        return verificationResult(false, ERRORS.CredentialExpired);
       }
-      const roleIssuers = await this._issuerDefResolver.getIssuerDefinition(
-        role
-      );
-      if (roleIssuers && roleIssuers.did) {
+      throw e;
+    }
+  }
+
+  /**
+   * Verifies issuer authority up to the issuer from DID list
+   * @param issuer DID of the issuer
+   * @param role name of the role claim
+   * @param visited claims already walked, to stop on cyclic issuer chain
+   * @returns VerificationResult
+   */
+  private async verifyAuthority(
+    issuer: string,
+    role: string,
+    visited: Set<string>
+  ): Promise<VerificationResult> {
+    const issuers = await this._issuerDefResolver.getIssuerDefinition(role);
+    if (!issuers) {
+      return verificationResult(false, ERRORS.NoIssuers);
+    }
+    if (issuers.issuerType === 'DID' && issuers.did) {
+      return issuers.did.find((d) => DID.equals(d, issuer))
+        ? verificationResult(true, '')
+        : verificationResult(false, ERRORS.IssuerNotAuthorized);
+    } else if (issuers.issuerType === 'ROLE' && issuers.roleName) {
+      return this.verifyIssuerClaim(issuer, issuers.roleName, visited);
+    } else if (issuers.issuerType === 'DID_OR_ROLE' && issuers.roleName) {
+      if (issuers.did?.some((d) => DID.equals(d, issuer))) {
         return verificationResult(true, '');
-      } else if (roleIssuers && roleIssuers.roleName) {
-        const currentIssuerClaim = await this.verifyIssuance(
-          currentIssuerDID,
-          roleIssuers.roleName
-        );
-        if (currentIssuerClaim) {
-          currentIssuerDID = currentIssuerClaim.iss as string;
-          role = roleIssuers.roleName;
-        } else {
-          return verificationResult(false, ERRORS.InvalidCredentialProof);
+      }
+      return this.verifyIssuerClaim(issuer, issuers.roleName, visited);
+    } else if (
+      (issuers.issuerType === 'ANY_OF_ROLES' ||
+        issuers.issuerType === 'ALL_OF_ROLES') &&
+      issuers.roleNames?.length
+    ) {
+      // Roles are verified one by one, so that verification stops at the first result which decides the policy.
+      // Claim of one role which can not be verified does not fail policy, which is satisfied by any other role
+      let result = verificationResult(false, ERRORS.InvalidIssuerType);
+      let error: unknown;
+      for (const roleName of issuers.roleNames) {
+        try {
+          result = await this.verifyIssuerClaim(issuer, roleName, visited);
+        } catch (e) {
+          if (issuers.issuerType === 'ALL_OF_ROLES') {
+            throw e;
+          }
+          error = error ?? e;
+          continue;
         }
+        if (result.verified === (issuers.issuerType === 'ANY_OF_ROLES')) {
+          break;
+        }
+      }
+      if (!result.verified && error) {
+        throw error;
       }
+      return result;
+    } else {
+      return verificationResult(false, ERRORS.InvalidIssuerType);
     }
   }
 
   /**
-   * Verifies that `role` claim was issued to `subject`
+   * Verifies that issuer has required `role` claim with valid proof, which is issued by authorized issuer
+   * @param issuer DID of the issuer
+   * @param role name of the role claim
+   * @param visited claims already walked, to stop on cyclic issuer chain
+   * @returns VerificationResult
+   */
+  private async verifyIssuerClaim(
+    issuer: string,
+    role: string,
+    visited: Set<string>
+  ): Promise<VerificationResult> {
+    // Issuer chain which returns to the walked claim does not lead to authorized issuer
+    const key = `${issuer}:${role}`;
+    if (visited.has(key)) {
+      return verificationResult(false, ERRORS.IssuerNotAuthorized);
+    }
+    visited.add(key);
+
+    const claim = await this.verifyIssuance(issuer, role);
+    if (!claim) {
+      return verificationResult(false, ERRORS.IssuerNotAuthorized);
+    }
+    return this.verifyAuthority(claim.iss as string, role, visited);
+  }
+
+  /**
+   * Verifies that `role` claim was issued to `subject` and has not expired
    * @param subject DID of the subject
    * @param role name of the role claim
    * @returns valid RolePayload
@@ -98,41 +190,33 @@ export class ClaimIssuerVerification {
       roleJWT.payload.iss as string
     );
     const verifier = new ProofVerifier(issuerDIDDoc);
-    if (await verifier.verifyAssertionProof(roleJWT.eip191Jwt)) {
-      return roleJWT.payload;
-    } else {
+    if (!(await verifier.verifyAssertionProof(roleJWT.eip191Jwt))) {
       return undefined;
     }
+    const expiry = credentialExpiry(
+      roleJWT.payload,
+      await this.defaultValidityPeriod(role)
+    );
+    if (expiry !== undefined && expiry < Date.now()) {
+      throw new CredentialExpired(role, subject, expiry);
+    }
+    return roleJWT.payload;
   }
 
   /**
-   * Verifies issuer's authority to issue credential for a namespace
-   * @param {string} namespace
-   * @param {string} issuerDID
-   * @returns boolean
-   *
-   * @todo remove as duplicate of this.verifyIssuer
+   * Reads default validity period of `role` if `enforceDefaultValidity` is set
+   * @param role name of the role
+   * @returns default validity period in milliseconds
    */
-  private async verifyIssuerAuthority(
-    namespace: string,
-    issuerDID: string
-  ): Promise<boolean> {
-    const issuers = await this._issuerDefResolver.getIssuerDefinition(
-      namespace
-    );
-    if (issuers && issuers.did && issuers.issuerType === 'DID') {
-      return issuers?.did?.find(
-        (d) => addressOf(d).toUpperCase() === addressOf(issuerDID).toUpperCase()
-      )
-        ? true
-        : false;
-    }
-    let claim;
-    if (issuers && issuers.roleName) {
-      claim = await this.verifyIssuance(issuerDID, issuers.roleName);
-    } else {
-      throw new InvalidIssuerType(namespace, issuers?.issuerType);
+  private async defaultValidityPeriod(
+    role: string
+  ): Promise<number | undefined> {
+    if (!this._checks.enforceDefaultValidity || !this._roleDefinitions) {
+      return undefined;
     }
-    return claim instanceof Object;
+    const definition = await this._roleDefinitions.read(role);
+    return definition && DomainReader.isRoleDefinitionV2(definition)
+      ? definition.defaultValidityPeriod
+      : undefined;
   }
 }
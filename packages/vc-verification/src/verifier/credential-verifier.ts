@@ -0,0 +1,258 @@
+import { providers } from 'ethers';
+import { ProofVerifier } from '@ew-did-registry/claims';
+import { Resolver } from '@ew-did-registry/did-ethr-resolver';
+import {
+  StatusList2021Entry,
+  VerifiableCredential,
+} from '@ew-did-registry/credentials-interface';
+import { RegistrySettings } from '@ew-did-registry/did-resolver-interface';
+import * as jwt from 'jsonwebtoken';
+import { DomainReader } from '@energyweb/credential-governance';
+import type { RoleCredentialSubject } from '@energyweb/credential-governance';
+import { IssuerVerification } from './issuer-verification';
+import { RevocationVerification } from './revocation-verification';
+import {
+  RoleDefinitionChecks,
+  RoleEIP191JWT,
+  verificationResult,
+  VerificationCheckType,
+  VerificationReport,
+  VerificationResult,
+} from '../models';
+import {
+  credentialExpiry,
+  ERRORS,
+  InvalidRevokerType,
+  isEIP191Jwt,
+  issuerDID,
+  isVerifiableCredential,
+  NoRevokers,
+  RevokerNotAuthorized,
+  RoleDefinitionReader,
+  transformClaim,
+  VerificationReportBuilder,
+} from '../utils';
+
+/**
+ * Verifies presented role credential, either Verifiable Credential or RoleEIP191JWT
+ */
+export class CredentialVerifier {
+  private _resolver: Resolver;
+  private _roleDefinitions?: RoleDefinitionReader;
+
+  /**
+   * @param issuerVerification verifier of the issuer chain
+   * @param revocationVerification verifier of the revokers of the credential
+   * @param provider
+   * @param registrySetting
+   * @param verifyProof verifier of Verifiable Credential proof
+   * @param domainReader reader of role definitions, required by `checks`
+   * @param checks checks of credentials against role definitions. If `enforceDefaultValidity` is set,
+   * credentials without expiration expire after default validity period of the role
+   */
+  constructor(
+    private issuerVerification: IssuerVerification,
+    private revocationVerification: RevocationVerification,
+    provider: providers.Provider,
+    registrySetting: RegistrySettings,
+    private verifyProof: (vc: string, proof_options: string) => Promise<any>,
+    domainReader?: DomainReader,
+    private checks: RoleDefinitionChecks = {}
+  ) {
+    this._resolver = new Resolver(provider, registrySetting);
+    if (domainReader) {
+      this._roleDefinitions = new RoleDefinitionReader(domainReader);
+    }
+  }
+
+  /**
+   * Verifies that credential is signed by its issuer, has not expired, has not been revoked
+   * and is issued by authorized issuer, whose credentials are valid up the issuer chain.
+   * Claims of RoleEIP191JWT are verified as they are decoded from the signed token, presented payload is ignored
+   *
+   * ```typescript
+   * const credentialVerifier = new CredentialVerifier(
+   * issuerVerification,
+   * revocationVerification,
+   * provider,
+   * registrySetting,
+   * verifyProof
+   * );
+   * const report = await credentialVerifier.verify(credential);
+   * ```
+   *
+   * @param credential Verifiable Credential or RoleEIP191JWT of the role
+   * @returns VerificationReport, which chain starts with the verified credential
+   */
+  async verify(
+    credential: VerifiableCredential<RoleCredentialSubject> | RoleEIP191JWT
+  ): Promise<VerificationReport> {
+    const report = new VerificationReportBuilder();
+    const signed = isVerifiableCredential(credential)
+      ? credential
+      : this.decodeEIP191JWT(credential);
+    const { subject, role, issuer, credentialStatus } = this.describe(
+      signed ?? credential
+    );
+    const link = report.link(subject, role, signed ?? credential);
+
+    const proofResult = await report.check(
+      VerificationCheckType.Proof,
+      subject,
+      role,
+      async () =>
+        signed
+          ? this.verifyCredentialProof(signed)
+          : verificationResult(false, ERRORS.InvalidCredentialProof)
+    );
+    link.proof = proofResult.verified ? 'passed' : 'failed';
+    if (!signed || !proofResult.verified) {
+      return report.report(proofResult);
+    }
+
+    const expiry = credentialExpiry(
+      isVerifiableCredential(signed) ? signed : signed.payload,
+      await this.defaultValidityPeriod(role)
+    );
+    if (expiry !== undefined) {
+      link.expiry = new Date(expiry).toISOString();
+    }
+    const expiryResult =
+      expiry !== undefined && expiry < Date.now()
+        ? verificationResult(false, ERRORS.CredentialExpired)
+        : verificationResult(true, '');
+    report.record(VerificationCheckType.Expiry, subject, role, expiryResult);
+    if (!expiryResult.verified) {
+      return report.report(expiryResult);
+    }
+
+    if (credentialStatus) {
+      const statusResult = await report.check(
+        VerificationCheckType.Revocation,
+        subject,
+        role,
+        () => this.verifyCredentialStatus(credentialStatus, role)
+      );
+      link.revocation = statusResult.verified ? 'passed' : 'failed';
+      if (!statusResult.verified) {
+        return report.report(statusResult);
+      }
+    }
+
+    const issuerReport = await this.issuerVerification.verifyIssuer(
+      issuer,
+      role
+    );
+    report.include(issuerReport);
+    return report.report(issuerReport);
+  }
+
+  /**
+   * Extracts properties of credential which are verified
+   */
+  private describe(
+    credential: VerifiableCredential<RoleCredentialSubject> | RoleEIP191JWT
+  ): {
+    subject: string;
+    role: string;
+    issuer: string;
+    credentialStatus?: StatusList2021Entry;
+  } {
+    if (isVerifiableCredential(credential)) {
+      return {
+        subject: credential.credentialSubject.id,
+        role: credential.credentialSubject.role.namespace,
+        issuer: issuerDID(credential.issuer),
+        credentialStatus: credential.credentialStatus,
+      };
+    }
+    const { payload } = credential;
+    return {
+      subject: payload.sub as string,
+      role: payload.claimData.claimType,
+      issuer: payload.iss as string,
+      credentialStatus: payload.credentialStatus,
+    };
+  }
+
+  /**
+   * Decodes claims of RoleEIP191JWT from the signed token. DIDs of the claims are upgraded with chain id
+   * the same way as DIDs of resolved claims
+   * @returns RoleEIP191JWT with decoded payload. undefined if token does not contain valid claims
+   */
+  private decodeEIP191JWT({
+    eip191Jwt,
+  }: RoleEIP191JWT): RoleEIP191JWT | undefined {
+    const claim = { eip191Jwt, payload: jwt.decode(eip191Jwt) };
+    return isEIP191Jwt(claim) ? transformClaim(claim) : undefined;
+  }
+
+  /**
+   * Verifies that credential is signed by its issuer
+   */
+  private async verifyCredentialProof(
+    credential: VerifiableCredential<RoleCredentialSubject> | RoleEIP191JWT
+  ): Promise<VerificationResult> {
+    let verified: boolean;
+    if (isVerifiableCredential(credential)) {
+      const { errors } = JSON.parse(
+        await this.verifyProof(JSON.stringify(credential), JSON.stringify({}))
+      );
+      verified = errors.length === 0;
+    } else {
+      const issuerDIDDoc = await this._resolver.read(
+        credential.payload.iss as string
+      );
+      verified = await new ProofVerifier(issuerDIDDoc).verifyAssertionProof(
+        credential.eip191Jwt
+      );
+    }
+    return verified
+      ? verificationResult(true, '')
+      : verificationResult(false, ERRORS.InvalidCredentialProof);
+  }
+
+  /**
+   * Verifies that credential has not been revoked by authorized revoker. Status list issued by revoker
+   * who is not authorized to revoke `role` fails the check instead of the verification
+   */
+  private async verifyCredentialStatus(
+    credentialStatus: StatusList2021Entry,
+    role: string
+  ): Promise<VerificationResult> {
+    try {
+      return await this.revocationVerification.verifyCredentialStatus(
+        credentialStatus,
+        role
+      );
+    } catch (e) {
+      if (e instanceof RevokerNotAuthorized) {
+        return verificationResult(false, ERRORS.RevokerNotAuthorized);
+      }
+      if (e instanceof NoRevokers) {
+        return verificationResult(false, ERRORS.NoRevokers);
+      }
+      if (e instanceof InvalidRevokerType) {
+        return verificationResult(false, ERRORS.InvalidRevokerType);
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Reads default validity period of `role` if `enforceDefaultValidity` is set
+   * @param role name of the role
+   * @returns default validity period in milliseconds
+   */
+  private async defaultValidityPeriod(
+    role: string
+  ): Promise<number | undefined> {
+    if (!this.checks.enforceDefaultValidity || !this._roleDefinitions) {
+      return undefined;
+    }
+    const definition = await this._roleDefinitions.read(role);
+    return definition && DomainReader.isRoleDefinitionV2(definition)
+      ? definition.defaultValidityPeriod
+      : undefined;
+  }
+}
@@ -1,2 +1,4 @@
 export * from './revocation-verification';
 export * from './issuer-verification';
+export * from './precondition-verification';
+export * from './credential-verifier';
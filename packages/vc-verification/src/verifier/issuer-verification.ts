@@ -7,18 +7,26 @@ import {
 import { ClaimIssuerVerification } from './claim-issuer-verification';
 import { VCIssuerVerification } from './vc-issuer-verification';
 import { providers } from 'ethers';
-import {
-  isVerifiableCredential,
-  VerifiableCredential,
-} from '@ew-did-registry/credentials-interface';
-import type { RoleCredentialSubject } from '@energyweb/credential-governance';
-import { addressOf } from '@ew-did-registry/did-ethr-resolver';
+import { isVerifiableCredential } from '@ew-did-registry/credentials-interface';
+import { DID, DomainReader } from '@energyweb/credential-governance';
 import { RegistrySettings } from '@ew-did-registry/did-resolver-interface';
-import { verificationResult, RoleEIP191JWT } from '../models';
-import { ERRORS } from '../utils';
+import {
+  RoleDefinitionChecks,
+  verificationResult,
+  VerificationCheckType,
+  VerificationReport,
+} from '../models';
+import {
+  CredentialExpired,
+  ERRORS,
+  InvalidCredentialProof,
+  InvalidIssuerFields,
+  VerificationReportBuilder,
+} from '../utils';
 
 /**
  * A class to provide verification of issuer authority for either VC or RoleEIP191JWT
+ * Credentials are checked against role definitions read with `domainReader` according to `checks`
  */
 export class IssuerVerification {
   private vcIssuerVerification: VCIssuerVerification;
@@ -31,24 +39,33 @@ export class IssuerVerification {
     provider: providers.Provider,
     registrySetting: RegistrySettings,
     revocationVerification: RevocationVerification,
-    private verifyProof: (vc: string, proof_options: string) => Promise<any>
+    private verifyProof: (vc: string, proof_options: string) => Promise<any>,
+    domainReader?: DomainReader,
+    checks: RoleDefinitionChecks = {}
   ) {
     this.vcIssuerVerification = new VCIssuerVerification(
       issuerResolver,
       credentialResolver,
-      verifyProof
+      verifyProof,
+      domainReader,
+      checks
     );
     this.claimIssuerVerification = new ClaimIssuerVerification(
       provider,
       registrySetting,
       credentialResolver,
-      issuerResolver
+      issuerResolver,
+      domainReader,
+      checks
     );
     this.revocationVerification = revocationVerification;
   }
 
   /**
-   * Verifies issuer authority with either Verifiable Credential or RoleEIP191JWT
+   * Verifies issuer authority with either Verifiable Credential or RoleEIP191JWT.
+   * Depending on issuer type of `role`, issuer should be in DID list, hold any or all of the issuer roles,
+   * or either be in DID list or hold the issuer role. Credentials of the issuer chain should be properly issued,
+   * not expired and not revoked
    *
    * ```typescript
    * const issuerVerification = new IssuerVerification(
@@ -62,49 +79,201 @@ export class IssuerVerification {
    *
    * let issuer : 'did:ethr:volta:0x...';
    * const role = 'role';
-   * await issuerVerification.verifyIssuer(issuer, role);
+   * const report = await issuerVerification.verifyIssuer(issuer, role);
+   * report.chain; // credentials of the issuer chain
+   * report.checks.filter(({ passed }) => !passed); // failed check
    * ```
    *
    * @param issuer issuer DID to verify authority
    * @param role authoritative role to be issuer
-   * @returns VerificationResult
+   * @returns VerificationReport with the issuer chain and the checks performed
    */
   async verifyIssuer(
     issuer: string,
     role: string
-  ): Promise<VerificationResult> {
-    let issuerCredential:
-      | VerifiableCredential<RoleCredentialSubject>
-      | RoleEIP191JWT
-      | undefined;
+  ): Promise<VerificationReport> {
+    const report = new VerificationReportBuilder();
+    return report.report(
+      await this.verifyAuthority(issuer, role, report, new Set())
+    );
+  }
 
+  /**
+   * Verifies that `issuer` is authorized to issue `role`
+   * @param visited credentials already walked, to stop on cyclic issuer chain
+   */
+  private async verifyAuthority(
+    issuer: string,
+    role: string,
+    report: VerificationReportBuilder,
+    visited: Set<string>
+  ): Promise<VerificationResult> {
+    const startedAt = Date.now();
     const issuers = await this.issuerResolver.getIssuerDefinition(role);
+    let result: VerificationResult;
     if (!issuers) {
-      return verificationResult(false, ERRORS.NoIssuers);
-    }
-    if (issuers?.roleName) {
-      issuerCredential = await this.credentialResolver.getCredential(
-        issuer,
-        issuers?.roleName
-      );
-      if (!issuerCredential) {
-        return verificationResult(false, ERRORS.NoCredential);
-      }
-      const revocationStatusResult =
-        await this.revocationVerification.checkRevocationStatus(issuer, role);
-      if (!revocationStatusResult.verified) {
-        return revocationStatusResult;
+      result = verificationResult(false, ERRORS.NoIssuers);
+    } else if (
+      issuers.issuerType !== 'ANY_OF_ROLES' &&
+      issuers.issuerType !== 'ALL_OF_ROLES' &&
+      (issuers.issuerType === 'DID_OR_ROLE' || !issuers.roleName) &&
+      issuers.did?.some((d) => DID.equals(d, issuer))
+    ) {
+      result = verificationResult(true, '');
+    } else {
+      switch (issuers.issuerType) {
+        case 'ANY_OF_ROLES': {
+          result = verificationResult(false, ERRORS.InvalidIssuerType);
+          for (const roleName of issuers.roleNames ?? []) {
+            result = await this.verifyRoleHolder(
+              issuer,
+              roleName,
+              report,
+              visited
+            );
+            if (result.verified) {
+              break;
+            }
+          }
+          break;
+        }
+        case 'ALL_OF_ROLES': {
+          result = verificationResult(false, ERRORS.InvalidIssuerType);
+          for (const roleName of issuers.roleNames ?? []) {
+            result = await this.verifyRoleHolder(
+              issuer,
+              roleName,
+              report,
+              visited
+            );
+            if (!result.verified) {
+              break;
+            }
+          }
+          break;
+        }
+        default:
+          result = issuers.roleName
+            ? await this.verifyRoleHolder(
+                issuer,
+                issuers.roleName,
+                report,
+                visited
+              )
+            : verificationResult(false, ERRORS.IssuerNotAuthorized);
       }
-      if (isVerifiableCredential(issuerCredential)) {
-        return await this.vcIssuerVerification.verifyIssuer(issuer, role);
+    }
+    report.record(
+      VerificationCheckType.Authority,
+      issuer,
+      role,
+      result,
+      startedAt
+    );
+    return result;
+  }
+
+  /**
+   * Verifies that `holder` has `role` credential which is properly issued, not expired, not revoked
+   * and issued by authorized issuer
+   * @param holder DID of the holder
+   * @param role name of the role credential
+   * @returns VerificationResult
+   */
+  private async verifyRoleHolder(
+    holder: string,
+    role: string,
+    report: VerificationReportBuilder,
+    visited: Set<string>
+  ): Promise<VerificationResult> {
+    const credential = await this.credentialResolver.getCredential(
+      holder,
+      role
+    );
+    const link = report.link(holder, role, credential);
+    const credentialResult = credential
+      ? verificationResult(true, '')
+      : verificationResult(false, ERRORS.NoCredential);
+    report.record(
+      VerificationCheckType.Credential,
+      holder,
+      role,
+      credentialResult
+    );
+    if (!credential) {
+      return credentialResult;
+    }
+    // Issuer chain which returns to the walked credential does not lead to authorized issuer
+    const key = `${holder}:${role}`;
+    if (visited.has(key)) {
+      return verificationResult(false, ERRORS.IssuerNotAuthorized);
+    }
+    visited.add(key);
+
+    const startedAt = Date.now();
+    let issuer = link.issuer as string;
+    let issuanceError: unknown;
+    try {
+      if (isVerifiableCredential(credential)) {
+        await this.vcIssuerVerification.verifyIssuance(holder, role);
+      } else {
+        const rolePayload = await this.claimIssuerVerification.verifyIssuance(
+          holder,
+          role
+        );
+        if (!rolePayload) {
+          throw new InvalidCredentialProof(credential.eip191Jwt, issuer);
+        }
+        issuer = rolePayload.iss as string;
       }
-      return await this.claimIssuerVerification.verifyIssuer(issuer, role);
-    } else {
-      return issuers?.did?.find(
-        (d) => addressOf(d).toUpperCase() === addressOf(issuer).toUpperCase()
-      )
+    } catch (e) {
+      issuanceError = e;
+    }
+    // Expiry and issuer fields are verified after the proof
+    const proofVerified =
+      !issuanceError ||
+      issuanceError instanceof CredentialExpired ||
+      issuanceError instanceof InvalidIssuerFields;
+    link.proof = proofVerified ? 'passed' : 'failed';
+    report.record(
+      VerificationCheckType.Proof,
+      holder,
+      role,
+      proofVerified
         ? verificationResult(true, '')
-        : verificationResult(false, ERRORS.IssuerNotAuthorized);
+        : verificationResult(false, ERRORS.InvalidCredentialProof),
+      startedAt
+    );
+    if (!proofVerified) {
+      return verificationResult(false, ERRORS.InvalidCredentialProof);
+    }
+    if (issuanceError instanceof CredentialExpired) {
+      link.expiry = new Date(issuanceError.expiry).toISOString();
+    }
+    const expiryResult =
+      issuanceError instanceof CredentialExpired
+        ? verificationResult(false, ERRORS.CredentialExpired)
+        : verificationResult(true, '');
+    report.record(VerificationCheckType.Expiry, holder, role, expiryResult);
+    if (!expiryResult.verified) {
+      return expiryResult;
+    }
+    if (issuanceError instanceof InvalidIssuerFields) {
+      const result = verificationResult(false, ERRORS.InvalidIssuerFields);
+      report.record(VerificationCheckType.IssuerFields, holder, role, result);
+      return result;
+    }
+
+    const revocationResult = await report.check(
+      VerificationCheckType.Revocation,
+      holder,
+      role,
+      () => this.revocationVerification.checkCredentialStatus(holder, role)
+    );
+    link.revocation = revocationResult.verified ? 'passed' : 'failed';
+    if (!revocationResult.verified) {
+      return revocationResult;
     }
+    return this.verifyAuthority(issuer, role, report, visited);
   }
 }
@@ -0,0 +1,190 @@
+import {
+  DomainReader,
+  PreconditionType,
+} from '@energyweb/credential-governance';
+import {
+  isVerifiableCredential,
+  StatusList2021Entry,
+} from '@ew-did-registry/credentials-interface';
+import { RegistrySettings } from '@ew-did-registry/did-resolver-interface';
+import { providers, utils } from 'ethers';
+import {
+  CredentialResolver,
+  EthersProviderIssuerResolver,
+  IssuerVerification,
+  RevocationVerification,
+} from '..';
+import { ClaimIssuerVerification } from './claim-issuer-verification';
+import { VCIssuerVerification } from './vc-issuer-verification';
+import {
+  RoleDefinitionChecks,
+  verificationResult,
+  VerificationResult,
+} from '../models';
+import {
+  CredentialExpired,
+  ERRORS,
+  InvalidCredentialProof,
+  InvalidIssuerFields,
+  issuerDID,
+  NoCredential,
+} from '../utils';
+
+/**
+ * Provides off-chain verification of role enrolment preconditions.
+ * Subject meets preconditions when it holds valid credentials of the prerequisite roles
+ */
+export class PreconditionVerification {
+  private vcIssuerVerification: VCIssuerVerification;
+  private claimIssuerVerification: ClaimIssuerVerification;
+
+  constructor(
+    private domainReader: DomainReader,
+    private credentialResolver: CredentialResolver,
+    provider: providers.Provider,
+    registrySetting: RegistrySettings,
+    private issuerVerification: IssuerVerification,
+    private revocationVerification: RevocationVerification,
+    verifyProof: (vc: string, proof_options: string) => Promise<any>,
+    checks: RoleDefinitionChecks = {}
+  ) {
+    const issuerResolver = new EthersProviderIssuerResolver(domainReader);
+    this.vcIssuerVerification = new VCIssuerVerification(
+      issuerResolver,
+      credentialResolver,
+      verifyProof,
+      domainReader,
+      checks
+    );
+    this.claimIssuerVerification = new ClaimIssuerVerification(
+      provider,
+      registrySetting,
+      credentialResolver,
+      issuerResolver,
+      domainReader,
+      checks
+    );
+  }
+
+  /**
+   * Verifies that `subject` meets enrolment preconditions of `role`
+   *
+   * ```typescript
+   * const preconditionVerification = new PreconditionVerification(
+   * domainReader,
+   * credentialResolver,
+   * provider,
+   * registrySetting,
+   * issuerVerification,
+   * revocationVerification,
+   * verifyProof
+   * );
+   * const subject = 'did:ethr:volta:0x...';
+   * const role = 'role';
+   * await preconditionVerification.verifyPreconditions(subject, role);
+   * ```
+   *
+   * @param subject DID of the subject enroling to `role`
+   * @param role namespace of the role
+   * @returns VerificationResult. Namespace which is not a role is reported with `NoRoleDefinition`
+   */
+  async verifyPreconditions(
+    subject: string,
+    role: string
+  ): Promise<VerificationResult> {
+    const node = role.startsWith('0x') ? role : utils.namehash(role);
+    const definition = await this.domainReader.read({ node });
+    if (
+      !DomainReader.isRoleDefinition(definition) &&
+      !DomainReader.isRoleDefinitionV2(definition)
+    ) {
+      return verificationResult(false, ERRORS.NoRoleDefinition);
+    }
+    const roleConditions = definition.enrolmentPreconditions.filter(
+      ({ type, conditions }) =>
+        type === PreconditionType.Role && conditions.length > 0
+    );
+    for (const { conditions, mustHaveAll } of roleConditions) {
+      let result = verificationResult(
+        false,
+        ERRORS.EnrolmentPreconditionsNotMet
+      );
+      for (const prerequisite of conditions) {
+        result = await this.verifyPrerequisiteCredential(subject, prerequisite);
+        if (result.verified !== Boolean(mustHaveAll)) {
+          break;
+        }
+      }
+      if (!result.verified) {
+        return mustHaveAll
+          ? result
+          : verificationResult(false, ERRORS.EnrolmentPreconditionsNotMet);
+      }
+    }
+    return verificationResult(true, '');
+  }
+
+  /**
+   * Verifies that `subject` holds valid `role` credential. Credential must be properly issued,
+   * not expired, including expiry after default validity period of the role, and not revoked
+   * @param subject DID of the subject
+   * @param role namespace of the prerequisite role
+   * @returns VerificationResult
+   */
+  async verifyPrerequisiteCredential(
+    subject: string,
+    role: string
+  ): Promise<VerificationResult> {
+    const credential = await this.credentialResolver.getCredential(
+      subject,
+      role
+    );
+    if (!credential) {
+      return verificationResult(false, ERRORS.NoPrerequisiteCredential);
+    }
+    let issuer: string;
+    let credentialStatus: StatusList2021Entry | undefined;
+    try {
+      if (isVerifiableCredential(credential)) {
+        await this.vcIssuerVerification.verifyIssuance(subject, role);
+        issuer = issuerDID(credential.issuer);
+        credentialStatus = credential.credentialStatus;
+      } else {
+        const rolePayload = await this.claimIssuerVerification.verifyIssuance(
+          subject,
+          role
+        );
+        if (!rolePayload) {
+          return verificationResult(false, ERRORS.InvalidCredentialProof);
+        }
+        issuer = rolePayload.iss as string;
+        credentialStatus = rolePayload.credentialStatus;
+      }
+    } catch (e) {
+      if (e instanceof NoCredential) {
+        return verificationResult(false, ERRORS.NoPrerequisiteCredential);
+      }
+      if (e instanceof CredentialExpired) {
+        return verificationResult(false, ERRORS.CredentialExpired);
+      }
+      if (e instanceof InvalidCredentialProof) {
+        return verificationResult(false, ERRORS.InvalidCredentialProof);
+      }
+      if (e instanceof InvalidIssuerFields) {
+        return verificationResult(false, ERRORS.InvalidIssuerFields);
+      }
+      throw e;
+    }
+    if (credentialStatus) {
+      const statusResult =
+        await this.revocationVerification.verifyCredentialStatus(
+          credentialStatus,
+          role
+        );
+      if (!statusResult.verified) {
+        return statusResult;
+      }
+    }
+    return this.issuerVerification.verifyIssuer(issuer, role);
+  }
+}
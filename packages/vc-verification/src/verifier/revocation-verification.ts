@@ -9,25 +9,40 @@ import { CredentialResolver, IssuerResolver, RevokerResolver } from '..';
 import { ClaimIssuerVerification } from './claim-issuer-verification';
 import { VCIssuerVerification } from './vc-issuer-verification';
 import {
+  CredentialExpired,
+  credentialExpiry,
   ERRORS,
   InvalidRevokerType,
   NoRevokers,
   RevokerNotAuthorized,
   issuerDID,
+  VerificationReportBuilder,
 } from '../utils';
 import {
+  RoleDefinitionChecks,
   RoleEIP191JWT,
+  RolePayload,
   verificationResult,
+  VerificationCheckType,
+  VerificationReport,
   VerificationResult,
 } from '../models';
-import { addressOf } from '@ew-did-registry/did-ethr-resolver';
-import { StatusListEntryVerification } from '@ew-did-registry/revocation';
-import { RoleCredentialSubject } from '@energyweb/credential-governance';
+import {
+  CredentialRevoked as StatusListEntryRevoked,
+  InvalidStatusList,
+  StatusListEntryVerification,
+} from '@ew-did-registry/revocation';
+import {
+  DID,
+  DomainReader,
+  RoleCredentialSubject,
+} from '@energyweb/credential-governance';
 import { RegistrySettings } from '@ew-did-registry/did-resolver-interface';
 import { providers } from 'ethers';
 
 /**
  * Provides verification of revocation of EnergyWeb role verifiable credential
+ * Credentials of revokers are checked against role definitions read with `domainReader` according to `checks`
  */
 export class RevocationVerification {
   private credentialResolver: CredentialResolver;
@@ -41,19 +56,25 @@ export class RevocationVerification {
     credentialResolver: CredentialResolver,
     provider: providers.Provider,
     registrySetting: RegistrySettings,
-    private verifyProof: (vc: string, proof_options: string) => Promise<any>
+    private verifyProof: (vc: string, proof_options: string) => Promise<any>,
+    domainReader?: DomainReader,
+    checks: RoleDefinitionChecks = {}
   ) {
     this.credentialResolver = credentialResolver;
     this.vcIssuerVerification = new VCIssuerVerification(
       issuerResolver,
       credentialResolver,
-      verifyProof
+      verifyProof,
+      domainReader,
+      checks
     );
     this.claimIssuerVerification = new ClaimIssuerVerification(
       provider,
       registrySetting,
       credentialResolver,
-      issuerResolver
+      issuerResolver,
+      domainReader,
+      checks
     );
     this._statusListEntryVerificaiton = new StatusListEntryVerification(
       verifyProof
@@ -88,7 +109,9 @@ export class RevocationVerification {
   }
 
   /**
-   * Verifies that `revoker` is authorized to revoke `role` credential
+   * Verifies that `revoker` is authorized to revoke `role` credential.
+   * Depending on revoker type of `role`, revoker should be in DID list, hold any or all of the revoker roles,
+   * or either be in DID list or hold the revoker role
    *
    * ```typescript
    * const revocationVerification = new RevocationVerification(
@@ -109,14 +132,43 @@ export class RevocationVerification {
     if (!revokers) {
       throw new NoRevokers(role);
     }
-    const { did, revokerType, roleName: revokerRole } = revokers;
-    if (revokerType === 'DID' && did) {
+    const {
+      did,
+      revokerType,
+      roleName: revokerRole,
+      roleNames: revokerRoles = [],
+    } = revokers;
+    if (
+      revokerType === 'DID_OR_ROLE' &&
+      did?.some((r) => DID.equals(r, revoker))
+    ) {
+      return;
+    }
+    if (revokerType === 'ANY_OF_ROLES' || revokerType === 'ALL_OF_ROLES') {
+      if (revokerRoles.length === 0) {
+        throw new InvalidRevokerType(role, revokerType);
+      }
+      const heldRoles: string[] = [];
+      for (const revokerRole of revokerRoles) {
+        try {
+          await this.verifyRevokerRole(revoker, role, revokerRole);
+          heldRoles.push(revokerRole);
+        } catch (e) {
+          if (revokerType === 'ALL_OF_ROLES') {
+            throw e;
+          }
+        }
+      }
+      if (heldRoles.length === 0) {
+        throw new RevokerNotAuthorized(
+          revoker,
+          role,
+          `revoker has none of the roles ${revokerRoles.join(', ')}`
+        );
+      }
+    } else if (revokerType === 'DID' && did) {
       // revokers in role definition and credential's have different DID format
-      if (
-        !did.some(
-          (r) => addressOf(r).toUpperCase() === addressOf(revoker).toUpperCase()
-        )
-      ) {
+      if (!did.some((r) => DID.equals(r, revoker))) {
         throw new RevokerNotAuthorized(
           revoker,
           role,
@@ -124,103 +176,266 @@ export class RevocationVerification {
         );
       }
     } else if (revokerRole) {
-      try {
-        const revokerCredential = await this.credentialResolver.getCredential(
+      await this.verifyRevokerRole(revoker, role, revokerRole);
+    } else {
+      throw new InvalidRevokerType(role, revokers?.revokerType);
+    }
+  }
+
+  /**
+   * Verifies that `revoker` holds `revokerRole` credential issued by authorized issuer
+   * @param revoker DID of revoker
+   * @param role name of the role verifiable credential
+   * @param revokerRole role which authorizes to revoke `role`
+   */
+  private async verifyRevokerRole(
+    revoker: string,
+    role: string,
+    revokerRole: string
+  ) {
+    try {
+      const revokerCredential = await this.credentialResolver.getCredential(
+        revoker,
+        revokerRole
+      );
+      if (isVerifiableCredential(revokerCredential)) {
+        await this.vcIssuerVerification.verifyIssuance(revoker, revokerRole);
+        await this.vcIssuerVerification.verifyIssuer(
+          issuerDID(revokerCredential.issuer as string),
+          revokerRole
+        );
+      } else {
+        const rolePayload = await this.claimIssuerVerification.verifyIssuance(
           revoker,
           revokerRole
         );
-        if (isVerifiableCredential(revokerCredential)) {
-          await this.vcIssuerVerification.verifyIssuance(revoker, revokerRole);
-          await this.vcIssuerVerification.verifyIssuer(
-            issuerDID(revokerCredential.issuer as string),
-            revokerRole
-          );
-        } else {
-          const rolePayload = await this.claimIssuerVerification.verifyIssuance(
-            revoker,
-            revokerRole
-          );
-          await this.claimIssuerVerification.verifyIssuer(
-            rolePayload?.iss as string,
-            revokerRole
-          );
-        }
-      } catch (e) {
-        throw new RevokerNotAuthorized(revoker, role, (<Error>e).message);
+        await this.claimIssuerVerification.verifyIssuer(
+          rolePayload?.iss as string,
+          revokerRole
+        );
       }
-    } else {
-      throw new InvalidRevokerType(role, revokers?.revokerType);
+    } catch (e) {
+      throw new RevokerNotAuthorized(revoker, role, (<Error>e).message);
     }
   }
 
   /**
-   * Verifies revocation status of `issuer` credential required to issue `role`
+   * Verifies revocation status of `issuer` credential required to issue `role` and of the credentials of its issuers
+   *
+   * ```typescript
+   * const report = await revocationVerification.checkRevocationStatus(issuer, role);
+   * if (!report.verified) {
+   *   const failed = report.checks.find(({ passed }) => !passed);
+   * }
+   * ```
    * @param issuer issuer DID
    * @param role namespace
-   * @returns
+   * @returns VerificationReport with the credentials walked up the issuer chain
    */
   async checkRevocationStatus(
     issuer: string,
     role: string
+  ): Promise<VerificationReport> {
+    const report = new VerificationReportBuilder();
+    return report.report(
+      await this.issuerRevocationStatus(issuer, role, report, new Set())
+    );
+  }
+
+  /**
+   * Verifies revocation status of `role` credential of `holder` and of the credentials of its issuers
+   * @param holder DID of the credential holder
+   * @param role namespace of the credential
+   * @returns VerificationReport with the credentials walked up the issuer chain
+   */
+  async checkCredentialRevocationStatus(
+    holder: string,
+    role: string
+  ): Promise<VerificationReport> {
+    const report = new VerificationReportBuilder();
+    return report.report(
+      await this.credentialRevocationStatus(holder, role, report, new Set())
+    );
+  }
+
+  /**
+   * Verifies that `role` credential of `holder` has not been revoked or expired.
+   * Credentials of its issuers are not verified
+   * @param holder DID of the credential holder
+   * @param role namespace of the credential
+   * @returns VerificationResult
+   */
+  async checkCredentialStatus(
+    holder: string,
+    role: string
   ): Promise<VerificationResult> {
-    let issuerCredential:
-      | VerifiableCredential<RoleCredentialSubject>
-      | RoleEIP191JWT
-      | undefined;
+    return this.credentialStatus(
+      holder,
+      role,
+      await this.credentialResolver.getCredential(holder, role)
+    );
+  }
+
+  /**
+   * Verifies that credential with `credentialStatus` has not been revoked. Credential is revoked
+   * when its status is set in the status list issued by authorized revoker of `role`
+   *
+   * ```typescript
+   * const { verified, error } = await revocationVerification.verifyCredentialStatus(
+   *   credential.credentialStatus,
+   *   role
+   * );
+   * ```
+   * @param credentialStatus status of `role` credential
+   * @param role namespace of the credential
+   * @returns VerificationResult. Status list which does not verify is reported as invalid
+   * @throws {RevokerNotAuthorized} if status list is issued by revoker who is not authorized to revoke `role`
+   */
+  async verifyCredentialStatus(
+    credentialStatus: StatusList2021Entry,
+    role: string
+  ): Promise<VerificationResult> {
+    try {
+      await this._statusListEntryVerificaiton.verifyCredentialStatus(
+        credentialStatus
+      );
+      return verificationResult(true, '');
+    } catch (e) {
+      if (e instanceof InvalidStatusList) {
+        return verificationResult(false, ERRORS.InvalidStatusList);
+      }
+      if (!(e instanceof StatusListEntryRevoked)) {
+        throw e;
+      }
+    }
+    const statusList =
+      await this._statusListEntryVerificaiton.fetchStatusListCredential(
+        credentialStatus.statusListCredential
+      );
+    if (!statusList) {
+      return verificationResult(false, ERRORS.InvalidStatusList);
+    }
+    await this.verifyRevoker(statusList.issuer as string, role);
+    return verificationResult(false, ERRORS.CredentialRevoked);
+  }
+
+  /**
+   * Verifies status of resolved `role` credential of `holder`
+   */
+  private async credentialStatus(
+    holder: string,
+    role: string,
+    credential?: VerifiableCredential<RoleCredentialSubject> | RoleEIP191JWT
+  ): Promise<VerificationResult> {
+    if (!credential) {
+      return verificationResult(false, ERRORS.NoCredential);
+    }
     let credentialStatus: StatusList2021Entry | undefined;
-    while (true) {
-      const issuers = await this.issuerResolver.getIssuerDefinition(role);
-      if (issuers?.did) {
-        return verificationResult(true, '');
-      } else if (issuers?.roleName) {
-        issuerCredential = await this.credentialResolver.getCredential(
-          issuer,
-          issuers?.roleName
+    if (isVerifiableCredential(credential)) {
+      credentialStatus = credential.credentialStatus;
+      const expiry = credentialExpiry(credential);
+      if (expiry !== undefined && expiry < Date.now()) {
+        return verificationResult(false, ERRORS.IssuerCredentialExpired);
+      }
+    } else {
+      let rolePayload: RolePayload | undefined;
+      try {
+        rolePayload = await this.claimIssuerVerification.verifyIssuance(
+          holder,
+          role
         );
-        try {
-          if (
-            isVerifiableCredential(issuerCredential) &&
-            issuerCredential.credentialStatus
-          ) {
-            issuer = issuerCredential.issuer as string;
-            role = issuers.roleName;
-            credentialStatus = issuerCredential.credentialStatus;
-
-            const expirationDate = new Date(
-              issuerCredential?.expirationDate as string
-            ).getTime();
+      } catch (e) {
+        if (e instanceof CredentialExpired) {
+          return verificationResult(false, ERRORS.IssuerCredentialExpired);
+        }
+        throw e;
+      }
+      if (!rolePayload) {
+        return verificationResult(false, ERRORS.InvalidCredentialProof);
+      }
+      credentialStatus = rolePayload.credentialStatus;
+    }
+    if (!credentialStatus) {
+      return verificationResult(true, '');
+    }
+    const result = await this.verifyCredentialStatus(credentialStatus, role);
+    return result.error === ERRORS.CredentialRevoked
+      ? verificationResult(false, ERRORS.IssuerCredentialRevoked)
+      : result;
+  }
 
-            if (expirationDate && expirationDate < Date.now()) {
-              return verificationResult(false, ERRORS.IssuerCredentialExpired);
-            }
-            await this._statusListEntryVerificaiton.verifyCredentialStatus(
-              issuerCredential.credentialStatus
-            );
-          } else {
-            const rolePayload =
-              await this.claimIssuerVerification.verifyIssuance(
-                issuer,
-                issuers?.roleName
-              );
-            issuer = rolePayload?.iss as string;
-            role = issuers.roleName;
-            credentialStatus = rolePayload?.credentialStatus;
-            if (rolePayload?.exp && rolePayload?.exp < Date.now()) {
-              return verificationResult(false, ERRORS.IssuerCredentialExpired);
-            }
-            await this._statusListEntryVerificaiton.verifyCredentialStatus(
-              rolePayload?.credentialStatus as StatusList2021Entry
-            );
-          }
-        } catch (error) {
-          const credential =
-            await this._statusListEntryVerificaiton.fetchStatusListCredential(
-              credentialStatus?.statusListCredential as string
-            );
-          await this.verifyRevoker(credential?.issuer as string, role);
-          return verificationResult(false, ERRORS.IssuerCredentialRevoked);
+  /**
+   * Walks up the issuer chains of `issuer` authorized to issue `role`. Issuer authorized by DID has no credential to verify
+   * @param visited credentials already walked, to stop on cyclic issuer chain
+   */
+  private async issuerRevocationStatus(
+    issuer: string,
+    role: string,
+    report: VerificationReportBuilder,
+    visited: Set<string>
+  ): Promise<VerificationResult> {
+    const issuers = await this.issuerResolver.getIssuerDefinition(role);
+    if (!issuers) {
+      return verificationResult(false, ERRORS.NoIssuers);
+    }
+    const { issuerType, roleName, roleNames } = issuers;
+    if (issuerType === 'ANY_OF_ROLES' || issuerType === 'ALL_OF_ROLES') {
+      // Roles are walked one by one, so that walk stops at the first result which decides the policy
+      let result = verificationResult(false, ERRORS.InvalidIssuerType);
+      for (const issuerRole of roleNames ?? []) {
+        result = await this.credentialRevocationStatus(
+          issuer,
+          issuerRole,
+          report,
+          visited
+        );
+        if (result.verified === (issuerType === 'ANY_OF_ROLES')) {
+          break;
         }
       }
+      return result;
+    }
+    if (
+      !roleName ||
+      (issuerType === 'DID_OR_ROLE' &&
+        issuers.did?.some((d) => DID.equals(d, issuer)))
+    ) {
+      return verificationResult(true, '');
+    }
+    return this.credentialRevocationStatus(issuer, roleName, report, visited);
+  }
+
+  /**
+   * Walks up the issuer chain of `role` credential of `holder`
+   * @param visited credentials already walked, to stop on cyclic issuer chain
+   */
+  private async credentialRevocationStatus(
+    holder: string,
+    role: string,
+    report: VerificationReportBuilder,
+    visited: Set<string>
+  ): Promise<VerificationResult> {
+    // Issuer chain which returns to the walked credential does not lead to authorized issuer
+    const key = `${holder}:${role}`;
+    if (visited.has(key)) {
+      return verificationResult(false, ERRORS.IssuerNotAuthorized);
+    }
+    visited.add(key);
+    const credential = await this.credentialResolver.getCredential(
+      holder,
+      role
+    );
+    const link = report.link(holder, role, credential);
+    const result = await report.check(
+      VerificationCheckType.Revocation,
+      holder,
+      role,
+      () => this.credentialStatus(holder, role, credential)
+    );
+    link.revocation = result.verified ? 'passed' : 'failed';
+    if (!result.verified || !link.issuer) {
+      return result;
     }
+    return this.issuerRevocationStatus(link.issuer, role, report, visited);
   }
 }
@@ -1,9 +1,29 @@
 import { CredentialResolver, IssuerResolver } from '..';
-import { VerificationResult, verificationResult } from '../models';
+import {
+  RoleDefinitionChecks,
+  VerificationResult,
+  verificationResult,
+} from '../models';
 import { VerifiableCredential } from '@ew-did-registry/credentials-interface';
-import type { RoleCredentialSubject } from '@energyweb/credential-governance';
-import { ERRORS, InvalidCredentialProof, NoCredential } from '../utils/errors';
-import { addressOf } from '@ew-did-registry/did-ethr-resolver';
+import {
+  DID,
+  DomainReader,
+  validateIssuerFields,
+} from '@energyweb/credential-governance';
+import type {
+  IRoleDefinition,
+  IRoleDefinitionV2,
+  RoleCredentialSubject,
+} from '@energyweb/credential-governance';
+import {
+  CredentialExpired,
+  ERRORS,
+  InvalidCredentialProof,
+  InvalidIssuerFields,
+  NoCredential,
+} from '../utils/errors';
+import { credentialExpiry } from '../utils/expiration';
+import { RoleDefinitionReader } from '../utils/role-definitions';
 import { issuerDID } from '..';
 
 /**
@@ -11,11 +31,28 @@ import { issuerDID } from '..';
  * The hierachy must only consist of VC issuance
  */
 export class VCIssuerVerification {
+  private roleDefinitions?: RoleDefinitionReader;
+
+  /**
+   * @param issuerResolver
+   * @param credentialResolver
+   * @param verifyProof verifier of Verifiable Credential proof
+   * @param domainReader reader of role definitions, required by `checks`
+   * @param checks checks of credentials against role definitions. Issuer fields of credentials are verified
+   * if `validateIssuerFields` is set and credentials without expiration date expire after default validity period
+   * of the role if `enforceDefaultValidity` is set
+   */
   constructor(
     private issuerResolver: IssuerResolver,
     private credentialResolver: CredentialResolver,
-    private verifyProof: (vc: string, proof_options: string) => Promise<any>
-  ) {}
+    private verifyProof: (vc: string, proof_options: string) => Promise<any>,
+    domainReader?: DomainReader,
+    private checks: RoleDefinitionChecks = {}
+  ) {
+    if (domainReader) {
+      this.roleDefinitions = new RoleDefinitionReader(domainReader);
+    }
+  }
 
   /**
    * Verifies that `issuer` is authorized to issue `role`
@@ -24,7 +61,8 @@ export class VCIssuerVerification {
    * const issuerVerification = new VCIssuerVerification(
    * issuerResolver,
    * credentialResolver,
-   * verifyCredential
+   * verifyCredential,
+   * domainReader // optional, to verify issuer fields and default validity period
    * );
    * await issuerVerification.verifyIssuer('issuerDID', 'role');
    * ```
@@ -35,6 +73,18 @@ export class VCIssuerVerification {
   async verifyIssuer(
     issuer: string,
     role: string
+  ): Promise<VerificationResult> {
+    return this.verifyAuthority(issuer, role, new Set());
+  }
+
+  /**
+   * Verifies that `issuer` is authorized to issue `role`
+   * @param visited credentials already walked, to stop on cyclic issuer chain
+   */
+  private async verifyAuthority(
+    issuer: string,
+    role: string,
+    visited: Set<string>
   ): Promise<VerificationResult> {
     const issuers = await this.issuerResolver.getIssuerDefinition(role);
     if (!issuers) {
@@ -42,25 +92,38 @@ export class VCIssuerVerification {
     }
     if (issuers.issuerType === 'DID' && issuers.did) {
       // issuers in role definition are addresses, but in credential are DID's
-      return issuers?.did?.find(
-        (d) => addressOf(d).toUpperCase() === addressOf(issuer).toUpperCase()
-      )
+      return issuers?.did?.find((d) => DID.equals(d, issuer))
         ? verificationResult(true, '')
         : verificationResult(false, ERRORS.IssuerNotAuthorized);
     } else if (issuers.issuerType === 'ROLE' && issuers.roleName) {
-      try {
-        await this.verifyIssuerCredential(issuer, issuers.roleName);
-      } catch (e) {
-        return verificationResult(false, ERRORS.IssuerNotAuthorized);
+      return this.verifyIssuerCredential(issuer, issuers.roleName, visited);
+    } else if (issuers.issuerType === 'DID_OR_ROLE' && issuers.roleName) {
+      if (issuers.did?.some((d) => DID.equals(d, issuer))) {
+        return verificationResult(true, '');
+      }
+      return this.verifyIssuerCredential(issuer, issuers.roleName, visited);
+    } else if (
+      (issuers.issuerType === 'ANY_OF_ROLES' ||
+        issuers.issuerType === 'ALL_OF_ROLES') &&
+      issuers.roleNames?.length
+    ) {
+      // Roles are verified one by one, so that verification stops at the first result which decides the policy
+      let result = verificationResult(false, ERRORS.InvalidIssuerType);
+      for (const roleName of issuers.roleNames) {
+        result = await this.verifyIssuerCredential(issuer, roleName, visited);
+        if (result.verified === (issuers.issuerType === 'ANY_OF_ROLES')) {
+          break;
+        }
       }
+      return result;
     } else {
       return verificationResult(false, ERRORS.InvalidIssuerType);
     }
-    return verificationResult(true, '');
   }
 
   /**
-   * Verifies that `role` credential was issued to `subject`
+   * Verifies that `role` credential was issued to `subject` and has not expired. If `validateIssuerFields` is set,
+   * verifies that issuer fields of credential conform to the role definition
    * @param subject DID of the subject
    * @param role name of the role credential
    * @returns verified role credential
@@ -85,16 +148,97 @@ export class VCIssuerVerification {
         issuerDID(roleVC.issuer)
       );
     }
+    const definition = await this.readRoleDefinition(role);
+    const expiry = credentialExpiry(
+      roleVC,
+      this.checks.enforceDefaultValidity &&
+        definition &&
+        DomainReader.isRoleDefinitionV2(definition)
+        ? definition.defaultValidityPeriod
+        : undefined
+    );
+    if (expiry !== undefined && expiry < Date.now()) {
+      throw new CredentialExpired(role, subject, expiry);
+    }
+    if (this.checks.validateIssuerFields && definition) {
+      this.verifyIssuerFields(roleVC, role, definition);
+    }
     return roleVC;
   }
 
   /**
-   * Verifies that issuer has required `role` credential
+   * Verifies issuer fields of role credential against `issuerFields` of role definition
+   * @param roleVC role credential
+   * @param role name of the role credential
+   * @param definition role definition
+   */
+  private verifyIssuerFields(
+    roleVC: VerifiableCredential<RoleCredentialSubject>,
+    role: string,
+    definition: IRoleDefinition | IRoleDefinitionV2
+  ) {
+    const errors = validateIssuerFields(
+      definition,
+      roleVC.credentialSubject.issuerFields
+    );
+    if (errors.length) {
+      throw new InvalidIssuerFields(role, roleVC.credentialSubject.id, errors);
+    }
+  }
+
+  /**
+   * Reads definition of `role` if any of the checks against role definition is enabled
+   * @param role name of the role
+   * @returns role definition. undefined if role definitions are not available or are not checked
+   */
+  private async readRoleDefinition(
+    role: string
+  ): Promise<IRoleDefinition | IRoleDefinitionV2 | undefined> {
+    const { validateIssuerFields, enforceDefaultValidity } = this.checks;
+    if (!validateIssuerFields && !enforceDefaultValidity) {
+      return undefined;
+    }
+    return this.roleDefinitions?.read(role);
+  }
+
+  /**
+   * Verifies that issuer has required `role` credential, which is not expired and is issued by authorized issuer.
+   * Issuer without `role` credential is not authorized, other failures of the credential are reported as they are
    * @param issuer DID of revoker
    * @param role name of the role credential
+   * @param visited credentials already walked, to stop on cyclic issuer chain
+   * @returns VerificationResult
    */
-  private async verifyIssuerCredential(issuer: string, role: string) {
-    const vc = await this.verifyIssuance(issuer, role);
-    await this.verifyIssuer(issuerDID(vc.issuer), role);
+  private async verifyIssuerCredential(
+    issuer: string,
+    role: string,
+    visited: Set<string>
+  ): Promise<VerificationResult> {
+    // Issuer chain which returns to the walked credential does not lead to authorized issuer
+    const key = `${issuer}:${role}`;
+    if (visited.has(key)) {
+      return verificationResult(false, ERRORS.IssuerNotAuthorized);
+    }
+    visited.add(key);
+
+    let vc: VerifiableCredential<RoleCredentialSubject>;
+    try {
+      vc = await this.verifyIssuance(issuer, role);
+    } catch (e) {
+      if (e instanceof NoCredential) {
+        return verificationResult(false, ERRORS.IssuerNotAuthorized);
+      }
+      if (e instanceof CredentialExpired) {
+        return verificationResult(false, ERRORS.CredentialExpired);
+      }
+      if (e instanceof InvalidCredentialProof) {
+        return verificationResult(false, ERRORS.InvalidCredentialProof);
+      }
+      if (e instanceof InvalidIssuerFields) {
+        return verificationResult(false, ERRORS.InvalidIssuerFields);
+      }
+      throw e;
+    }
+    return this.verifyAuthority(issuerDID(vc.issuer), role, visited);
   }
 }
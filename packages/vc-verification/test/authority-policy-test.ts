@@ -0,0 +1,466 @@
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import { JsonRpcProvider } from '@ethersproject/providers';
+import { abi as erc1056Abi } from '@energyweb/onchain-claims/test/test_utils/ERC1056.json';
+import type {
+  IIssuerDefinition,
+  IRevokerDefinition,
+  RoleCredentialSubject,
+} from '@energyweb/credential-governance';
+import { VerifiableCredential } from '@ew-did-registry/credentials-interface';
+import { Methods } from '@ew-did-registry/did';
+import { RegistrySettings } from '@ew-did-registry/did-resolver-interface';
+import {
+  CredentialResolver,
+  ERRORS,
+  IssuerResolver,
+  IssuerVerification,
+  RevocationVerification,
+  RevokerNotAuthorized,
+  RevokerResolver,
+  VerificationCheckType,
+  verificationResult,
+} from '../src';
+import { ClaimIssuerVerification } from '../src/verifier/claim-issuer-verification';
+import { VCIssuerVerification } from '../src/verifier/vc-issuer-verification';
+import { managerVC } from './Fixtures/sample-vc';
+
+chai.use(chaiAsPromised);
+const expect = chai.expect;
+
+const adminDid = 'did:ethr:volta:0x0d1d4e623D10F9FBA5Db95830F7d3839406C6AF2';
+const userDid = 'did:ethr:volta:0xC5fdf4076b8F3A5357c5E395ab970B5B54098Fef';
+const managerDid = managerVC.credentialSubject.id;
+
+// Manager holds operator and auditor roles, but not installer role
+const heldRoles = ['operator', 'auditor'];
+
+const authorities: Record<string, IIssuerDefinition & IRevokerDefinition> = {
+  operator: { issuerType: 'DID', did: [adminDid] },
+  auditor: { issuerType: 'DID', did: [adminDid] },
+  installer: { issuerType: 'DID', did: [adminDid] },
+  anyOfRoles: { roleNames: ['installer', 'operator'] },
+  anyOfRolesHeldFirst: { roleNames: ['operator', 'installer'] },
+  allOfRoles: { roleNames: ['operator', 'auditor'] },
+  allOfRolesNotHeld: { roleNames: ['operator', 'installer'] },
+  didOrRole: { did: [userDid], roleName: 'installer' },
+};
+const authorityTypes: Record<string, string> = {
+  anyOfRoles: 'ANY_OF_ROLES',
+  anyOfRolesHeldFirst: 'ANY_OF_ROLES',
+  allOfRoles: 'ALL_OF_ROLES',
+  allOfRolesNotHeld: 'ALL_OF_ROLES',
+  didOrRole: 'DID_OR_ROLE',
+};
+
+const issuerResolver: IssuerResolver = {
+  getIssuerDefinition: async (namespace) => {
+    const { issuerType, ...issuers } = authorities[namespace];
+    return { issuerType: authorityTypes[namespace] ?? issuerType, ...issuers };
+  },
+};
+
+const revokerResolver: RevokerResolver = {
+  getRevokerDefinition: async (namespace) => {
+    const { issuerType, ...revokers } = authorities[namespace];
+    return {
+      revokerType: authorityTypes[namespace] ?? issuerType,
+      ...revokers,
+    };
+  },
+};
+
+const credentialOf = (
+  did: string,
+  namespace: string
+): VerifiableCredential<RoleCredentialSubject> | undefined =>
+  did === managerDid && heldRoles.includes(namespace)
+    ? {
+        ...managerVC,
+        credentialSubject: {
+          ...managerVC.credentialSubject,
+          role: { namespace, version: '1' },
+        },
+      }
+    : undefined;
+
+const credentialResolver: CredentialResolver = {
+  getVerifiableCredential: async (did, namespace) =>
+    credentialOf(did, namespace),
+  getEIP191JWT: async () => undefined,
+  getCredential: async (did, namespace) => credentialOf(did, namespace),
+  eip191JwtsOf: async () => [],
+  credentialsOf: async () => [],
+};
+
+const verifyProof = async () => JSON.stringify({ errors: [] });
+
+export function authorityPolicyTests(): void {
+  let provider: JsonRpcProvider;
+  let registrySettings: RegistrySettings;
+  let revocationVerification: RevocationVerification;
+  let issuerVerification: IssuerVerification;
+
+  before(async function () {
+    ({ provider } = this);
+    registrySettings = {
+      method: Methods.Erc1056,
+      abi: erc1056Abi,
+      address: `0x${'0'.repeat(40)}`,
+    };
+    revocationVerification = new RevocationVerification(
+      revokerResolver,
+      issuerResolver,
+      credentialResolver,
+      provider,
+      registrySettings,
+      verifyProof
+    );
+    // Revocation of role credentials is covered by revocation tests
+    const notRevoked = {
+      checkCredentialStatus: async () => verificationResult(true, ''),
+    } as unknown as RevocationVerification;
+    issuerVerification = new IssuerVerification(
+      issuerResolver,
+      credentialResolver,
+      provider,
+      registrySettings,
+      notRevoked,
+      verifyProof
+    );
+  });
+
+  describe('Issuer policies', () => {
+    it('verifies issuer holding any of issuer roles', async () => {
+      expect(
+        await issuerVerification.verifyIssuer(managerDid, 'anyOfRoles')
+      ).to.include(verificationResult(true, ''));
+    });
+
+    it('verifies issuer holding all of issuer roles', async () => {
+      expect(
+        await issuerVerification.verifyIssuer(managerDid, 'allOfRoles')
+      ).to.include(verificationResult(true, ''));
+    });
+
+    it('does not verify issuer missing one of issuer roles', async () => {
+      expect(
+        await issuerVerification.verifyIssuer(managerDid, 'allOfRolesNotHeld')
+      ).to.include(verificationResult(false, ERRORS.NoCredential));
+    });
+
+    it('verifies issuer from DID list of DID_OR_ROLE policy', async () => {
+      expect(
+        await issuerVerification.verifyIssuer(userDid, 'didOrRole')
+      ).to.include(verificationResult(true, ''));
+    });
+
+    it('does not verify issuer neither in DID list nor holding role of DID_OR_ROLE policy', async () => {
+      expect(
+        await issuerVerification.verifyIssuer(managerDid, 'didOrRole')
+      ).to.include(verificationResult(false, ERRORS.NoCredential));
+    });
+  });
+
+  describe('Issuer policies of Verifiable Credentials', () => {
+    const vcIssuerVerification = (resolver = credentialResolver) =>
+      new VCIssuerVerification(issuerResolver, resolver, verifyProof);
+
+    it('verifies issuer holding any of issuer roles', async () => {
+      expect(
+        await vcIssuerVerification().verifyIssuer(managerDid, 'anyOfRoles')
+      ).to.deep.equal(verificationResult(true, ''));
+    });
+
+    it('stops at first held role of ANY_OF_ROLES policy', async () => {
+      const requested: string[] = [];
+      const resolver = {
+        ...credentialResolver,
+        getVerifiableCredential: async (did: string, namespace: string) => {
+          requested.push(namespace);
+          return credentialOf(did, namespace);
+        },
+      };
+
+      expect(
+        await vcIssuerVerification(resolver).verifyIssuer(
+          managerDid,
+          'anyOfRolesHeldFirst'
+        )
+      ).to.deep.equal(verificationResult(true, ''));
+      expect(requested).to.not.include('installer');
+    });
+
+    it('does not verify issuer missing one of issuer roles', async () => {
+      expect(
+        await vcIssuerVerification().verifyIssuer(
+          managerDid,
+          'allOfRolesNotHeld'
+        )
+      ).to.deep.equal(verificationResult(false, ERRORS.IssuerNotAuthorized));
+    });
+
+    it('does not verify issuer chain which returns to walked credential', async () => {
+      // Credential of operator role is issued by its own holder
+      const resolver = {
+        ...credentialResolver,
+        getVerifiableCredential: async (did: string, namespace: string) => {
+          const vc = credentialOf(did, namespace);
+          return vc && { ...vc, issuer: managerDid };
+        },
+      };
+
+      expect(
+        await vcIssuerVerification(resolver).verifyIssuer(
+          managerDid,
+          'anyOfRoles'
+        )
+      ).to.deep.equal(verificationResult(false, ERRORS.IssuerNotAuthorized));
+    });
+
+    it('reports invalid proof of issuer credential', async () => {
+      const verification = new VCIssuerVerification(
+        issuerResolver,
+        credentialResolver,
+        async () => JSON.stringify({ errors: ['invalid signature'] })
+      );
+
+      expect(
+        await verification.verifyIssuer(managerDid, 'allOfRoles')
+      ).to.deep.equal(verificationResult(false, ERRORS.InvalidCredentialProof));
+    });
+
+    it('propagates failure to resolve issuer credential', async () => {
+      const failingResolver = {
+        ...credentialResolver,
+        getVerifiableCredential: async () => {
+          throw new Error('Credential storage is not available');
+        },
+      };
+
+      await expect(
+        vcIssuerVerification(failingResolver).verifyIssuer(
+          managerDid,
+          'allOfRoles'
+        )
+      ).to.be.rejectedWith('Credential storage is not available');
+    });
+  });
+
+  describe('Issuer policies of claims', () => {
+    // Claims are resolved as verified issuance of held roles, so that claim proofs are not read from DID registry
+    const claimIssuerVerification = ({
+      issuers = issuerResolver,
+      issuerOf = () => adminDid,
+    }: {
+      issuers?: IssuerResolver;
+      issuerOf?: (did: string) => string;
+    } = {}) => {
+      const verification = new ClaimIssuerVerification(
+        provider,
+        registrySettings,
+        credentialResolver,
+        issuers
+      );
+      verification.verifyIssuance = async (did, namespace) => {
+        if (!credentialOf(did, namespace)) {
+          throw new Error(
+            'Unable to resolve the issuer credential to verify their authority'
+          );
+        }
+        return {
+          iss: issuerOf(did),
+          signer: issuerOf(did),
+          claimData: { fields: {}, claimType: namespace, claimTypeVersion: 1 },
+        };
+      };
+      return verification;
+    };
+
+    it('verifies issuer holding any of issuer roles', async () => {
+      expect(
+        await claimIssuerVerification().verifyIssuer(managerDid, 'anyOfRoles')
+      ).to.deep.equal(verificationResult(true, ''));
+    });
+
+    it('verifies issuer holding all of issuer roles', async () => {
+      expect(
+        await claimIssuerVerification().verifyIssuer(managerDid, 'allOfRoles')
+      ).to.deep.equal(verificationResult(true, ''));
+    });
+
+    it('does not verify issuer missing one of issuer roles', async () => {
+      await expect(
+        claimIssuerVerification().verifyIssuer(managerDid, 'allOfRolesNotHeld')
+      ).to.be.rejectedWith(
+        'Unable to resolve the issuer credential to verify their authority'
+      );
+    });
+
+    it('verifies issuer from DID list of DID_OR_ROLE policy', async () => {
+      expect(
+        await claimIssuerVerification().verifyIssuer(userDid, 'didOrRole')
+      ).to.deep.equal(verificationResult(true, ''));
+    });
+
+    it('does not verify issuer chain which returns to walked claim', async () => {
+      // Claim of operator role is issued by its own holder
+      const verification = claimIssuerVerification({
+        issuers: {
+          getIssuerDefinition: async () => ({
+            issuerType: 'ROLE',
+            roleName: 'operator',
+          }),
+        },
+        issuerOf: (did) => did,
+      });
+
+      expect(
+        await verification.verifyIssuer(managerDid, 'operator')
+      ).to.deep.equal(verificationResult(false, ERRORS.IssuerNotAuthorized));
+    });
+  });
+
+  describe('Verification report', () => {
+    it('reports credentials of the issuer chain', async () => {
+      const { chain, checks } = await issuerVerification.verifyIssuer(
+        managerDid,
+        'allOfRoles'
+      );
+
+      expect(chain.map(({ did, role }) => ({ did, role }))).to.deep.equal([
+        { did: managerDid, role: 'operator' },
+        { did: managerDid, role: 'auditor' },
+      ]);
+      expect(chain[0]).to.include({
+        credentialId: managerVC.id,
+        credentialType: 'VerifiableCredential',
+        proof: 'passed',
+        revocation: 'passed',
+      });
+      expect(checks.every(({ passed }) => passed)).to.be.true;
+    });
+
+    it('reports failed check with its code', async () => {
+      const report = await issuerVerification.verifyIssuer(
+        managerDid,
+        'allOfRolesNotHeld'
+      );
+
+      expect(report).to.include({ verified: false, code: 'NoCredential' });
+      expect(report.checks.find(({ passed }) => !passed)).to.include({
+        type: VerificationCheckType.Credential,
+        did: managerDid,
+        role: 'installer',
+        code: 'NoCredential',
+      });
+      expect(report.chain[1]).to.include({
+        role: 'installer',
+        proof: 'skipped',
+        revocation: 'skipped',
+      });
+    });
+  });
+
+  describe('Revocation status of issuer policies', () => {
+    const revocationVerificationOf = ({
+      issuers = issuerResolver,
+      getCredential,
+    }: {
+      issuers?: IssuerResolver;
+      getCredential: CredentialResolver['getCredential'];
+    }) =>
+      new RevocationVerification(
+        revokerResolver,
+        issuers,
+        { ...credentialResolver, getCredential },
+        provider,
+        registrySettings,
+        verifyProof
+      );
+    // Credentials are resolved without status, so that status lists are not requested
+    const withoutStatus = async (did: string, namespace: string) => {
+      const vc = credentialOf(did, namespace);
+      return vc && { ...vc, credentialStatus: undefined };
+    };
+
+    it('verifies revocation status of issuer holding any of issuer roles', async () => {
+      expect(
+        await revocationVerificationOf({
+          getCredential: withoutStatus,
+        }).checkRevocationStatus(managerDid, 'anyOfRoles')
+      ).to.include(verificationResult(true, ''));
+    });
+
+    it('does not verify revocation status of issuer missing one of issuer roles', async () => {
+      expect(
+        await revocationVerificationOf({
+          getCredential: withoutStatus,
+        }).checkRevocationStatus(managerDid, 'allOfRolesNotHeld')
+      ).to.include(verificationResult(false, ERRORS.NoCredential));
+    });
+
+    it('does not verify revocation status of role without issuers', async () => {
+      expect(
+        await revocationVerificationOf({
+          issuers: { getIssuerDefinition: async () => undefined },
+          getCredential: withoutStatus,
+        }).checkRevocationStatus(managerDid, 'operator')
+      ).to.include(verificationResult(false, ERRORS.NoIssuers));
+    });
+
+    it('does not verify issuer chain which returns to walked credential', async () => {
+      // Credential of operator role is issued by its own holder
+      const verification = revocationVerificationOf({
+        issuers: {
+          getIssuerDefinition: async () => ({
+            issuerType: 'ROLE',
+            roleName: 'operator',
+          }),
+        },
+        getCredential: async (did, namespace) => {
+          const vc = await withoutStatus(managerDid, namespace);
+          return vc && { ...vc, issuer: did };
+        },
+      });
+
+      expect(
+        await verification.checkCredentialRevocationStatus(
+          managerDid,
+          'operator'
+        )
+      ).to.include(verificationResult(false, ERRORS.IssuerNotAuthorized));
+    });
+  });
+
+  describe('Revoker policies', () => {
+    it('verifies revoker holding any of revoker roles', async () => {
+      await expect(
+        revocationVerification.verifyRevoker(managerDid, 'anyOfRoles')
+      ).to.be.fulfilled;
+    });
+
+    it('verifies revoker holding all of revoker roles', async () => {
+      await expect(
+        revocationVerification.verifyRevoker(managerDid, 'allOfRoles')
+      ).to.be.fulfilled;
+    });
+
+    it('rejects revoker missing one of revoker roles', async () => {
+      await expect(
+        revocationVerification.verifyRevoker(managerDid, 'allOfRolesNotHeld')
+      ).to.be.rejectedWith(RevokerNotAuthorized);
+    });
+
+    it('verifies revoker from DID list of DID_OR_ROLE policy', async () => {
+      await expect(revocationVerification.verifyRevoker(userDid, 'didOrRole'))
+        .to.be.fulfilled;
+    });
+
+    it('rejects revoker neither in DID list nor holding role of DID_OR_ROLE policy', async () => {
+      await expect(
+        revocationVerification.verifyRevoker(managerDid, 'didOrRole')
+      ).to.be.rejectedWith(RevokerNotAuthorized);
+    });
+  });
+}
@@ -0,0 +1,184 @@
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import { utils } from 'ethers';
+import type {
+  DomainReader,
+  IRoleDefinitionV2,
+} from '@energyweb/credential-governance';
+import {
+  CredentialExpired,
+  credentialExpiry,
+  CredentialResolver,
+  ERRORS,
+  IssuerResolver,
+  RoleDefinitionChecks,
+  RolePayload,
+  verificationResult,
+} from '../src';
+import { VCIssuerVerification } from '../src/verifier/vc-issuer-verification';
+import { managerVC, userVC } from './Fixtures/sample-vc';
+
+chai.use(chaiAsPromised);
+const expect = chai.expect;
+
+const managerRole = 'manager';
+const userRole = 'user';
+const managerDid = managerVC.credentialSubject.id;
+const userDid = userVC.credentialSubject.id;
+const day = 24 * 60 * 60 * 1000;
+
+const definitionOf = (
+  roleName: string,
+  defaultValidityPeriod?: number
+): IRoleDefinitionV2 => ({
+  roleName,
+  roleType: 'test',
+  version: 1,
+  metadata: [],
+  enrolmentPreconditions: [],
+  issuer:
+    roleName === userRole
+      ? { issuerType: 'ROLE', roleName: managerRole }
+      : { issuerType: 'DID', did: [managerVC.issuer as string] },
+  revoker: { revokerType: 'DID', did: [managerVC.issuer as string] },
+  defaultValidityPeriod,
+});
+
+const issuerResolver: IssuerResolver = {
+  getIssuerDefinition: async (namespace) => definitionOf(namespace).issuer,
+};
+
+const credentialResolver = {
+  getVerifiableCredential: async (did: string) =>
+    did === managerDid ? managerVC : userVC,
+} as unknown as CredentialResolver;
+
+const verification = (
+  validityPeriods: Record<string, number>,
+  checks: RoleDefinitionChecks = { enforceDefaultValidity: true },
+  readNodes: string[] = []
+) =>
+  new VCIssuerVerification(
+    issuerResolver,
+    credentialResolver,
+    async () => JSON.stringify({ errors: [] }),
+    {
+      read: async ({ node }: { node: string }) => {
+        readNodes.push(node);
+        const role = [managerRole, userRole].find(
+          (r) => utils.namehash(r) === node
+        ) as string;
+        return definitionOf(role, validityPeriods[role]);
+      },
+    } as unknown as DomainReader,
+    checks
+  );
+
+export function credentialExpiryTests(): void {
+  describe('Effective expiry', () => {
+    const issuedAt = new Date(managerVC.issuanceDate).getTime();
+
+    it('prefers expiration date of credential to default validity period', () => {
+      expect(
+        credentialExpiry(
+          { ...managerVC, expirationDate: '2030-01-01T00:00:00.000Z' },
+          day
+        )
+      ).to.equal(Date.parse('2030-01-01T00:00:00.000Z'));
+    });
+
+    it('counts default validity period from issuance of credential', () => {
+      expect(credentialExpiry(managerVC, day)).to.equal(issuedAt + day);
+      expect(credentialExpiry(managerVC)).to.be.undefined;
+    });
+
+    it('computes expiry of claim from times in seconds', () => {
+      const payload = { iat: 1000, exp: 2000 } as RolePayload;
+
+      expect(credentialExpiry(payload, day)).to.equal(2000 * 1000);
+      expect(credentialExpiry({ ...payload, exp: undefined }, day)).to.equal(
+        1000 * 1000 + day
+      );
+    });
+
+    it('treats credential with invalid date as expired', () => {
+      expect(
+        credentialExpiry({ ...managerVC, expirationDate: 'not a date' })
+      ).to.equal(0);
+      expect(
+        credentialExpiry({ ...managerVC, issuanceDate: 'not a date' }, day)
+      ).to.equal(0);
+    });
+  });
+
+  describe('Verification', () => {
+    it('rejects credential with invalid expiration date', async () => {
+      const verifier = new VCIssuerVerification(
+        issuerResolver,
+        {
+          getVerifiableCredential: async () => ({
+            ...managerVC,
+            expirationDate: 'not a date',
+          }),
+        } as unknown as CredentialResolver,
+        async () => JSON.stringify({ errors: [] })
+      );
+
+      await expect(
+        verifier.verifyIssuance(managerDid, managerRole)
+      ).to.be.rejectedWith(CredentialExpired);
+    });
+
+    it('rejects credential issued before default validity period of the role', async () => {
+      await expect(
+        verification({ [userRole]: day }).verifyIssuance(userDid, userRole)
+      ).to.be.rejectedWith(CredentialExpired);
+    });
+
+    it('accepts credential within default validity period of the role', async () => {
+      await expect(
+        verification({ [userRole]: 100 * 365 * day }).verifyIssuance(
+          userDid,
+          userRole
+        )
+      ).to.be.fulfilled;
+    });
+
+    it('reports expired issuer credential in the chain', async () => {
+      expect(
+        await verification({ [managerRole]: day }).verifyIssuer(
+          managerDid,
+          userRole
+        )
+      ).to.deep.equal(verificationResult(false, ERRORS.CredentialExpired));
+    });
+
+    it('does not apply default validity period unless it is enforced', async () => {
+      const readNodes: string[] = [];
+
+      await expect(
+        verification({ [userRole]: day }, {}, readNodes).verifyIssuance(
+          userDid,
+          userRole
+        )
+      ).to.be.fulfilled;
+      expect(readNodes).to.be.empty;
+    });
+
+    it('reads role definition once per role', async () => {
+      const readNodes: string[] = [];
+      const verifier = verification({}, undefined, readNodes);
+
+      await verifier.verifyIssuance(userDid, userRole);
+      await verifier.verifyIssuance(userDid, userRole);
+
+      expect(readNodes).to.deep.equal([utils.namehash(userRole)]);
+    });
+
+    it('verifies issuer whose credential has no default expiry', async () => {
+      expect(
+        await verification({}).verifyIssuer(managerDid, userRole)
+      ).to.deep.equal(verificationResult(true, ''));
+    });
+  });
+}
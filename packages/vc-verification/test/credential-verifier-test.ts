@@ -0,0 +1,216 @@
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import { JsonRpcProvider } from '@ethersproject/providers';
+import { abi as erc1056Abi } from '@energyweb/onchain-claims/test/test_utils/ERC1056.json';
+import type { RoleCredentialSubject } from '@energyweb/credential-governance';
+import { VerifiableCredential } from '@ew-did-registry/credentials-interface';
+import { Methods } from '@ew-did-registry/did';
+import { RegistrySettings } from '@ew-did-registry/did-resolver-interface';
+import {
+  CredentialVerifier,
+  ERRORS,
+  IssuerVerification,
+  RevocationVerification,
+  RevokerNotAuthorized,
+  RoleEIP191JWT,
+  VerificationCheckType,
+  VerificationReport,
+  VerificationReportBuilder,
+  verificationResult,
+} from '../src';
+import { managerVC } from './Fixtures/sample-vc';
+
+chai.use(chaiAsPromised);
+const expect = chai.expect;
+
+const managerDid = managerVC.credentialSubject.id;
+const managerRole = managerVC.credentialSubject.role.namespace;
+const adminDid = managerVC.issuer as string;
+
+// Status list of the fixture is not reachable in tests
+const vc: VerifiableCredential<RoleCredentialSubject> = {
+  ...managerVC,
+  credentialStatus: undefined,
+};
+
+const issuerReport = (verified: boolean): VerificationReport => {
+  const result = verified
+    ? verificationResult(true, '')
+    : verificationResult(false, ERRORS.NoCredential);
+  const builder = new VerificationReportBuilder();
+  builder.link(adminDid, 'admin');
+  builder.record(VerificationCheckType.Credential, adminDid, 'admin', result);
+  return builder.report(result);
+};
+
+export function credentialVerifierTests(): void {
+  let provider: JsonRpcProvider;
+  let registrySettings: RegistrySettings;
+  let verifiedIssuers: string[];
+
+  const verifier = (
+    issuerVerified: boolean,
+    proofVerified = true,
+    revocationVerification = {} as RevocationVerification
+  ): CredentialVerifier =>
+    new CredentialVerifier(
+      {
+        verifyIssuer: async (issuer: string) => {
+          verifiedIssuers.push(issuer);
+          return issuerReport(issuerVerified);
+        },
+      } as unknown as IssuerVerification,
+      revocationVerification,
+      provider,
+      registrySettings,
+      async () =>
+        JSON.stringify({ errors: proofVerified ? [] : ['Invalid proof'] })
+    );
+
+  before(async function () {
+    ({ provider } = this);
+    registrySettings = {
+      method: Methods.Erc1056,
+      abi: erc1056Abi,
+      address: `0x${'0'.repeat(40)}`,
+    };
+  });
+
+  beforeEach(() => {
+    verifiedIssuers = [];
+  });
+
+  it('verifies credential issued by authorized issuer', async () => {
+    const report = await verifier(true).verify(vc);
+
+    expect(report).to.include(verificationResult(true, ''));
+    expect(verifiedIssuers).to.deep.equal([adminDid]);
+    expect(report.chain.map(({ did }) => did)).to.deep.equal([
+      managerDid,
+      adminDid,
+    ]);
+    expect(report.chain[0]).to.include({
+      role: managerRole,
+      issuer: adminDid,
+      proof: 'passed',
+      revocation: 'skipped',
+    });
+    expect(report.checks.map(({ type }) => type)).to.deep.equal([
+      VerificationCheckType.Proof,
+      VerificationCheckType.Expiry,
+      VerificationCheckType.Credential,
+    ]);
+  });
+
+  it('does not verify credential with invalid proof', async () => {
+    const report = await verifier(true, false).verify(vc);
+
+    expect(report).to.include({
+      ...verificationResult(false, ERRORS.InvalidCredentialProof),
+      code: 'InvalidCredentialProof',
+    });
+    expect(report.chain[0]).to.include({ proof: 'failed' });
+    expect(verifiedIssuers).to.be.empty;
+  });
+
+  it('does not verify expired credential', async () => {
+    const report = await verifier(true).verify({
+      ...vc,
+      expirationDate: new Date(Date.now() - 1000).toISOString(),
+    });
+
+    expect(report).to.include({
+      ...verificationResult(false, ERRORS.CredentialExpired),
+      code: 'CredentialExpired',
+    });
+    expect(verifiedIssuers).to.be.empty;
+  });
+
+  it('does not verify credential issued by unauthorized issuer', async () => {
+    const report = await verifier(false).verify(vc);
+
+    expect(report).to.include({
+      ...verificationResult(false, ERRORS.NoCredential),
+      code: 'NoCredential',
+    });
+    expect(report.checks.find(({ passed }) => !passed)).to.include({
+      did: adminDid,
+      code: 'NoCredential',
+    });
+  });
+
+  it('does not verify claim which token does not contain claims', async () => {
+    const claim = {
+      payload: {
+        sub: managerDid,
+        iss: adminDid,
+        claimData: { claimType: managerRole },
+      },
+      eip191Jwt: 'not a token',
+    } as unknown as RoleEIP191JWT;
+
+    const report = await verifier(true).verify(claim);
+
+    expect(report).to.include(
+      verificationResult(false, ERRORS.InvalidCredentialProof)
+    );
+    expect(report.chain[0]).to.include({ did: managerDid, proof: 'failed' });
+    expect(verifiedIssuers).to.be.empty;
+  });
+
+  describe('Status', () => {
+    const statusVerification = (
+      verifyCredentialStatus: RevocationVerification['verifyCredentialStatus']
+    ) => ({ verifyCredentialStatus } as unknown as RevocationVerification);
+
+    it('does not verify revoked credential', async () => {
+      const report = await verifier(
+        true,
+        true,
+        statusVerification(async () =>
+          verificationResult(false, ERRORS.CredentialRevoked)
+        )
+      ).verify(managerVC);
+
+      expect(report).to.include({
+        ...verificationResult(false, ERRORS.CredentialRevoked),
+        code: 'CredentialRevoked',
+      });
+      expect(report.chain[0]).to.include({ revocation: 'failed' });
+      expect(verifiedIssuers).to.be.empty;
+    });
+
+    it('reports status list of unauthorized revoker as failed check', async () => {
+      const report = await verifier(
+        true,
+        true,
+        statusVerification(async () => {
+          throw new RevokerNotAuthorized(adminDid, managerRole);
+        })
+      ).verify(managerVC);
+
+      expect(report).to.include({
+        ...verificationResult(false, ERRORS.RevokerNotAuthorized),
+        code: 'RevokerNotAuthorized',
+      });
+      expect(report.checks.find(({ passed }) => !passed)).to.include({
+        type: VerificationCheckType.Revocation,
+        did: managerDid,
+        code: 'RevokerNotAuthorized',
+      });
+      expect(verifiedIssuers).to.be.empty;
+    });
+
+    it('propagates failure to read status list', async () => {
+      await expect(
+        verifier(
+          true,
+          true,
+          statusVerification(async () => {
+            throw new Error('Status list is not available');
+          })
+        ).verify(managerVC)
+      ).to.be.rejectedWith('Status list is not available');
+    });
+  });
+}
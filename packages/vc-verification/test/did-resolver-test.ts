@@ -0,0 +1,106 @@
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import {
+  DIDDocumentNotResolved,
+  DIDMethodNotSupported,
+  KeyDIDResolver,
+  UniversalDIDResolver,
+  WebDIDResolver,
+} from '../src';
+
+chai.use(chaiAsPromised);
+const expect = chai.expect;
+
+const keyId = 'z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK';
+const keyDid = `did:key:${keyId}`;
+const webDid = 'did:web:example.com:issuers:acme';
+
+export function didResolverTests(): void {
+  describe('did:key', () => {
+    it('resolves document with public key of DID', async () => {
+      const document = await new KeyDIDResolver().resolve(`${keyDid}#${keyId}`);
+
+      expect(document.id).to.equal(keyDid);
+      expect(document.verificationMethod).to.deep.equal([
+        {
+          id: `${keyDid}#${keyId}`,
+          type: 'Multikey',
+          controller: keyDid,
+          publicKeyMultibase: keyId,
+        },
+      ]);
+    });
+
+    it('rejects DID of other method', async () => {
+      await expect(new KeyDIDResolver().resolve(webDid)).to.be.rejectedWith(
+        DIDMethodNotSupported
+      );
+    });
+  });
+
+  describe('did:web', () => {
+    const requestedUrls: string[] = [];
+    const fetchDocument = async (url: string) => {
+      requestedUrls.push(url);
+      return { id: webDid };
+    };
+
+    beforeEach(() => {
+      requestedUrls.length = 0;
+    });
+
+    it('maps DID to URL of document', () => {
+      expect(WebDIDResolver.documentUrl('did:web:example.com')).to.equal(
+        'https://example.com/.well-known/did.json'
+      );
+      expect(WebDIDResolver.documentUrl(webDid)).to.equal(
+        'https://example.com/issuers/acme/did.json'
+      );
+      expect(WebDIDResolver.documentUrl('did:web:localhost%3A8443')).to.equal(
+        'https://localhost:8443/.well-known/did.json'
+      );
+    });
+
+    it('resolves document hosted on domain of DID', async () => {
+      const document = await new WebDIDResolver(fetchDocument).resolve(
+        `${webDid}#key-1`
+      );
+
+      expect(document).to.deep.equal({ id: webDid });
+      expect(requestedUrls).to.deep.equal([
+        'https://example.com/issuers/acme/did.json',
+      ]);
+    });
+
+    it('rejects document of another DID', async () => {
+      await expect(
+        new WebDIDResolver(fetchDocument).resolve('did:web:example.com')
+      ).to.be.rejectedWith(DIDDocumentNotResolved);
+    });
+
+    it('rejects when document can not be fetched', async () => {
+      const resolver = new WebDIDResolver(async () => {
+        throw new Error('Not Found');
+      });
+
+      await expect(resolver.resolve(webDid)).to.be.rejectedWith(
+        DIDDocumentNotResolved,
+        'Not Found'
+      );
+    });
+  });
+
+  describe('Universal resolver', () => {
+    const resolver = new UniversalDIDResolver({ key: new KeyDIDResolver() });
+
+    it('resolves DID with resolver of its method', async () => {
+      expect((await resolver.resolve(keyDid)).id).to.equal(keyDid);
+    });
+
+    it('rejects DID of not supported method', async () => {
+      await expect(resolver.resolve(webDid)).to.be.rejectedWith(
+        DIDMethodNotSupported
+      );
+    });
+  });
+}
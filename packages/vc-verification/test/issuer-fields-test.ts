@@ -0,0 +1,105 @@
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import type {
+  DomainReader,
+  IRoleDefinitionV2,
+  IssuerFields,
+} from '@energyweb/credential-governance';
+import {
+  CredentialResolver,
+  InvalidIssuerFields,
+  IssuerResolver,
+} from '../src';
+import { VCIssuerVerification } from '../src/verifier/vc-issuer-verification';
+import { managerVC } from './Fixtures/sample-vc';
+
+chai.use(chaiAsPromised);
+const expect = chai.expect;
+
+const managerDid = managerVC.credentialSubject.id;
+const managerRole = 'manager';
+
+const definition: IRoleDefinitionV2 = {
+  roleName: managerRole,
+  roleType: 'test',
+  version: 1,
+  metadata: [],
+  enrolmentPreconditions: [],
+  issuer: { issuerType: 'DID', did: [managerVC.issuer as string] },
+  revoker: { revokerType: 'DID', did: [managerVC.issuer as string] },
+  issuerFields: [
+    { fieldType: 'text', label: 'site', required: true, minLength: 3 },
+  ],
+};
+
+const domainReader = {
+  read: async () => definition,
+} as unknown as DomainReader;
+
+const credentialWithFields = (issuerFields: IssuerFields[]) => ({
+  ...managerVC,
+  credentialSubject: { ...managerVC.credentialSubject, issuerFields },
+});
+
+const verification = (
+  issuerFields: IssuerFields[],
+  reader?: DomainReader,
+  validateIssuerFields = true
+) => {
+  const credentialResolver = {
+    getVerifiableCredential: async () => credentialWithFields(issuerFields),
+  } as unknown as CredentialResolver;
+  const issuerResolver: IssuerResolver = {
+    getIssuerDefinition: async () => definition.issuer,
+  };
+  return new VCIssuerVerification(
+    issuerResolver,
+    credentialResolver,
+    async () => JSON.stringify({ errors: [] }),
+    reader,
+    { validateIssuerFields }
+  );
+};
+
+export function issuerFieldsTests(): void {
+  it('accepts credential with issuer fields conforming to role definition', async () => {
+    await expect(
+      verification(
+        [{ key: 'site', value: 'Berlin' }],
+        domainReader
+      ).verifyIssuance(managerDid, managerRole)
+    ).to.be.fulfilled;
+  });
+
+  it('rejects credential with issuer fields violating role definition', async () => {
+    await expect(
+      verification([{ key: 'site', value: 'B' }], domainReader).verifyIssuance(
+        managerDid,
+        managerRole
+      )
+    ).to.be.rejectedWith(
+      InvalidIssuerFields,
+      'site should be at least 3 characters long'
+    );
+  });
+
+  it('rejects credential missing required issuer field', async () => {
+    await expect(
+      verification([], domainReader).verifyIssuance(managerDid, managerRole)
+    ).to.be.rejectedWith(InvalidIssuerFields, 'site is required');
+  });
+
+  it('does not verify issuer fields without role definitions', async () => {
+    await expect(verification([]).verifyIssuance(managerDid, managerRole)).to.be
+      .fulfilled;
+  });
+
+  it('does not verify issuer fields unless validation is enabled', async () => {
+    await expect(
+      verification([], domainReader, false).verifyIssuance(
+        managerDid,
+        managerRole
+      )
+    ).to.be.fulfilled;
+  });
+}
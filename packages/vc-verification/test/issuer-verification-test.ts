@@ -31,6 +31,9 @@ import {
   RevocationVerification,
   EthersProviderRevokerResolver,
   RevokerResolver,
+  PreconditionVerification,
+  ERRORS,
+  verificationResult,
 } from '../src';
 import {
   DIDAttribute,
@@ -44,7 +47,7 @@ import {
   spawnIpfsDaemon,
   shutDownIpfsDaemon,
 } from '../../../test/utils/ipfs-daemon';
-import { adminVC, managerVC } from './Fixtures/sample-vc';
+import { adminVC, managerVC, userVC } from './Fixtures/sample-vc';
 import {
   adminStatusList,
   managerStatusList,
@@ -74,11 +77,13 @@ let credentialResolver: CredentialResolver;
 let issuerResolver: IssuerResolver;
 let revokerResolver: RevokerResolver;
 let revocationVerification: RevocationVerification;
+let preconditionVerification: PreconditionVerification;
 
 let deployer: JsonRpcSigner;
 let deployerAddr: string;
 let user: EwSigner;
 let userAddress: string;
+let userDid: string;
 let manager: EwSigner;
 let managerAddress: string;
 let admin: EwSigner;
@@ -113,6 +118,7 @@ export function issuerVerificationTests(): void {
         '0dbbe8e4ae425a6d2687f1a7e3ba17bc98c673636790f1b8ad91193c05875ef1',
     });
     userAddress = userKeys.getAddress();
+    userDid = `did:${Methods.Erc1056}:${userAddress}`;
     user = EwSigner.fromPrivateKey(userKeys.privateKey, providerSettings);
 
     adminKeys = new Keys({
@@ -223,6 +229,15 @@ function testSuite() {
       revocationVerification,
       verifyCredential
     );
+    preconditionVerification = new PreconditionVerification(
+      domainReader,
+      credentialResolver,
+      provider,
+      registrySettings,
+      issuerVerification,
+      revocationVerification,
+      verifyCredential
+    );
 
     await (
       await ensRegistry.setSubnodeOwner(
@@ -995,4 +1010,151 @@ function testSuite() {
       ).to.be.false;
     });
   });
+
+  describe('Precondition verification', () => {
+    const saveCredential = async (
+      operator: Operator,
+      did: string,
+      role: string,
+      credential: unknown
+    ) => {
+      const updateData: IUpdateData = {
+        type: DIDAttribute.ServicePoint,
+        value: {
+          id: `${did}#service-${role}`,
+          type: 'ClaimStore',
+          serviceEndpoint: await didStore.save(JSON.stringify(credential)),
+        },
+      };
+      await operator.update(
+        did,
+        DIDAttribute.ServicePoint,
+        updateData,
+        validity
+      );
+    };
+
+    afterEach(() => {
+      nock.cleanAll();
+    });
+
+    it('verifies role without enrolment preconditions', async () => {
+      return expect(
+        (await preconditionVerification.verifyPreconditions(userDid, userRole))
+          .verified
+      ).to.be.true;
+    });
+
+    it('verifies preconditions when subject holds prerequisite credential', async () => {
+      await saveCredential(adminOperator, adminDid, adminRole, adminVC);
+      await saveCredential(managerOperator, managerDid, managerRole, managerVC);
+      await saveCredential(userOperator, userDid, userRole, userVC);
+      nock(userVC.credentialStatus?.statusListCredential as string)
+        .persist()
+        .get('')
+        .reply(204, undefined);
+
+      return expect(
+        (
+          await preconditionVerification.verifyPreconditions(
+            userDid,
+            activeuserRole
+          )
+        ).verified
+      ).to.be.true;
+    });
+
+    it('does not verify preconditions when subject does not hold prerequisite credential', async () => {
+      const result = await preconditionVerification.verifyPreconditions(
+        userDid,
+        activeuserRole
+      );
+
+      expect(result.verified).to.be.false;
+      expect(result.error).to.equal(ERRORS.EnrolmentPreconditionsNotMet);
+    });
+
+    it('does not verify prerequisite credential when it is missing', async () => {
+      const result =
+        await preconditionVerification.verifyPrerequisiteCredential(
+          userDid,
+          userRole
+        );
+
+      expect(result.verified).to.be.false;
+      expect(result.error).to.equal(ERRORS.NoPrerequisiteCredential);
+    });
+
+    it('does not verify preconditions of namespace which is not a role', async () => {
+      const organizationReader = {
+        read: async () => ({ orgName: 'organization', others: {} }),
+      } as unknown as DomainReader;
+      const verification = new PreconditionVerification(
+        organizationReader,
+        credentialResolver,
+        provider,
+        registrySettings,
+        issuerVerification,
+        revocationVerification,
+        verifyCredential
+      );
+
+      expect(
+        await verification.verifyPreconditions(userDid, 'organization')
+      ).to.deep.equal(verificationResult(false, ERRORS.NoRoleDefinition));
+    });
+  });
+
+  describe('Historical authority resolution', () => {
+    const managerDefinition = {
+      roleName: managerRole,
+      enrolmentPreconditions: [],
+      requestorFields: [],
+      issuerFields: [],
+      issuer: { issuerType: 'ROLE', roleName: adminRole },
+      revoker: { revokerType: 'ROLE', roleName: adminRole },
+      metadata: [],
+      roleType: '',
+      version: defaultVersion,
+    };
+    let blockBeforeUpdate: number;
+
+    beforeEach(async () => {
+      blockBeforeUpdate = await provider.getBlockNumber();
+      // Distinguishes timestamp of the update from the timestamp of previous block
+      await provider.send('evm_increaseTime', [60]);
+      await (
+        await deployer.sendTransaction(
+          roleFactory.editDomain({
+            domain: managerRole,
+            domainDefinition: {
+              ...managerDefinition,
+              issuer: { issuerType: 'DID', did: [adminDid] },
+              revoker: { revokerType: 'DID', did: [adminDid] },
+              version: defaultVersion + 1,
+            },
+          })
+        )
+      ).wait();
+    });
+
+    it('resolves issuers at block', async () => {
+      expect(
+        await issuerResolver.getIssuerDefinition(managerRole, {
+          blockTag: blockBeforeUpdate,
+        })
+      ).to.eql(managerDefinition.issuer);
+      expect(
+        (await issuerResolver.getIssuerDefinition(managerRole))?.issuerType
+      ).to.equal('DID');
+    });
+
+    it('resolves revokers at timestamp', async () => {
+      const { timestamp } = await provider.getBlock(blockBeforeUpdate);
+
+      expect(
+        await revokerResolver.getRevokerDefinition(managerRole, { timestamp })
+      ).to.eql(managerDefinition.revoker);
+    });
+  });
 }
@@ -20,6 +20,11 @@ import { claimIssuerVerificationTests } from './claim-issuer-verification';
 import { vcIssuerVerificationTests } from './vc-issuer-verification';
 import { revocationVerificationTests } from './vc-revocation-test';
 import { issuerVerificationTests } from './issuer-verification-test';
+import { didResolverTests } from './did-resolver-test';
+import { authorityPolicyTests } from './authority-policy-test';
+import { issuerFieldsTests } from './issuer-fields-test';
+import { credentialExpiryTests } from './credential-expiry-test';
+import { credentialVerifierTests } from './credential-verifier-test';
 
 export const hashLabel = (label: string): string =>
   utils.keccak256(utils.toUtf8Bytes(label));
@@ -71,7 +76,13 @@ describe('[VC Verificaiton]', function () {
       vcIssuerVerificationTests
     );
     describe('Issuer with either VC or RoleEIP191Jwt', issuerVerificationTests);
+    describe('Multi-role issuer and revoker policies', authorityPolicyTests);
+    describe('Issuer fields of Verifiable Credentials', issuerFieldsTests);
+    describe('Expiry of credentials', credentialExpiryTests);
+    describe('End-to-end credential verification', credentialVerifierTests);
   });
 
   describe('Verification of revocation', revocationVerificationTests);
+
+  describe('DID resolution', didResolverTests);
 });